@@ -489,6 +489,16 @@ export class Bbox
              )   
     }
 
+    /** Check if this Bbox overlaps or touches another */
+    _intersectsBbox(other:Bbox):boolean
+    {
+        return (
+                this.bounds[0] <= other.bounds[1] && this.bounds[1] >= other.bounds[0] // x
+                && this.bounds[2] <= other.bounds[3] && this.bounds[3] >= other.bounds[2] // y
+                && this.bounds[4] <= other.bounds[5] && this.bounds[5] >= other.bounds[4] // z
+             )
+    }
+
     //// DATA EXPORTS ////
 
     toData():Array<number>
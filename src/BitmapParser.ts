@@ -0,0 +1,359 @@
+import { unzlibSync } from 'fflate'
+
+/* Docs:
+    - PNG specification: https://www.w3.org/TR/png/
+    - Marching squares: https://en.wikipedia.org/wiki/Marching_squares
+
+    PNG is decoded here so bitmaps can be imported in any environment (also Node)
+    Other formats (jpg, gif) are decoded by the browser with createImageBitmap, if available
+*/
+
+/** Pixels of an image as RGBA values (0-255) row by row from the top left, like ImageData */
+export interface Bitmap
+{
+    width:number,
+    height:number,
+    data:Uint8Array|Uint8ClampedArray,
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const PNG_CHANNELS = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }; // by color type: gray, RGB, palette, gray + alpha, RGBA
+
+/** Segments of cell edges for each marching squares case. Cell corners: 1 top left, 2 top right, 4 bottom right, 8 bottom left
+ *  Edges: 0 top, 1 right, 2 bottom, 3 left. Saddles (5 and 10) are resolved separately
+ */
+const MARCHING_SQUARES_SEGMENTS = {
+    1: [[3,0]], 2: [[0,1]], 3: [[3,1]], 4: [[1,2]], 6: [[0,2]], 7: [[3,2]], 8: [[2,3]],
+    9: [[2,0]], 11: [[2,1]], 12: [[1,3]], 13: [[1,0]], 14: [[0,3]],
+}
+
+export class BitmapParser
+{
+    bitmap:Bitmap = null;
+    _gray:Float32Array = null; // luminance 0 (black) - 1 (white) per pixel
+
+    /** Decode PNG (or any format the browser can decode) or use given pixels */
+    async parse(content:ArrayBuffer|Bitmap):Promise<BitmapParser>
+    {
+        if (content instanceof ArrayBuffer)
+        {
+            this.bitmap = (this._isPNG(content)) ? this._decodePNG(content) : await this._decodeWithBrowser(content);
+        }
+        else if ((content as Bitmap)?.data && (content as Bitmap)?.width)
+        {
+            this.bitmap = content as Bitmap;
+        }
+        else {
+            throw new Error(`BitmapParser::parse: Please supply the content of an image or pixels like { width, height, data }`);
+        }
+
+        this._gray = this._toGray(this.bitmap);
+
+        return this;
+    }
+
+    /** Gray value (0-1) at pixel coordinates with bilinear interpolation between pixel centers */
+    grayAt(x:number, y:number):number
+    {
+        const { width, height } = this.bitmap;
+        const px = Math.min(Math.max(x - 0.5, 0), width - 1);
+        const py = Math.min(Math.max(y - 0.5, 0), height - 1);
+        const [x0, y0] = [Math.floor(px), Math.floor(py)];
+        const [x1, y1] = [Math.min(x0 + 1, width - 1), Math.min(y0 + 1, height - 1)];
+        const [fx, fy] = [px - x0, py - y0];
+
+        const top = this._gray[y0 * width + x0] * (1 - fx) + this._gray[y0 * width + x1] * fx;
+        const bottom = this._gray[y1 * width + x0] * (1 - fx) + this._gray[y1 * width + x1] * fx;
+
+        return top * (1 - fy) + bottom * fy;
+    }
+
+    /** Trace outlines of regions darker than threshold (or lighter with invert) into closed polylines in pixel coordinates
+     *  Outlines go through pixel centers and are simplified within tolerance (in pixels)
+     */
+    traceContours(threshold:number=0.5, invert:boolean=false, tolerance:number=0.25):Array<Array<Array<number>>>
+    {
+        const { width, height } = this.bitmap;
+        // values with a border of outside pixels around the image, so all contours are closed
+        const value = (x:number, y:number) =>
+        {
+            if (x < 0 || y < 0 || x >= width || y >= height)
+            {
+                return 0;
+            }
+            const gray = this._gray[y * width + x];
+            return (invert) ? gray - threshold : threshold - gray; // > 0 is inside
+        }
+
+        // all segments between points on cell edges. Points are keyed by their edge to link segments later
+        const points:{[key:string]:Array<number>} = {};
+        const links:{[key:string]:Array<string>} = {};
+
+        for (let y = -1; y < height; y++)
+        {
+            for (let x = -1; x < width; x++)
+            {
+                const corners = [value(x, y), value(x + 1, y), value(x + 1, y + 1), value(x, y + 1)];
+                const index = corners.reduce((sum, v, i) => sum + ((v > 0) ? (1 << i) : 0), 0);
+
+                let segments = MARCHING_SQUARES_SEGMENTS[index];
+                if (index === 5 || index === 10)
+                {
+                    // when the center is inside the diagonal of inside corners is connected
+                    const centerInside = corners.reduce((sum, v) => sum + v, 0) > 0;
+                    segments = ((index === 5) === centerInside) ? [[0,1],[2,3]] : [[3,0],[1,2]];
+                }
+
+                (segments || []).forEach(([from, to]) =>
+                {
+                    const [fromKey, toKey] = [from, to].map(edge => this._addEdgePoint(points, x, y, edge, corners));
+                    (links[fromKey] = links[fromKey] || []).push(toKey);
+                    (links[toKey] = links[toKey] || []).push(fromKey);
+                });
+            }
+        }
+
+        // link segments into closed polylines
+        const visited = new Set<string>();
+        const contours = [];
+
+        Object.keys(links).forEach(startKey =>
+        {
+            if (visited.has(startKey))
+            {
+                return;
+            }
+            const contour = [];
+            let [prevKey, curKey] = [null, startKey];
+            while (curKey && !visited.has(curKey))
+            {
+                visited.add(curKey);
+                contour.push(points[curKey]);
+                const nextKey = links[curKey].find(k => k !== prevKey && !visited.has(k));
+                [prevKey, curKey] = [curKey, nextKey];
+            }
+            if (contour.length >= 3)
+            {
+                contours.push(this._simplify(contour, tolerance));
+            }
+        });
+
+        return contours.filter(c => c.length >= 3);
+    }
+
+    /** Point on edge of the cell at (x,y) where the value crosses zero. Returns key shared by neighbouring cells */
+    _addEdgePoint(points:{[key:string]:Array<number>}, x:number, y:number, edge:number, corners:Array<number>):string
+    {
+        const [a, b] = [[0,1],[1,2],[3,2],[0,3]][edge]; // corner indices for top, right, bottom, left
+        const t = corners[a] / (corners[a] - corners[b]);
+        const cornerPositions = [[x,y],[x+1,y],[x+1,y+1],[x,y+1]];
+        const [pa, pb] = [cornerPositions[a], cornerPositions[b]];
+
+        // horizontal edges are keyed by their left corner, vertical ones by their top corner
+        const key = (edge === 0 || edge === 2) ? `h${pa[0]},${pa[1]}` : `v${pa[0]},${pa[1]}`;
+        // to pixel centers, but keep contours along the border within the image
+        points[key] = [
+            Math.min(Math.max(pa[0] + (pb[0] - pa[0]) * t + 0.5, 0), this.bitmap.width),
+            Math.min(Math.max(pa[1] + (pb[1] - pa[1]) * t + 0.5, 0), this.bitmap.height)
+        ];
+
+        return key;
+    }
+
+    /** Simplify closed polyline with Douglas-Peucker */
+    _simplify(points:Array<Array<number>>, tolerance:number):Array<Array<number>>
+    {
+        if (tolerance <= 0 || points.length < 4)
+        {
+            return points;
+        }
+
+        const simplifyOpen = (pts:Array<Array<number>>):Array<Array<number>> =>
+        {
+            const [start, end] = [pts[0], pts[pts.length - 1]];
+            const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+            let [maxDistance, maxIndex] = [0, 0];
+
+            for (let i = 1; i < pts.length - 1; i++)
+            {
+                const distance = (length === 0) ?
+                                    Math.hypot(pts[i][0] - start[0], pts[i][1] - start[1]) :
+                                    Math.abs((end[0] - start[0]) * (start[1] - pts[i][1]) - (start[0] - pts[i][0]) * (end[1] - start[1])) / length;
+                if (distance > maxDistance)
+                {
+                    [maxDistance, maxIndex] = [distance, i];
+                }
+            }
+
+            return (maxDistance > tolerance) ?
+                        simplifyOpen(pts.slice(0, maxIndex + 1)).slice(0, -1).concat(simplifyOpen(pts.slice(maxIndex))) :
+                        [start, end];
+        }
+
+        // split closed polyline at the point furthest from the start
+        const start = points[0];
+        const farIndex = points.reduce((best, p, i) => (Math.hypot(p[0] - start[0], p[1] - start[1]) > Math.hypot(points[best][0] - start[0], points[best][1] - start[1])) ? i : best, 0);
+
+        return simplifyOpen(points.slice(0, farIndex + 1)).slice(0, -1).concat(simplifyOpen(points.slice(farIndex).concat([start])).slice(0, -1));
+    }
+
+    /** Luminance of pixels. Transparent pixels are composited on white */
+    _toGray(bitmap:Bitmap):Float32Array
+    {
+        const gray = new Float32Array(bitmap.width * bitmap.height);
+        for (let i = 0; i < gray.length; i++)
+        {
+            const [r, g, b, a] = [0,1,2,3].map(c => bitmap.data[i * 4 + c] / 255);
+            gray[i] = (0.2126 * r + 0.7152 * g + 0.0722 * b) * a + (1 - a);
+        }
+        return gray;
+    }
+
+    _isPNG(content:ArrayBuffer):boolean
+    {
+        const bytes = new Uint8Array(content, 0, Math.min(8, content.byteLength));
+        return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+    }
+
+    /** Decode non-interlaced PNG of any color type and bit depth into RGBA pixels */
+    _decodePNG(content:ArrayBuffer):Bitmap
+    {
+        const view = new DataView(content);
+        let [width, height, bitDepth, colorType, interlace] = [0, 0, 8, 6, 0];
+        let palette:Uint8Array = null;
+        let transparency:Uint8Array = null;
+        const dataChunks:Array<Uint8Array> = [];
+
+        // chunks: length, type, data and crc
+        let offset = 8;
+        while (offset + 8 <= content.byteLength)
+        {
+            const length = view.getUint32(offset);
+            const type = String.fromCharCode(...new Uint8Array(content, offset + 4, 4));
+            const data = new Uint8Array(content, offset + 8, length);
+
+            switch(type)
+            {
+                case 'IHDR':
+                    [width, height] = [view.getUint32(offset + 8), view.getUint32(offset + 12)];
+                    [bitDepth, colorType, interlace] = [data[8], data[9], data[12]];
+                    break;
+                case 'PLTE':
+                    palette = data;
+                    break;
+                case 'tRNS':
+                    transparency = data;
+                    break;
+                case 'IDAT':
+                    dataChunks.push(data);
+                    break;
+            }
+            if (type === 'IEND')
+            {
+                break;
+            }
+            offset += 12 + length;
+        }
+
+        if (interlace !== 0)
+        {
+            throw new Error(`BitmapParser::_decodePNG: Interlaced PNG is not supported. Please save the image without interlacing`);
+        }
+
+        const compressed = new Uint8Array(dataChunks.reduce((sum, c) => sum + c.length, 0));
+        dataChunks.reduce((pos, c) => { compressed.set(c, pos); return pos + c.length; }, 0);
+        const raw = unzlibSync(compressed);
+
+        const channels = PNG_CHANNELS[colorType];
+        const bitsPerPixel = channels * bitDepth;
+        const bytesPerPixel = Math.max(1, bitsPerPixel / 8);
+        const stride = Math.ceil(width * bitsPerPixel / 8);
+        const maxValue = (1 << bitDepth) - 1;
+
+        const pixels = new Uint8Array(width * height * 4);
+        let prevLine = new Uint8Array(stride);
+
+        for (let y = 0; y < height; y++)
+        {
+            const filter = raw[y * (stride + 1)];
+            const line = raw.slice(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+            this._unfilterPNGLine(filter, line, prevLine, bytesPerPixel);
+
+            for (let x = 0; x < width; x++)
+            {
+                // samples of pixel, scaled to 0-255
+                const samples = [];
+                for (let c = 0; c < channels; c++)
+                {
+                    const bitOffset = (x * channels + c) * bitDepth;
+                    let sample;
+                    if (bitDepth === 16)
+                    {
+                        sample = line[bitOffset / 8]; // high byte
+                    }
+                    else {
+                        sample = (line[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxValue;
+                        sample = (colorType === 3) ? sample : Math.round(sample * 255 / maxValue);
+                    }
+                    samples.push(sample);
+                }
+
+                let rgba;
+                switch(colorType)
+                {
+                    case 0: rgba = [samples[0], samples[0], samples[0], 255]; break;
+                    case 2: rgba = [...samples, 255]; break;
+                    case 3: rgba = [palette[samples[0]*3], palette[samples[0]*3+1], palette[samples[0]*3+2], transparency?.[samples[0]] ?? 255]; break;
+                    case 4: rgba = [samples[0], samples[0], samples[0], samples[1]]; break;
+                    default: rgba = samples;
+                }
+                pixels.set(rgba, (y * width + x) * 4);
+            }
+            prevLine = line;
+        }
+
+        return { width: width, height: height, data: pixels };
+    }
+
+    /** Reverse PNG filter of scanline in place */
+    _unfilterPNGLine(filter:number, line:Uint8Array, prevLine:Uint8Array, bytesPerPixel:number)
+    {
+        for (let i = 0; i < line.length; i++)
+        {
+            const left = (i >= bytesPerPixel) ? line[i - bytesPerPixel] : 0;
+            const up = prevLine[i];
+            const upLeft = (i >= bytesPerPixel) ? prevLine[i - bytesPerPixel] : 0;
+
+            switch(filter)
+            {
+                case 1: line[i] += left; break;
+                case 2: line[i] += up; break;
+                case 3: line[i] += (left + up) >> 1; break;
+                case 4:
+                {
+                    // Paeth predictor
+                    const p = left + up - upLeft;
+                    const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+                    line[i] += (pa <= pb && pa <= pc) ? left : (pb <= pc) ? up : upLeft;
+                    break;
+                }
+            }
+        }
+    }
+
+    /** Let the browser decode the image (also in WebWorkers) */
+    async _decodeWithBrowser(content:ArrayBuffer):Promise<Bitmap>
+    {
+        if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined')
+        {
+            throw new Error(`BitmapParser::_decodeWithBrowser: Only PNG can be decoded in this environment. Please convert the image to PNG`);
+        }
+
+        const image = await createImageBitmap(new Blob([content]));
+        const canvas = new OffscreenCanvas(image.width, image.height);
+        const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+        context.drawImage(image, 0, 0);
+
+        return context.getImageData(0, 0, image.width, image.height) as Bitmap;
+    }
+}
@@ -23,7 +23,7 @@ export interface Statement
     code:string; // the real code
     startIndex: number;
     endIndex: number;
-    lineStart:number; // the line the statement starts (it can actually span multiple lines)
+    lineStart:number; // the line the statement starts (it can actually span multiple lines) - also used to link Console messages, see Console.setStatement
     lineEnd:number;
     columnStartIndex:number;
     columnEndIndex:number;
@@ -39,7 +39,7 @@ export class CodeParser
     }
     
     IMPORT_RE = /\$import\((\'|\")([^\'\"]+)\'[\s]*,[\s]*(\{[^\}]+\})/ 
-    LOAD_RE = /\$load\((\'|\")([^\'\"]+)(\"|\')\)/;
+    LOAD_RE = /\$load\((\'|\")([^\'\"]+)(\"|\')\s*(,\s*(\{[^\}]*\}))?\s*\)/; // with optional import settings like $load('map.png', { mode: 'contour' })
     DOC_RE = /docs\s*\./;
 
 
@@ -236,7 +236,7 @@ export class CodeParser
                     let source = loadStatement[2];
                     if (source)
                     {
-                        await this.io.load(source); // put in cache
+                        await this.io.load(source, false, false, this.parseLoadOptions(loadStatement[5])); // put in cache
                     }
                 }
             }
@@ -245,6 +245,45 @@ export class CodeParser
         return this.statements; // return all statements
     }
 
+    /** Get settings of $load from its object literal. Only literal values are used: others are skipped with a warning */
+    parseLoadOptions(objectCode:string):{[key:string]:any}
+    {
+        let options = {};
+        if (!objectCode)
+        {
+            return options;
+        }
+
+        try 
+        {
+            let node = Parser.parseExpressionAt(objectCode, 0, this.ACORN_OPTIONS) as any; // TODO: acorn typing
+            node.properties.forEach( property => 
+            {
+                let key = property.key.name ?? property.key.value;
+                let valueNode = property.value;
+                let isNegativeNumber = valueNode.type === 'UnaryExpression' && valueNode.operator === '-' && valueNode.argument.type === 'Literal';
+
+                if (valueNode.type === 'Literal')
+                {
+                    options[key] = valueNode.value;
+                }
+                else if (isNegativeNumber)
+                {
+                    options[key] = -valueNode.argument.value;
+                }
+                else {
+                    console.warn(`CodeParser::parseLoadOptions: Skipped setting "${key}" of $load: only plain values like numbers and strings are supported`);
+                }
+            });
+        }
+        catch(e)
+        {
+            console.error(`CodeParser::parseLoadOptions: Cannot parse settings of $load: "${objectCode}"`);
+        }
+
+        return options;
+    }
+
     transformImportStatement(importStatement:ImportStatement, importedScript:ScriptVersion)
     {
         // ImportStatement contains: code, name, versionTag, paramValues and the original statement
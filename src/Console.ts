@@ -11,6 +11,8 @@ export interface ConsoleMessage
     time: string,
     from: string, // component
     message: string,
+    lineStart?: number, // line(s) of the script statement that was executing when the message was made
+    lineEnd?: number,
 }
 
 export default class Console
@@ -18,6 +20,7 @@ export default class Console
     output = null; // Vuex store, console, webworker instance or a local array [ null ]
     buffer:Array<ConsoleMessage> = []; // If we cannot output somewhere put in buffer
     _originalConsole = null // avoid circular references 
+    _statement:{ lineStart:number, lineEnd:number } = null; // statement currently executed, to link messages (like errors of Shape.validate()) to the script
 
     constructor(output:any)
     {
@@ -47,6 +50,14 @@ export default class Console
         }
     }
 
+    /** Set the script statement that is being executed. New messages are linked to it. Use null to unset
+     *  NOTE: this library does not execute scripts: the GeomWorker of the Archiyou app calls this with every Statement 
+     *  of CodeParser.getStatements() before executing it, and with null when the script is done */
+    setStatement(statement:{ lineStart:number, lineEnd:number }|null)
+    {
+        this._statement = (statement) ? { lineStart: statement.lineStart, lineEnd: statement.lineEnd } : null;
+    }
+
     _getOutputType():string
     {
         if( this.output.hasOwnProperty('commit'))
@@ -111,6 +122,11 @@ export default class Console
 
         let msgStr = (typeof message === 'string' || this._getOutputType() == 'console') ? message as any :  this.stringifyMessage(message);
         let newMessage:ConsoleMessage = { type: type, time : this._currentTime() , from: null, message : msgStr  };
+        if (this._statement)
+        {
+            newMessage.lineStart = this._statement.lineStart;
+            newMessage.lineEnd = this._statement.lineEnd;
+        }
         this.sendMessage(newMessage);
     }
 
@@ -0,0 +1,318 @@
+import { Point, Edge, ModelUnits } from './internal'
+
+/* Docs:
+    - DXF reference: https://help.autodesk.com/view/OARX/2018/ENU/?guid=GUID-235B22E0-A567-4CF6-92D3-38A2306D73F3
+    - Group codes: https://help.autodesk.com/view/OARX/2018/ENU/?guid=GUID-3F0380A5-1C15-464D-BC66-2C5F094BCFB9
+
+    We write a minimal DXF R2000 (AC1015) file with LTYPE and LAYER tables and an ENTITIES section
+*/
+
+export interface DXFLayer
+{
+    name:string,
+    color?:number, // true color as integer (0xRRGGBB)
+    linetype?:string, // name of a linetype in DXF_LINETYPES
+    lineweight?:number, // in 1/100 mm
+}
+
+export interface DXFLinetype
+{
+    name:string,
+    description:string,
+    pattern:Array<number>, // dash lengths: positive is dash, negative is gap
+}
+
+export const DXF_LINETYPES:{[key:string]:DXFLinetype} = {
+    CONTINUOUS : { name: 'CONTINUOUS', description: 'Solid line', pattern: [] },
+    HIDDEN : { name: 'HIDDEN', description: 'Hidden __ __ __ __', pattern: [6.35, -3.175] },
+    DASHED : { name: 'DASHED', description: 'Dashed __  __  __', pattern: [12.7, -6.35] },
+}
+
+const DXF_FIRST_HANDLE = 0x100; // keep lower handles free for readers that add their own objects
+
+/** INSUNITS header values for ModelUnits */
+const MODEL_UNITS_TO_DXF_INSUNITS = {
+    'inch' : 1,
+    'feet' : 2,
+    'mi' : 3,
+    'mm' : 4,
+    'cm' : 5,
+    'm' : 6,
+    'km' : 7,
+    'yd' : 10,
+    'dm' : 14,
+}
+
+export class DXFBuilder
+{
+    units:ModelUnits;
+    layers:{[key:string]:DXFLayer} = {};
+    entities:Array<Array<string|number>> = []; // flat list of group code/value pairs per entity
+
+    _handleCounter:number;
+
+    constructor(units?:ModelUnits)
+    {
+        this.units = units || 'mm';
+        this.addLayer({ name: '0' }); // default layer that should always be present
+    }
+
+    /** Add a layer definition. Existing layers with the same name are kept */
+    addLayer(layer:DXFLayer):DXFLayer
+    {
+        if(!this.layers[layer.name])
+        {
+            this.layers[layer.name] = { linetype: 'CONTINUOUS', lineweight: -3, ...layer }; // -3 = default lineweight
+        }
+        return this.layers[layer.name];
+    }
+
+    //// ENTITIES ////
+
+    addLine(start:Point, end:Point, layer:string='0'):DXFBuilder
+    {
+        this.entities.push(['LINE', layer, 'AcDbLine',
+                10, start.x, 20, start.y, 30, start.z,
+                11, end.x, 21, end.y, 31, end.z]);
+        return this;
+    }
+
+    addCircle(center:Point, radius:number, layer:string='0'):DXFBuilder
+    {
+        this.entities.push(['CIRCLE', layer, 'AcDbCircle',
+                10, center.x, 20, center.y, 30, center.z, 40, radius]);
+        return this;
+    }
+
+    /** Add an arc that runs counter-clockwise from startAngle to endAngle (in degrees) */
+    addArc(center:Point, radius:number, startAngle:number, endAngle:number, layer:string='0'):DXFBuilder
+    {
+        this.entities.push(['ARC', layer, 'AcDbCircle',
+                10, center.x, 20, center.y, 30, center.z, 40, radius,
+                100, 'AcDbArc', 50, startAngle, 51, endAngle]);
+        return this;
+    }
+
+    /** Add a (rational) B-spline by control points, full knot vector and optional weights */
+    addSpline(degree:number, controlPoints:Array<Point>, knots:Array<number>, weights?:Array<number>, layer:string='0'):DXFBuilder
+    {
+        const SPLINE_FLAG_RATIONAL = 4;
+        const SPLINE_FLAG_PLANAR = 8;
+
+        let flags = SPLINE_FLAG_PLANAR | ((weights) ? SPLINE_FLAG_RATIONAL : 0);
+        let groups:Array<string|number> = ['SPLINE', layer, 'AcDbSpline',
+                70, flags, 71, degree, 72, knots.length, 73, controlPoints.length, 74, 0];
+
+        knots.forEach( k => groups.push(40, k));
+        controlPoints.forEach( (p,i) =>
+        {
+            groups.push(10, p.x, 20, p.y, 30, p.z);
+            if(weights){ groups.push(41, weights[i]) };
+        });
+
+        this.entities.push(groups);
+        return this;
+    }
+
+    /** Add a 3D polyline through given points */
+    addPolyline(points:Array<Point>, closed:boolean=false, layer:string='0'):DXFBuilder
+    {
+        // NOTE: LWPOLYLINE is 2D only, so we use the POLYLINE/VERTEX/SEQEND entities
+        const POLYLINE_FLAG_CLOSED = 1;
+        const POLYLINE_FLAG_3D = 8;
+
+        this.entities.push(['POLYLINE', layer, 'AcDb3dPolyline',
+                66, 1, 10, 0, 20, 0, 30, 0, 70, POLYLINE_FLAG_3D | ((closed) ? POLYLINE_FLAG_CLOSED : 0)]);
+        points.forEach( p =>
+        {
+            this.entities.push(['VERTEX', layer, 'AcDb3dPolylineVertex',
+                10, p.x, 20, p.y, 30, p.z, 70, 32]); // 32 = 3D polyline vertex
+        });
+        this.entities.push(['SEQEND', layer, null]);
+
+        return this;
+    }
+
+    /** Add an Edge as the DXF entity that matches its edgeType() best.
+     *  Curves that have no DXF counterpart are discretized into a polyline */
+    addEdge(edge:Edge, layer:string='0'):DXFBuilder
+    {
+        const ocCurve = edge._toOcCurve();
+        const [uMin,uMax] = edge.getParamMinMax();
+
+        switch(edge.edgeType())
+        {
+            case 'Line':
+                return this.addLine(edge.start().toPoint(), edge.end().toPoint(), layer);
+
+            case 'Circle':
+            case 'Arc':
+                const ocCircle = ocCurve.Circle();
+                const center = new Point()._fromOcPoint(ocCircle.Location());
+                const axisZ = ocCircle.Axis().Direction().Z();
+
+                // ARC and CIRCLE entities are defined in a plane parallel to XY (we don't write extrusion directions)
+                if(Math.abs(Math.abs(axisZ) - 1) > edge._oc.SHAPE_TOLERANCE)
+                {
+                    break;
+                }
+
+                if(edge.edgeType() === 'Circle')
+                {
+                    return this.addCircle(center, ocCircle.Radius(), layer);
+                }
+                else {
+                    // the curve runs counter-clockwise around its axis from uMin to uMax
+                    let [startAngle,endAngle] = [uMin, uMax].map(u => this._angleAround(center, edge.pointAtParam(u)));
+                    // DXF arcs always run counter-clockwise in XY: flip if the axis points down
+                    if(axisZ < 0)
+                    {
+                        [startAngle,endAngle] = [endAngle,startAngle];
+                    }
+                    return this.addArc(center, ocCircle.Radius(), startAngle, endAngle, layer);
+                }
+
+            case 'BSplineCurve':
+                const ocBSpline = ocCurve.BSpline().get();
+                // periodic or trimmed splines: control points don't directly translate
+                if (ocBSpline.IsPeriodic()
+                        || Math.abs(ocBSpline.FirstParameter() - uMin) > edge._oc.SHAPE_TOLERANCE
+                        || Math.abs(ocBSpline.LastParameter() - uMax) > edge._oc.SHAPE_TOLERANCE)
+                {
+                    break;
+                }
+
+                let knots:Array<number> = [];
+                for(let k = 1; k <= ocBSpline.NbKnots(); k++) // NOTE: OC indices start at 1
+                {
+                    for(let m = 0; m < ocBSpline.Multiplicity(k); m++){ knots.push(ocBSpline.Knot(k)) }
+                }
+
+                let bSplinePoles:Array<Point> = [];
+                let bSplineWeights:Array<number> = [];
+                for(let p = 1; p <= ocBSpline.NbPoles(); p++)
+                {
+                    bSplinePoles.push(new Point()._fromOcPoint(ocBSpline.Pole(p)));
+                    bSplineWeights.push(ocBSpline.Weight(p));
+                }
+
+                return this.addSpline(ocBSpline.Degree(), bSplinePoles, knots, (ocBSpline.IsRational()) ? bSplineWeights : null, layer);
+
+            case 'BezierCurve':
+                // A Bezier curve is a B-spline with clamped knots [0...0,1...1]
+                const ocBezier = ocCurve.Bezier().get();
+                const degree = ocBezier.Degree();
+
+                let bezierPoles:Array<Point> = [];
+                let bezierWeights:Array<number> = [];
+                for(let p = 1; p <= ocBezier.NbPoles(); p++)
+                {
+                    bezierPoles.push(new Point()._fromOcPoint(ocBezier.Pole(p)));
+                    bezierWeights.push(ocBezier.Weight(p));
+                }
+                const bezierKnots = new Array(degree+1).fill(0).concat(new Array(degree+1).fill(1));
+
+                return this.addSpline(degree, bezierPoles, bezierKnots, (ocBezier.IsRational()) ? bezierWeights : null, layer);
+        }
+
+        // fallback for all other curves (Ellipse, OffsetCurve etc) or the ones we could not translate directly
+        return this.addPolyline(this._discretizeEdge(edge), edge.start().equals(edge.end()), layer);
+    }
+
+    //// OUTPUT ////
+
+    /** Output DXF file as string */
+    toDXF():string
+    {
+        let groups:Array<string|number> = [];
+        const linetypes = Object.values(DXF_LINETYPES);
+        const layers = Object.values(this.layers);
+
+        this._handleCounter = DXF_FIRST_HANDLE;
+        const handleSeed = DXF_FIRST_HANDLE + 2 + linetypes.length + layers.length + this.entities.length; // 2 table handles
+
+        // HEADER
+        groups.push(0, 'SECTION', 2, 'HEADER',
+                    9, '$ACADVER', 1, 'AC1015',
+                    9, '$INSUNITS', 70, MODEL_UNITS_TO_DXF_INSUNITS[this.units] || 0,
+                    9, '$HANDSEED', 5, handleSeed.toString(16).toUpperCase(),
+                    0, 'ENDSEC');
+
+        // TABLES
+        groups.push(0, 'SECTION', 2, 'TABLES');
+
+        groups.push(0, 'TABLE', 2, 'LTYPE', 5, this._newHandle(), 100, 'AcDbSymbolTable', 70, linetypes.length);
+        linetypes.forEach( lt =>
+        {
+            groups.push(0, 'LTYPE', 5, this._newHandle(), 100, 'AcDbSymbolTableRecord', 100, 'AcDbLinetypeTableRecord',
+                        2, lt.name, 70, 0, 3, lt.description, 72, 65, 73, lt.pattern.length,
+                        40, lt.pattern.reduce((sum,l) => sum + Math.abs(l), 0));
+            lt.pattern.forEach( l => groups.push(49, l, 74, 0));
+        });
+        groups.push(0, 'ENDTAB');
+
+        groups.push(0, 'TABLE', 2, 'LAYER', 5, this._newHandle(), 100, 'AcDbSymbolTable', 70, layers.length);
+        layers.forEach( layer =>
+        {
+            groups.push(0, 'LAYER', 5, this._newHandle(), 100, 'AcDbSymbolTableRecord', 100, 'AcDbLayerTableRecord',
+                        2, layer.name, 70, 0, 62, 7, 6, layer.linetype, 370, layer.lineweight);
+            if(typeof layer.color === 'number'){ groups.push(420, layer.color) };
+        });
+        groups.push(0, 'ENDTAB');
+
+        groups.push(0, 'ENDSEC');
+
+        // ENTITIES
+        groups.push(0, 'SECTION', 2, 'ENTITIES');
+        this.entities.forEach( entity =>
+        {
+            const [type, layer, subclass, ...rest] = entity;
+            groups.push(0, type, 5, this._newHandle(), 100, 'AcDbEntity', 8, layer);
+            if(subclass){ groups.push(100, subclass) };
+            groups.push(...rest);
+        });
+        groups.push(0, 'ENDSEC');
+
+        groups.push(0, 'EOF');
+
+        // every group code and value on its own line
+        return groups.map( v => (typeof v === 'number') ? this._formatNumber(v) : v ).join('\n') + '\n';
+    }
+
+    //// UTILS ////
+
+    _newHandle():string
+    {
+        return (this._handleCounter++).toString(16).toUpperCase();
+    }
+
+    /** Angle in degrees [0-360> of point around center in XY plane */
+    _angleAround(center:Point, point:Point):number
+    {
+        const angle = Math.atan2(point.y - center.y, point.x - center.x) * 180 / Math.PI;
+        return (angle < 0) ? angle + 360 : angle;
+    }
+
+    /** Get points along Edge within tolerance (see Edge.toSvg) */
+    _discretizeEdge(edge:Edge):Array<Point>
+    {
+        const [start,end] = edge.getParamMinMax();
+        const ocPointGenerator = new edge._oc.GCPnts_QuasiUniformDeflection_4(edge._toOcCurve(), edge._oc.SHAPE_TOLERANCE, start, end, edge._oc.GeomAbs_Shape.GeomAbs_C1);
+
+        let points:Array<Point> = [];
+        if(ocPointGenerator.IsDone())
+        {
+            for(let p = 1; p <= ocPointGenerator.NbPoints(); p++) // NOTE: index start = 1
+            {
+                points.push(new Point()._fromOcPoint(ocPointGenerator.Value(p)));
+            }
+        }
+        return points;
+    }
+
+    /** Group codes are integers, all other values we round to avoid very long floating point strings */
+    _formatNumber(n:number):string
+    {
+        return (Number.isInteger(n)) ? n.toString() : (Math.round(n * 1e9) / 1e9).toString();
+    }
+}
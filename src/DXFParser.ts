@@ -0,0 +1,472 @@
+import { Edge, ShapeCollection, ModelUnits, MODEL_UNITS_TO_MM } from './internal'
+
+/* Docs:
+    - DXF reference: https://help.autodesk.com/view/OARX/2018/ENU/?guid=GUID-235B22E0-A567-4CF6-92D3-38A2306D73F3
+    - Entities: https://help.autodesk.com/view/OARX/2018/ENU/?guid=GUID-7D07C886-FD1D-4A0C-A7AB-B4D21F18E484
+    - Object Coordinate Systems (OCS): https://help.autodesk.com/view/OARX/2018/ENU/?guid=GUID-E19E5B42-0CC7-4EBA-B29F-5E1D595149EE
+
+    We read the ENTITIES and BLOCKS sections into plain entities and convert the 2D(ish) curves to Edges
+    Entities without an Edge (TEXT, HATCH, DIMENSION etc) are skipped
+*/
+
+export interface DXFEntity
+{
+    type:string, // LINE, ARC etc
+    layer:string,
+    groups:Array<[number,string]>, // all group code and (raw) value pairs after the type
+}
+
+export interface DXFBlock
+{
+    name:string,
+    basePoint:Array<number>,
+    entities:Array<DXFEntity>,
+}
+
+/** Affine transformation as row-major 3x4 matrix */
+type DXFMatrix = Array<number>
+
+const DXF_IDENTITY:DXFMatrix = [1,0,0,0, 0,1,0,0, 0,0,1,0];
+const DXF_MAX_BLOCK_DEPTH = 16; // protect against blocks that insert themselves
+const DXF_OCS_ENTITIES = ['ARC', 'CIRCLE', 'LWPOLYLINE', 'INSERT']; // entities with coordinates in their OCS
+
+/** ModelUnits for INSUNITS header values */
+const DXF_INSUNITS_TO_MODEL_UNITS:{[key:number]:ModelUnits} = {
+    1 : 'inch',
+    2 : 'feet',
+    3 : 'mi',
+    4 : 'mm',
+    5 : 'cm',
+    6 : 'm',
+    7 : 'km',
+    10 : 'yd',
+    14 : 'dm',
+}
+
+export class DXFParser
+{
+    _oc:any;
+    units:ModelUnits; // from $INSUNITS header. Null if not set
+    entities:Array<DXFEntity> = [];
+    blocks:{[name:string]:DXFBlock} = {};
+    skipped:{[type:string]:number} = {}; // count of entities that were skipped by type
+
+    constructor(oc:any)
+    {
+        this._oc = oc;
+    }
+
+    /** Parse DXF content into entities and blocks */
+    parse(content:string):DXFParser
+    {
+        const lines = content.split(/\r?\n/);
+
+        let section:string = null;
+        let block:DXFBlock = null;
+        let entity:DXFEntity = null;
+        let headerVariable:string = null;
+
+        for (let i = 0; i + 1 < lines.length; i += 2)
+        {
+            const code = parseInt(lines[i].trim());
+            const value = lines[i+1].trim();
+
+            if (isNaN(code))
+            {
+                throw new Error(`DXFParser::parse: Invalid group code "${lines[i]}" at line ${i+1}. Check if this is an ASCII DXF file!`);
+            }
+
+            if (code === 0)
+            {
+                entity = null;
+                if (value === 'SECTION' || value === 'ENDSEC' || value === 'EOF')
+                {
+                    section = null;
+                }
+                else if (section === 'BLOCKS' && value === 'BLOCK')
+                {
+                    block = { name: null, basePoint: [0,0,0], entities: [] };
+                }
+                else if (section === 'BLOCKS' && value === 'ENDBLK')
+                {
+                    if (block?.name)
+                    {
+                        this.blocks[block.name] = block;
+                    }
+                    block = null;
+                }
+                else if (section === 'ENTITIES' || (section === 'BLOCKS' && block))
+                {
+                    entity = { type: value, layer: '0', groups: [] };
+                    ((block) ? block.entities : this.entities).push(entity);
+                }
+            }
+            else if (code === 2 && section === null)
+            {
+                section = value;
+            }
+            else if (entity)
+            {
+                entity.groups.push([code, value]);
+                if (code === 8){ entity.layer = value; }
+            }
+            else if (block)
+            {
+                // BLOCK definition itself
+                if (code === 2){ block.name = value; }
+                if (code === 10){ block.basePoint[0] = parseFloat(value); }
+                if (code === 20){ block.basePoint[1] = parseFloat(value); }
+                if (code === 30){ block.basePoint[2] = parseFloat(value); }
+            }
+            else if (section === 'HEADER')
+            {
+                if (code === 9){ headerVariable = value; }
+                if (headerVariable === '$INSUNITS' && code === 70){ this.units = DXF_INSUNITS_TO_MODEL_UNITS[parseInt(value)] || null; }
+            }
+        }
+
+        return this;
+    }
+
+    /** Convert the parsed entities to Edges and Wires, grouped by layer
+     *  @param units Scale from the units of the DXF file to these units (if both are known)
+     */
+    toShapes(units?:ModelUnits):ShapeCollection
+    {
+        let matrix = DXF_IDENTITY;
+        if (units && this.units && MODEL_UNITS_TO_MM[units] && this.units !== units)
+        {
+            const scale = MODEL_UNITS_TO_MM[this.units] / MODEL_UNITS_TO_MM[units];
+            matrix = [scale,0,0,0, 0,scale,0,0, 0,0,scale,0];
+        }
+
+        this.skipped = {};
+        let layerEdges:{[layer:string]:Array<Edge>} = {};
+        this._addEntities(this.entities, matrix, null, layerEdges, 0);
+
+        Object.entries(this.skipped).forEach(([type, count]) =>
+        {
+            console.warn(`DXFParser::toShapes: Skipped ${count} unsupported ${type} entities`);
+        });
+
+        // join connected Edges into Wires per layer
+        let shapes = new ShapeCollection();
+        Object.entries(layerEdges).forEach(([layer, edges]) =>
+        {
+            shapes.addGroup(layer, new ShapeCollection(edges)._connectLinearShapes());
+        });
+
+        return shapes;
+    }
+
+    _addEntities(entities:Array<DXFEntity>, matrix:DXFMatrix, insertLayer:string, layerEdges:{[layer:string]:Array<Edge>}, depth:number)
+    {
+        entities.forEach( entity =>
+        {
+            // entities on layer 0 in blocks get the layer of the INSERT
+            const layer = (entity.layer === '0' && insertLayer) ? insertLayer : entity.layer;
+            const entityMatrix = this._multiplyMatrices(matrix, this._getOCSMatrix(entity));
+
+            if (entity.type === 'INSERT')
+            {
+                const block = this.blocks[this._getValue(entity, 2)];
+                if (!block)
+                {
+                    console.warn(`DXFParser::_addEntities: Skipped INSERT of unknown block "${this._getValue(entity, 2)}"`);
+                }
+                else if (depth >= DXF_MAX_BLOCK_DEPTH)
+                {
+                    console.warn(`DXFParser::_addEntities: Skipped INSERT of block "${block.name}": blocks are nested too deep!`);
+                }
+                else {
+                    this._addEntities(block.entities, this._multiplyMatrices(entityMatrix, this._getInsertMatrix(entity, block)), layer, layerEdges, depth + 1);
+                }
+                return;
+            }
+
+            const ocEdges = this._entityToOcEdges(entity);
+            if (!ocEdges)
+            {
+                this.skipped[entity.type] = (this.skipped[entity.type] || 0) + 1;
+                return;
+            }
+
+            const isIdentity = entityMatrix.every( (v,i) => v === DXF_IDENTITY[i]);
+            layerEdges[layer] = (layerEdges[layer] || []).concat(ocEdges.map( ocEdge => 
+            {
+                const edge = new Edge()._fromOcEdge(ocEdge);
+                return (isIdentity) ? edge : edge._transformedByMatrix(entityMatrix) as Edge;
+            }));
+        });
+    }
+
+    /** Make OC Edges from entity. Returns null if entity is not supported */
+    _entityToOcEdges(entity:DXFEntity):Array<any>
+    {
+        const oc = this._oc;
+
+        switch(entity.type)
+        {
+            case 'LINE':
+            {
+                const [start, end] = [this._getPoint(entity, 10), this._getPoint(entity, 11)];
+                return (this._distance(start, end) > 0) ? [new oc.BRepBuilderAPI_MakeEdge_3(this._toOcPoint(start), this._toOcPoint(end)).Edge()] : [];
+            }
+            case 'CIRCLE':
+            {
+                return [new oc.BRepBuilderAPI_MakeEdge_8(this._makeOcCircle(entity)).Edge()];
+            }
+            case 'ARC':
+            {
+                // angles are counter-clockwise in degrees
+                let [startAngle, endAngle] = [parseFloat(this._getValue(entity, 50, '0')), parseFloat(this._getValue(entity, 51, '360'))].map( a => a * Math.PI / 180);
+                endAngle = (endAngle <= startAngle) ? endAngle + 2 * Math.PI : endAngle;
+                return [new oc.BRepBuilderAPI_MakeEdge_9(this._makeOcCircle(entity), startAngle, endAngle).Edge()];
+            }
+            case 'ELLIPSE':
+            {
+                const center = this._getPoint(entity, 10);
+                const majorAxis = this._getPoint(entity, 11); // relative to center
+                const normal = this._getPoint(entity, 210, [0,0,1]);
+                const majorRadius = this._distance([0,0,0], majorAxis);
+                const startParam = parseFloat(this._getValue(entity, 41, '0'));
+                let endParam = parseFloat(this._getValue(entity, 42, `${2 * Math.PI}`));
+                endParam = (endParam <= startParam) ? endParam + 2 * Math.PI : endParam;
+
+                const ocAxis = new oc.gp_Ax2_2(this._toOcPoint(center), new oc.gp_Dir_4(normal[0], normal[1], normal[2]), new oc.gp_Dir_4(majorAxis[0], majorAxis[1], majorAxis[2]));
+                const ocEllipse = new oc.gp_Elips_2(ocAxis, majorRadius, majorRadius * parseFloat(this._getValue(entity, 40, '1')));
+                return [new oc.BRepBuilderAPI_MakeEdge_13(ocEllipse, startParam, endParam).Edge()];
+            }
+            case 'LWPOLYLINE':
+            {
+                return this._polylineToOcEdges(entity);
+            }
+            case 'SPLINE':
+            {
+                const ocEdge = this._splineToOcEdge(entity);
+                return (ocEdge) ? [ocEdge] : [];
+            }
+            default:
+                return null;
+        }
+    }
+
+    /** Straight segments and arcs (with bulge) of a LWPOLYLINE */
+    _polylineToOcEdges(entity:DXFEntity):Array<any>
+    {
+        const oc = this._oc;
+        const elevation = parseFloat(this._getValue(entity, 38, '0'));
+        const closed = (parseInt(this._getValue(entity, 70, '0')) & 1) === 1;
+
+        // every vertex starts with group 10 and can have a bulge (42) for the segment after it
+        let vertices:Array<{ point:Array<number>, bulge:number }> = [];
+        entity.groups.forEach( ([code, value]) =>
+        {
+            if (code === 10){ vertices.push({ point: [parseFloat(value), 0, elevation], bulge: 0 }); }
+            else if (code === 20 && vertices.length){ vertices[vertices.length-1].point[1] = parseFloat(value); }
+            else if (code === 42 && vertices.length){ vertices[vertices.length-1].bulge = parseFloat(value); }
+        });
+
+        let ocEdges = [];
+        const numSegments = (closed) ? vertices.length : vertices.length - 1;
+        for (let i = 0; i < numSegments; i++)
+        {
+            const { point: start, bulge } = vertices[i];
+            const end = vertices[(i + 1) % vertices.length].point;
+            const chord = this._distance(start, end);
+
+            if (chord === 0)
+            {
+                continue;
+            }
+            if (bulge === 0)
+            {
+                ocEdges.push(new oc.BRepBuilderAPI_MakeEdge_3(this._toOcPoint(start), this._toOcPoint(end)).Edge());
+            }
+            else {
+                // bulge is tan(angle/4): positive is counter-clockwise. Its mid point lies to the right of the chord direction
+                const sagitta = bulge * chord / 2;
+                const [dx,dy] = [(end[0] - start[0]) / chord, (end[1] - start[1]) / chord];
+                const mid = [(start[0] + end[0]) / 2 + dy * sagitta, (start[1] + end[1]) / 2 - dx * sagitta, elevation];
+                const ocArcHandle = new oc.GC_MakeArcOfCircle_4(this._toOcPoint(start), this._toOcPoint(mid), this._toOcPoint(end)).Value();
+                ocEdges.push(new oc.BRepBuilderAPI_MakeEdge_24(new oc.Handle_Geom_Curve_2(ocArcHandle.get())).Edge());
+            }
+        }
+
+        return ocEdges;
+    }
+
+    /** SPLINE from control points, knots and weights. Or through fit points when there are no control points */
+    _splineToOcEdge(entity:DXFEntity):any
+    {
+        const oc = this._oc;
+
+        const degree = parseInt(this._getValue(entity, 71, '3'));
+        const controlPoints = this._getPoints(entity, 10);
+        const fitPoints = this._getPoints(entity, 11);
+        const knots = this._getValues(entity, 40).map( v => parseFloat(v));
+        const weights = this._getValues(entity, 41).map( v => parseFloat(v));
+
+        if (controlPoints.length <= degree || knots.length !== controlPoints.length + degree + 1)
+        {
+            if (fitPoints.length >= 2)
+            {
+                return new Edge().makeSpline(fitPoints)._ocShape;
+            }
+            console.warn(`DXFParser::_splineToOcEdge: Skipped invalid SPLINE with ${controlPoints.length} control points and ${knots.length} knots`);
+            return null;
+        }
+
+        // OC needs distinct knots with their multiplicities
+        let distinctKnots:Array<number> = [];
+        let multiplicities:Array<number> = [];
+        knots.forEach( knot =>
+        {
+            if (distinctKnots.length && Math.abs(knot - distinctKnots[distinctKnots.length-1]) < 1e-10)
+            {
+                multiplicities[multiplicities.length-1]++;
+            }
+            else {
+                distinctKnots.push(knot);
+                multiplicities.push(1);
+            }
+        });
+
+        let ocPoles = new oc.TColgp_Array1OfPnt_2(1, controlPoints.length);
+        controlPoints.forEach( (p,i) => ocPoles.SetValue(i+1, this._toOcPoint(p)));
+        let ocKnots = new oc.TColStd_Array1OfReal_2(1, distinctKnots.length);
+        distinctKnots.forEach( (k,i) => ocKnots.SetValue(i+1, k));
+        let ocMultiplicities = new oc.TColStd_Array1OfInteger_2(1, multiplicities.length);
+        multiplicities.forEach( (m,i) => ocMultiplicities.SetValue(i+1, m));
+
+        let ocCurve;
+        if (weights.length === controlPoints.length)
+        {
+            let ocWeights = new oc.TColStd_Array1OfReal_2(1, weights.length);
+            weights.forEach( (w,i) => ocWeights.SetValue(i+1, w));
+            ocCurve = new oc.Geom_BSplineCurve_2(ocPoles, ocWeights, ocKnots, ocMultiplicities, degree, false, true);
+        }
+        else {
+            ocCurve = new oc.Geom_BSplineCurve_1(ocPoles, ocKnots, ocMultiplicities, degree, false);
+        }
+
+        return new oc.BRepBuilderAPI_MakeEdge_24(new oc.Handle_Geom_Curve_2(ocCurve)).Edge();
+    }
+
+    _makeOcCircle(entity:DXFEntity):any
+    {
+        const oc = this._oc;
+        const ocAxis = new oc.gp_Ax2_2(this._toOcPoint(this._getPoint(entity, 10)), new oc.gp_Dir_4(0,0,1), new oc.gp_Dir_4(1,0,0)); // in OCS
+        return new oc.gp_Circ_2(ocAxis, parseFloat(this._getValue(entity, 40, '0')));
+    }
+
+    //// TRANSFORMATIONS ////
+
+    /** Get the transformation from the OCS of the entity to world coordinates (Arbitrary Axis Algorithm) */
+    _getOCSMatrix(entity:DXFEntity):DXFMatrix
+    {
+        if (!DXF_OCS_ENTITIES.includes(entity.type))
+        {
+            return DXF_IDENTITY;
+        }
+
+        const normal = this._normalize(this._getPoint(entity, 210, [0,0,1]));
+        if (Math.abs(normal[0]) < 1e-10 && Math.abs(normal[1]) < 1e-10 && normal[2] > 0)
+        {
+            return DXF_IDENTITY;
+        }
+
+        const axisX = this._normalize((Math.abs(normal[0]) < 1/64 && Math.abs(normal[1]) < 1/64) ?
+                            this._cross([0,1,0], normal) : this._cross([0,0,1], normal));
+        const axisY = this._normalize(this._cross(normal, axisX));
+
+        return [axisX[0], axisY[0], normal[0], 0,
+                axisX[1], axisY[1], normal[1], 0,
+                axisX[2], axisY[2], normal[2], 0];
+    }
+
+    /** Get transformation of INSERT: T(insertion point) * R(rotation) * S(scale) * T(-base point) */
+    _getInsertMatrix(entity:DXFEntity, block:DXFBlock):DXFMatrix
+    {
+        const insertion = this._getPoint(entity, 10);
+        const [sx, sy, sz] = [41,42,43].map( code => parseFloat(this._getValue(entity, code, '1')));
+        const angle = parseFloat(this._getValue(entity, 50, '0')) * Math.PI / 180;
+        const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+        const base = block.basePoint;
+
+        const rotateScale = [cos * sx, -sin * sy, 0, 0,
+                             sin * sx, cos * sy, 0, 0,
+                             0, 0, sz, 0];
+        const moveBase = [1,0,0,-base[0], 0,1,0,-base[1], 0,0,1,-base[2]];
+        let matrix = this._multiplyMatrices(rotateScale, moveBase);
+        [3,7,11].forEach( (i,axis) => matrix[i] += insertion[axis]);
+
+        return matrix;
+    }
+
+    _multiplyMatrices(a:DXFMatrix, b:DXFMatrix):DXFMatrix
+    {
+        let m = [];
+        for (let r = 0; r < 3; r++)
+        {
+            for (let c = 0; c < 4; c++)
+            {
+                m.push(a[r*4] * b[c] + a[r*4+1] * b[4+c] + a[r*4+2] * b[8+c] + ((c === 3) ? a[r*4+3] : 0));
+            }
+        }
+        return m;
+    }
+
+    //// UTILS ////
+
+    _getValue(entity:DXFEntity, code:number, defaultValue:string=null):string
+    {
+        const group = entity.groups.find( ([c,v]) => c === code);
+        return (group) ? group[1] : defaultValue;
+    }
+
+    _getValues(entity:DXFEntity, code:number):Array<string>
+    {
+        return entity.groups.filter( ([c,v]) => c === code).map( ([c,v]) => v);
+    }
+
+    /** Get point with x, y and z in groups code, code + 10 and code + 20 */
+    _getPoint(entity:DXFEntity, code:number, defaultPoint:Array<number>=[0,0,0]):Array<number>
+    {
+        return [0,1,2].map( axis => parseFloat(this._getValue(entity, code + axis * 10, `${defaultPoint[axis]}`)));
+    }
+
+    /** Get list of points: every point starts with the group of x */
+    _getPoints(entity:DXFEntity, code:number):Array<Array<number>>
+    {
+        let points = [];
+        entity.groups.forEach( ([c, value]) =>
+        {
+            if (c === code){ points.push([parseFloat(value), 0, 0]); }
+            else if (c === code + 10 && points.length){ points[points.length-1][1] = parseFloat(value); }
+            else if (c === code + 20 && points.length){ points[points.length-1][2] = parseFloat(value); }
+        });
+        return points;
+    }
+
+    _toOcPoint(p:Array<number>):any
+    {
+        return new this._oc.gp_Pnt_3(p[0], p[1], p[2]);
+    }
+
+    _distance(a:Array<number>, b:Array<number>):number
+    {
+        return Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+    }
+
+    _cross(a:Array<number>, b:Array<number>):Array<number>
+    {
+        return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+    }
+
+    _normalize(v:Array<number>):Array<number>
+    {
+        const length = Math.hypot(...v);
+        return v.map( c => c / length);
+    }
+}
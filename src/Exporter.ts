@@ -1,6 +1,21 @@
-import { MeshingQualitySettings, MeshShape } from './internal'
+import { MeshingQualitySettings, MeshShape, Obj, Shape, Edge, AnyShape, ShapeCollection, ObjStyle, BaseStyle } from './internal'
+import { ExportFormat, ExporterOutput, ExportFileSet, ExportOptions, ModelUnits } from './internal'
+import { isNumeric, MESH_QUALITY_PRESETS, MODEL_UNITS_TO_MM } from './internal'
 import { MESHING_MAX_DEVIATION, MESHING_ANGULAR_DEFLECTION, MESHING_MINIMUM_POINTS, MESHING_TOLERANCE, MESHING_EDGE_MIN_LENGTH } from './internal';
 import { GLTFBuilder } from './GLTFBuilder';
+import { DXFBuilder, DXFLayer } from './DXFBuilder';
+import { ThreeMFBuilder } from './ThreeMFBuilder';
+import { OBJBuilder } from './OBJBuilder';
+import SparkMD5 from 'spark-md5'
+
+/** Node in the hierarchy of exported Objs: either a group (layer) with children or a part with Shapes */
+interface ExportNode
+{
+    name:string,
+    obj:Obj, // for styles. Can be null for Shapes that are not in the scene
+    shapes?:ShapeCollection,
+    children?:Array<ExportNode>,
+}
 
 // avoid TS errors by extending global
 declare global {
@@ -36,54 +51,152 @@ export class Exporter
     //// END SETTINGS ////
 
     _parent = null; 
+    _output:ExporterOutput = null; // where exportToOutput() writes files to. The *Window methods use the browser instead
+    _scriptName:string = null;
+    _paramValues:{[key:string]:any} = null;
 
-    constructor(parent:any) 
+    constructor(parent:any, output?:ExporterOutput) 
     {
         this._parent = parent; // Either reference to WebWorker or Main.vue
+        this._output = output || null;
+    }
+
+    /** Set the output that exportToOutput() writes to (see ExporterOutputs.ts) */
+    setOutput(output:ExporterOutput):Exporter
+    {
+        this._output = output;
+        return this;
     }
 
-    exportToStep():string
+    /** Set script name and values of its params, used to name the exported files */
+    setScript(name:string, paramValues?:{[key:string]:any}):Exporter
     {
-        // Taken from: https://github.com/zalo/CascadeStudio/blob/1a0f44b4d7617cc9dfc1dd6833945e04e2dfc1c9/js/CADWorker/CascadeStudioFileUtils.js
+        this._scriptName = name;
+        this._paramValues = paramValues || null;
+        return this;
+    }
+
+    /** Export Scene (or the target in options) in given format and write it to the output. Returns the location of the written file */
+    async exportToOutput(format:ExportFormat, output?:ExporterOutput, options?:ExportOptions):Promise<string>
+    {
+        const FORMAT_TO_EXPORT = {
+            step : { mime: 'text/plain', export: () => this.exportToStep(options) },
+            stl : { mime: 'application/octet-stream', export: () => this.exportToStl(options) },
+            gltf : { mime: 'model/gltf+json', export: () => this.exportToGLTF(null, false, !!this._parent?.ay, options) },
+            glb : { mime: 'model/gltf-binary', export: () => this.exportToGLTF(null, true, !!this._parent?.ay, options) },
+            svg : { mime: 'image/svg+xml', export: () => this.exportToSVG(options) },
+            dxf : { mime: 'application/dxf', export: () => this.exportToDXF(options) },
+            '3mf' : { mime: 'model/3mf', export: () => this.exportTo3MF(null, options) },
+            obj : { mime: 'text/plain', export: () => this.exportToOBJ(null, options) },
+            brep : { mime: 'text/plain', export: () => this.exportToBREP(options) },
+        }
+
+        const exportOutput = output || this._output;
+        if (!exportOutput)
+        {
+            throw new Error(`Exporter::exportToOutput: No output set. Use setOutput() or supply one!`);
+        }
+
+        const formatExport = FORMAT_TO_EXPORT[format];
+        if (!formatExport)
+        {
+            throw new Error(`Exporter::exportToOutput: Unknown format "${format}". Use any of these: "${Object.keys(FORMAT_TO_EXPORT).join('", "')}"`);
+        }
+
+        const content = formatExport.export();
+        if (content === null || content === undefined)
+        {
+            throw new Error(`Exporter::exportToOutput: Export to ${format} failed!`);
+        }
 
+        // formats with multiple files (like OBJ) return a file set with their own names
+        if (typeof content === 'object' && !(content instanceof ArrayBuffer))
+        {
+            let locations = [];
+            for (const [filename, fileContent] of Object.entries(content as ExportFileSet))
+            {
+                locations.push(await exportOutput.write(filename, fileContent, formatExport.mime));
+            }
+            return locations[0]; // main file
+        }
+
+        return await exportOutput.write(`${this._getFileName()}.${format}`, content, formatExport.mime);
+    }
+
+    /** Export Scene to STEP as a structured assembly 
+     *  Objs become named products, layers sub-assemblies and ObjStyle colors are kept (see _toXCAFDocument)
+     *  NOTE: the current OC build has no STEPCAFControl_Writer: then all Shapes are written without structure
+     */
+    exportToStep(options?:ExportOptions):string
+    {
         /* OC docs:
-            - https://dev.opencascade.org/doc/refman/html/class_s_t_e_p_control___writer.html
+            - https://dev.opencascade.org/doc/refman/html/class_s_t_e_p_c_a_f_control___writer.html
             - Output modes: https://dev.opencascade.org/doc/refman/html/_s_t_e_p_control___step_model_type_8hxx.html#a032affe8dae498d429a83225f8c5da4e
         */
 
+        const oc = this._parent.geom._oc;
         const filename = this._getFileName() + '.step';
-        let sceneCompoundShape = this._parent.geom.all().filter(s => s.visible()).toOcCompound();
 
-        console.info(`Exporter::exportToStep: Output of ${sceneCompoundShape.NbChildren()} Shapes`);
+        if (oc.STEPCAFControl_Writer_1 === undefined)
+        {
+            console.warn(`Exporter::exportToStep: OpenCascade build has no STEPCAFControl_Writer. Exported Shapes without names, colors and assemblies!`);
+            return this._exportToPlainStep(filename, options);
+        }
 
-        const oc = this._parent.geom._oc;
+        const docHandle = this._toXCAFDocument(options); // no meshing needed
         
+        let ocWriter = new oc.STEPCAFControl_Writer_1();
+        ocWriter.SetNameMode(true);
+        ocWriter.SetColorMode(true);
+        ocWriter.SetLayerMode(true);
+
+        // Write the STEP File to the virtual Emscripten Filesystem Temporarily
+        let writeResult = ocWriter.Perform_2(docHandle, filename, new oc.Message_ProgressRange_1());
+        if (writeResult)
+        {
+            // Read the STEP File from the filesystem and clean up
+            let stepFileText = oc.FS.readFile("/" + filename, { encoding:"utf8" });
+            oc.FS.unlink("/" + filename);
+
+            // Return the contents of the STEP File
+            return stepFileText;
+        }
+        else
+        {
+            console.error("Exporter::exportToStep: File Export to STEP failed");
+        }
+    }
+
+    /** Export all Shapes as one compound with STEPControl_Writer (available in all builds of archiyou-opencascade) */
+    _exportToPlainStep(filename:string, options?:ExportOptions):string
+    {
+        // OC docs: https://dev.opencascade.org/doc/refman/html/class_s_t_e_p_control___writer.html
+        const oc = this._parent.geom._oc;
+        const sceneCompoundShape = this._getExportShapes(options).toOcCompound();
+
         let ocWriter = new oc.STEPControl_Writer_1();
         let ocTransferResult = ocWriter.Transfer(sceneCompoundShape, 0, true, new oc.Message_ProgressRange_1()); 
-        ocTransferResult = ocTransferResult.value; // return a struct: use value() to get real value
-        if (ocTransferResult === 1)
+        if (ocTransferResult.value === 1) // return a struct: use value to get real value
         {
             // Write the STEP File to the virtual Emscripten Filesystem Temporarily
             let writeResult = ocWriter.Write(filename);
-            writeResult = writeResult.value;
-            if (writeResult === 1)
+            if (writeResult.value === 1)
             {
                 // Read the STEP File from the filesystem and clean up
                 let stepFileText = oc.FS.readFile("/" + filename, { encoding:"utf8" });
                 oc.FS.unlink("/" + filename);
-
-                // Return the contents of the STEP File
                 return stepFileText;
             }
             else
             {
-                console.error("Exporter::exportToStep: File Export Transfer to STEP failed");
+                console.error("Exporter::exportToStep: File Export to STEP failed");
             }
         }
         else 
         {
-            console.error("Exporter::exportToStep: File Export to STEP failed");
+            console.error("Exporter::exportToStep: File Export Transfer to STEP failed");
         }
+        return null;
     }
 
     async exportToStepWindow(content:string)
@@ -96,7 +209,7 @@ export class Exporter
         });
     }
 
-    exportToStl():ArrayBuffer
+    exportToStl(options?:ExportOptions):ArrayBuffer
     {
         // !!!! TODO: is seperate triangulation needed? !!!!
         /* See OC docs: 
@@ -106,9 +219,9 @@ export class Exporter
         const oc = this._parent.geom._oc;
         const filename = this._getFileName() + '.stl';
         
-        let sceneCompoundShape = this._parent.geom.all().filter(s => s.visible()).toOcCompound();
+        let sceneCompoundShape = this._getExportShapes(options).toOcCompound();
 
-        console.info(`Exporter::exportToStep: Output of ${sceneCompoundShape.NbChildren()} Shapes`);
+        console.info(`Exporter::exportToStl: Output of ${sceneCompoundShape.NbChildren()} Shapes`);
         let ocStlWriter = new oc.StlAPI_Writer();
         ocStlWriter.ASCIIMode = false; // binary
         let result = ocStlWriter.Write(sceneCompoundShape, filename, new oc.Message_ProgressRange_1()); // Shape, stream content, ASCI or not
@@ -136,41 +249,78 @@ export class Exporter
         });
     }
 
+    /** Export Scene to native OpenCascade BREP: a lossless format with the exact geometry 
+     *  Use IO to load it back into Shapes (for example to cache results between script runs)
+     *  NOTE: there is no scene structure: all Shapes are written as one compound
+     */
+    exportToBREP(options?:ExportOptions):string
+    {
+        /* OC docs:
+            - https://dev.opencascade.org/doc/refman/html/class_b_rep_tools.html
+        */
+
+        const oc = this._parent.geom._oc;
+        const filename = this._getFileName() + '.brep';
+
+        let sceneCompoundShape = this._getExportShapes(options).toOcCompound();
+
+        console.info(`Exporter::exportToBREP: Output of ${sceneCompoundShape.NbChildren()} Shapes`);
+        let result = oc.BRepTools.Write_3(sceneCompoundShape, filename, new oc.Message_ProgressRange_1());
+
+        if (!result)
+        {
+            console.error(`Exporter::exportToBREP: Error exporting to BREP. Try again, or another format!`);
+            return null;
+        }
+        else {
+            let brepFileText = oc.FS.readFile("/" + filename, { encoding:"utf8" });
+            oc.FS.unlink("/" + filename);
+            return brepFileText;
+        }
+    }
+
+    async exportToBREPWindow(content:string)
+    {
+        let brepContent = content || this.exportToBREP();
+        const fileHandle = await this.getNewFileHandle("BREP files", "text/plain", "brep");
+        this.writeFile(fileHandle, brepContent).then(() => 
+        {
+          console.info("Saved BREP to " + fileHandle.name);
+        });
+    }
+
     /** Export Scene to GLTF 
-        TODO: Open Cascade is not exporting geometry buffers in text-based GLTF (probably because it assumes a external .bin file) - check how we can include it
+        Every Obj becomes a seperate GLTF node named after the Obj, with layers as parent nodes. 
+        Materials are made from the color and opacity in the ObjStyle (see _toXCAFDocument)
+        NOTE: names and materials need XCAF bindings that the current OC build lacks (see _hasXCAFAttributeBindings)
+        Text-based GLTF (binary=false) is self-contained: geometry buffers are embedded as base64 data uris
         OC docs: https://dev.opencascade.org/doc/refman/html/class_r_w_gltf___caf_writer.htm
     */
-    exportToGLTF(quality?:MeshingQualitySettings, binary:boolean=true, archiyouFormat:boolean=true):ArrayBuffer|string
+    exportToGLTF(quality?:MeshingQualitySettings, binary:boolean=true, archiyouFormat:boolean=true, options?:ExportOptions):ArrayBuffer|string
     {
         const oc = this._parent.geom._oc;
         
-        const meshingQuality = quality || this._parent?.meshingQuality || this.DEFAULT_MESH_QUALITY;
+        const meshingQuality = quality || this._getMeshingQuality(options);
         const filename = `file.${(binary) ? 'glb' : 'gltf'}`
 
-        let sceneCompoundShape = this._parent.geom.all().filter(s => s.visible()).toOcCompound();
-        
-        // Taken from: https://github.com/donalffons/opencascade.js/blob/master/starter-templates/ocjs-create-nuxt-app/components/shapeToUrl.js
-        const docHandle = new oc.Handle_TDocStd_Document_2(new oc.TDocStd_Document(new oc.TCollection_ExtendedString_1()));
-        
-        // TODO: We want to export all shapes (at least on root level) as seperate nodes in GLTF
-        const shapeTool = oc.XCAFDoc_DocumentTool.prototype.constructor.ShapeTool(docHandle.get().Main()).get();
-        shapeTool.SetShape(shapeTool.NewShape(), sceneCompoundShape);
-
-        // Triangulate as one mesh (TODO: export as seperate Shapes)
-        new oc.BRepMesh_IncrementalMesh_2(sceneCompoundShape, meshingQuality.linearDeflection, false, meshingQuality.angularDeflection, false);
-
-        // TODO: transform to GLTF coord system
+        // Scene structure with triangulated Shapes
+        // NOTE: use options.upAxis = 'y' to convert to the GLTF coordinate system
+        const docHandle = this._toXCAFDocument(options, meshingQuality);
 
-        // Export a GLTF file (this will also perform the meshing)
-        // IMPORTANT: currently OC does not export embedded geometry buffer with text/json based GLTF - TODO: add manually
+        // Export a GLTF file
+        // NOTE: for text-based GLTF OC writes the geometry to a seperate .bin file with the same name
         const cafWriter = new oc.RWGltf_CafWriter(new oc.TCollection_AsciiString_2(filename), binary);
         cafWriter.Perform_2(docHandle, new oc.TColStd_IndexedDataMapOfStringString_1(), new oc.Message_ProgressRange_1());
-        // TODO: We might need to pick up the seperate bin file for text-based GLTF
 
         const gltfFile = oc.FS.readFile(`./${filename}`, { encoding: (binary) ? 'binary' : 'utf8' });
         oc.FS.unlink("./" + filename);
         
         let gltfContent =  (binary) ? gltfFile.buffer : gltfFile;
+
+        if(!binary)
+        {
+            gltfContent = this._embedGLTFBuffers(gltfContent);
+        }
         
         if(archiyouFormat)
         {
@@ -178,7 +328,32 @@ export class Exporter
             gltfContent = new GLTFBuilder().addArchiyouData(gltfContent, this._parent.ay); 
         }
         
-        return gltfContent; // NOTE: text-based has no embedded buffers (so is empty)
+        return gltfContent;
+    }
+
+    /** Pick up the external .bin files of text-based GLTF from the Emscripten filesystem and embed them as data uris */
+    _embedGLTFBuffers(gltfContent:string):string
+    {
+        const oc = this._parent.geom._oc;
+
+        let buffers:{[uri:string]:Uint8Array} = {};
+        (JSON.parse(gltfContent).buffers || []).forEach( buffer =>
+        {
+            if(buffer.uri && !buffer.uri.startsWith('data:') && !buffers[buffer.uri])
+            {
+                try 
+                {
+                    buffers[buffer.uri] = oc.FS.readFile(`./${buffer.uri}`, { encoding: 'binary' });
+                    oc.FS.unlink(`./${buffer.uri}`);
+                }
+                catch(e)
+                {
+                    console.error(`Exporter::_embedGLTFBuffers: Could not read buffer file "${buffer.uri}": ${e}`);
+                }
+            }
+        });
+
+        return new GLTFBuilder().embedBuffers(gltfContent, buffers);
     }
 
     /** Export GLTF (binary or text) to the browser window */
@@ -211,10 +386,10 @@ export class Exporter
         });
     }
 
-    exportToSVG():string
+    exportToSVG(options?:ExportOptions):string
     {
         // For now only export 2D edges on XY plane
-        let edges2DCollection = this._parent.geom.all().filter(s => s.visible() && s.type() === 'Edge' && s.is2DXY());
+        let edges2DCollection = this._getExportShapes(options).filter(s => s.type() === 'Edge' && s.is2DXY());
         return edges2DCollection.toSvg();
     }
 
@@ -227,9 +402,477 @@ export class Exporter
         });
     }
 
-    _getFileName()
+    /** Export Edges in the Scene to DXF
+     *  Obj layers become DXF layers. Edges that have the attributes set by projections (see Shape._project()) 
+     *  are placed on sub layers (for example 'walls-hidden') with their own linetype
+     */
+    exportToDXF(options?:ExportOptions):string
+    {
+        // NOTE: hidden wins over outline: hidden outlines are drawn as hidden lines
+        const ATTRIBUTE_TO_LAYER:{[key:string]:Partial<DXFLayer>} = {
+            hidden : { linetype: 'HIDDEN', lineweight: 18 },
+            outline : { linetype: 'CONTINUOUS', lineweight: 50 },
+            visible : { linetype: 'CONTINUOUS', lineweight: 25 },
+        }
+
+        const dxf = new DXFBuilder(this._getExportUnits(options));
+
+        let shapes = this._getExportShapes(options).filter(s => ['Edge', 'Wire'].includes(s.type()));
+        
+        console.info(`Exporter::exportToDXF: Output of ${shapes.length} Shapes`);
+
+        shapes.forEach( (shape:AnyShape) => 
+        {
+            const layerObj = this._getLayerObj(shape);
+            const baseLayerName = (layerObj) ? this._getLayerPath(layerObj) : '0';
+            const color = layerObj?.getColor() || shape?._obj?.getColor();
+
+            // use attributes of the scene Shape: Edges taken from a Wire don't carry them themselves
+            const attributes = shape.attributes;
+            const attribute = Object.keys(ATTRIBUTE_TO_LAYER).find( attr => attributes[attr]);
+
+            let layerName = baseLayerName;
+            if(attribute)
+            {
+                layerName = (baseLayerName === '0') ? attribute : `${baseLayerName}-${attribute}`;
+                dxf.addLayer({ name: layerName, color: color, ...ATTRIBUTE_TO_LAYER[attribute] });
+            }
+            else {
+                dxf.addLayer({ name: layerName, color: color });
+            }
+
+            const edges = (shape.type() === 'Edge') ? [shape as Edge] : shape.edges().toArray() as Array<Edge>;
+            edges.forEach( edge => dxf.addEdge(edge, layerName));
+        });
+
+        return dxf.toDXF();
+    }
+
+    async exportToDXFWindow(content:string)
+    {
+        let dxfContent = content || this.exportToDXF();
+        const fileHandle = await this.getNewFileHandle("DXF files", "application/dxf", "dxf");
+        this.writeFile(fileHandle, dxfContent).then(() => 
+        {
+          console.info("Saved DXF to " + fileHandle.name);
+        });
+    }
+
+    /** Export Scene to 3MF for (multi-color) 3D printing
+     *  Every visible Obj becomes a seperate 3MF object with the fill color of its ObjStyle
+     *  @param quality Meshing settings or one of the MESH_QUALITY_PRESETS ('low', 'medium', 'high')
+     */
+    exportTo3MF(quality?:MeshingQualitySettings|string, options?:ExportOptions):ArrayBuffer
+    {
+        const meshingQuality = this._getMeshingQuality({ ...options, quality: quality || options?.quality });
+        const builder = new ThreeMFBuilder(this._getExportUnits(options));
+
+        this._getExportParts(options).forEach( part => 
+        {
+            const faceShapes = part.shapes.filter(s => s.faces().length > 0);
+            if (faceShapes.length > 0)
+            {
+                const fillStyle = (part.obj) ? this._getObjBaseStyle(part.obj, 'fill') : null;
+                builder.addObject(part.name, faceShapes.toMeshShapes(meshingQuality), fillStyle?.color, fillStyle?.opacity);
+            }
+        });
+        
+        console.info(`Exporter::exportTo3MF: Output of ${builder.objects.length} objects`);
+
+        return builder.to3MF();
+    }
+
+    async exportTo3MFWindow(content:ArrayBuffer)
     {
-        return 'exportmodel'
+        const fileHandle = await this.getNewFileHandle("3MF files", "model/3mf", "3mf");
+        this.writeFile(fileHandle, content).then(() => 
+        {
+          console.info("Saved 3MF to " + fileHandle.name);
+        });
+    }
+
+    /** Export Scene to Wavefront OBJ with a MTL file for the materials
+     *  Every visible Obj becomes a OBJ group with vertex normals and a material from its ObjStyle
+     *  Returns a file set { 'exportmodel.obj' : '...', 'exportmodel.mtl' : '...' }
+     *  @param quality Meshing settings or one of the MESH_QUALITY_PRESETS ('low', 'medium', 'high')
+     */
+    exportToOBJ(quality?:MeshingQualitySettings|string, options?:ExportOptions):ExportFileSet
+    {
+        const meshingQuality = this._getMeshingQuality({ ...options, quality: quality || options?.quality });
+        const builder = new OBJBuilder(this._getFileName());
+
+        this._getExportParts(options).forEach( part => 
+        {
+            const faceShapes = part.shapes.filter(s => s.faces().length > 0);
+            if (faceShapes.length > 0)
+            {
+                const fillStyle = (part.obj) ? this._getObjBaseStyle(part.obj, 'fill') : null;
+                builder.addGroup(part.name, faceShapes.toMeshShapes(meshingQuality), fillStyle?.color, fillStyle?.opacity);
+            }
+        });
+
+        console.info(`Exporter::exportToOBJ: Output of ${builder.groups.length} groups`);
+
+        return builder.toFiles();
+    }
+
+    async exportToOBJWindow(content:ExportFileSet)
+    {
+        // NOTE: one save dialog per file
+        for (const [filename, fileContent] of Object.entries(content))
+        {
+            const ext = filename.split('.').pop();
+            const fileHandle = await this.getNewFileHandle(`${ext.toUpperCase()} files`, "text/plain", ext);
+            await this.writeFile(fileHandle, fileContent);
+            console.info(`Saved ${ext.toUpperCase()} to ${fileHandle.name}`);
+        }
+    }
+
+    //// EXPORT TARGETS AND OPTIONS ////
+
+    /** Get meshing settings from options (settings or preset name), the parent or the default */
+    _getMeshingQuality(options?:ExportOptions):MeshingQualitySettings
+    {
+        const quality = options?.quality;
+        if (typeof quality === 'string')
+        {
+            if (MESH_QUALITY_PRESETS[quality])
+            {
+                return MESH_QUALITY_PRESETS[quality];
+            }
+            console.warn(`Exporter::_getMeshingQuality: Unknown quality preset "${quality}". Use any of these: "${Object.keys(MESH_QUALITY_PRESETS).join('", "')}". Used default quality!`);
+        }
+        else if (quality)
+        {
+            return quality;
+        }
+        return this._parent?.meshingQuality || this.DEFAULT_MESH_QUALITY;
+    }
+
+    _getExportUnits(options?:ExportOptions):ModelUnits
+    {
+        return options?.units || this._parent.geom.units();
+    }
+
+    /** Get the OC transformation for units and coordinate system conversion. Returns null if not needed */
+    _getExportTransform(options?:ExportOptions):any
+    {
+        const oc = this._parent.geom._oc;
+
+        const modelUnits = this._parent.geom.units() || 'mm';
+        const exportUnits = this._getExportUnits(options) || modelUnits;
+        const scale = MODEL_UNITS_TO_MM[modelUnits] / MODEL_UNITS_TO_MM[exportUnits];
+        const toYUp = options?.upAxis === 'y';
+
+        if (!MODEL_UNITS_TO_MM[modelUnits] || !MODEL_UNITS_TO_MM[exportUnits])
+        {
+            throw new Error(`Exporter::_getExportTransform: Cannot convert units "${modelUnits}" to "${exportUnits}". Use any of these: "${Object.keys(MODEL_UNITS_TO_MM).join('", "')}"`);
+        }
+
+        if (scale === 1 && !toYUp)
+        {
+            return null;
+        }
+
+        let ocTransform = new oc.gp_Trsf_1();
+        if (toYUp)
+        {
+            // rotate -90 degrees around the x-axis: z becomes y
+            ocTransform.SetRotation_1(new oc.gp_Ax1_2(new oc.gp_Pnt_3(0,0,0), new oc.gp_Dir_4(1,0,0)), -Math.PI/2);
+        }
+        if (scale !== 1)
+        {
+            let ocScaleTransform = new oc.gp_Trsf_1();
+            ocScaleTransform.SetScale(new oc.gp_Pnt_3(0,0,0), scale);
+            ocTransform.Multiply(ocScaleTransform);
+        }
+
+        return ocTransform;
+    }
+
+    /** Get copies of Shapes transformed for export. Attributes and Obj (for layers and styles) are kept */
+    _transformForExport(shapes:ShapeCollection, ocTransform:any):ShapeCollection
+    {
+        if (!ocTransform)
+        {
+            return shapes;
+        }
+
+        const oc = this._parent.geom._oc;
+        return new ShapeCollection(shapes.toArray().map( shape => 
+        {
+            const ocBuilder = new oc.BRepBuilderAPI_Transform_2(shape._ocShape, ocTransform, true);
+            const transformedShape = new Shape()._fromOcShape(ocBuilder.Shape()) as AnyShape;
+            transformedShape.attributes = { ...shape.attributes };
+            transformedShape._obj = shape._obj; // NOTE: not added to that Obj
+            return transformedShape;
+        }));
+    }
+
+    /** Get the visible Shapes of the target in options (default: whole scene) transformed for export */
+    _getExportShapes(options?:ExportOptions):ShapeCollection
+    {
+        const target = options?.target;
+        let shapes:ShapeCollection;
+
+        if (!target)
+        {
+            shapes = this._parent.geom.all();
+        }
+        else if (target instanceof ShapeCollection)
+        {
+            shapes = target;
+        }
+        else {
+            shapes = new ShapeCollection(this._getTargetObj(target).allShapes());
+        }
+        
+        return this._transformForExport(shapes.filter(s => s.visible()), this._getExportTransform(options));
+    }
+
+    /** Get hierarchy of the target in options (default: whole scene) to export. Shapes are transformed for export */
+    _getExportNodes(options?:ExportOptions):Array<ExportNode>
+    {
+        const target = options?.target;
+        const ocTransform = this._getExportTransform(options);
+
+        // Shapes not (or not all) in the scene: one part per Obj or Shape
+        if (target instanceof ShapeCollection)
+        {
+            let objToShapes = new Map<Obj|AnyShape, Array<AnyShape>>();
+            target.filter(s => s.visible()).forEach( s => 
+            {
+                const key = s._obj || s;
+                objToShapes.set(key, (objToShapes.get(key) || []).concat([s]));
+            });
+
+            return Array.from(objToShapes.entries()).map( ([key, shapes], i) => 
+            {
+                const obj = (key instanceof Obj) ? key : null;
+                return { 
+                    name: (obj?.name() as string) || `shape${i}`, 
+                    obj: obj, 
+                    shapes: this._transformForExport(new ShapeCollection(shapes), ocTransform) 
+                };
+            });
+        }
+
+        const objToNode = (obj:Obj, defaultName:string):ExportNode =>
+        {
+            const name = (obj.name() as string) || defaultName;
+            if (obj.isLayer())
+            {
+                return { name: name, obj: obj, children: obj.children().map( (child,i) => objToNode(child, `${name}-obj${i}`)).filter(n => n) };
+            }
+            const visibleShapes = obj.shapes().filter(s => s.visible());
+            return (visibleShapes.length > 0) ? { name: name, obj: obj, shapes: this._transformForExport(visibleShapes, ocTransform) } : null;
+        }
+
+        const rootObjs = (target) ? [this._getTargetObj(target)] : this._parent.geom.scene.children();
+        return rootObjs.map( (obj,i) => objToNode(obj, `obj${i}`)).filter(n => n);
+    }
+
+    /** Get the parts (nodes with Shapes) of export hierarchy */
+    _getExportParts(options?:ExportOptions):Array<ExportNode>
+    {
+        const flatten = (nodes:Array<ExportNode>):Array<ExportNode> => nodes.reduce((parts, node) => 
+                            parts.concat((node.children) ? flatten(node.children) : [node]), []);
+        return flatten(this._getExportNodes(options));
+    }
+
+    /** Get Obj of target: either a Obj or the name of a layer */
+    _getTargetObj(target:Obj|string):Obj
+    {
+        if (target instanceof Obj)
+        {
+            return target;
+        }
+
+        const layer = this._parent.geom.getLayer(target);
+        if (!layer)
+        {
+            throw new Error(`Exporter::_getTargetObj: Could not find layer "${target}". Available layers: "${this._parent.geom.getLayerNames().join('", "')}"`);
+        }
+        return layer;
+    }
+
+    //// XCAF DOCUMENT ////
+
+    /** Build a XCAF document from the scene graph (or the target in options)
+     *  Layers become assemblies, other Objs become (named) parts with the ObjStyle colors
+     *  If meshingQuality is given the Shapes are also triangulated (needed for mesh based formats)
+     *  OC docs: 
+     *      - https://dev.opencascade.org/doc/refman/html/class_x_c_a_f_doc___shape_tool.html
+     *      - https://dev.opencascade.org/doc/refman/html/class_x_c_a_f_doc___color_tool.html
+     */
+    _toXCAFDocument(options?:ExportOptions, meshingQuality?:MeshingQualitySettings):any
+    {
+        const oc = this._parent.geom._oc;
+
+        // Taken from: https://github.com/donalffons/opencascade.js/blob/master/starter-templates/ocjs-create-nuxt-app/components/shapeToUrl.js
+        const docHandle = new oc.Handle_TDocStd_Document_2(new oc.TDocStd_Document(new oc.TCollection_ExtendedString_1()));
+        const shapeTool = oc.XCAFDoc_DocumentTool.prototype.constructor.ShapeTool(docHandle.get().Main()).get();
+
+        // current build of archiyou-opencascade: the structure is the same, but without names and colors
+        let colorTool = null;
+        if (this._hasXCAFAttributeBindings())
+        {
+            colorTool = oc.XCAFDoc_DocumentTool.prototype.constructor.ColorTool(docHandle.get().Main()).get();
+        }
+        else {
+            console.warn(`Exporter::_toXCAFDocument: OpenCascade build has no bindings for XCAF names and colors. Exported Objs without them!`);
+        }
+
+        const sceneLabel = shapeTool.NewShape(); // becomes an assembly when components are added
+        this._setXCAFName(sceneLabel, 'scene');
+
+        let numParts = 0;
+        this._getExportNodes(options).forEach( node => 
+        {
+            numParts += this._addNodeToXCAF(node, sceneLabel, shapeTool, colorTool, meshingQuality);
+        });
+        shapeTool.UpdateAssemblies();
+
+        console.info(`Exporter::_toXCAFDocument: Output of ${numParts} Objs`);
+
+        return docHandle;
+    }
+
+    /** Add node (and its children) as component of parent assembly label. Returns the number of parts added */
+    _addNodeToXCAF(node:ExportNode, parentLabel:any, shapeTool:any, colorTool:any, meshingQuality?:MeshingQualitySettings):number
+    {
+        const oc = this._parent.geom._oc;
+        let label;
+        let numParts = 0;
+
+        if(node.children)
+        {
+            label = shapeTool.NewShape();
+            node.children.forEach( child => 
+            {
+                numParts += this._addNodeToXCAF(child, label, shapeTool, colorTool, meshingQuality);
+            });
+            if(numParts === 0){ return 0; } // skip empty layers
+        }
+        else {
+            const ocShape = node.shapes.toOcCompound();
+            if(meshingQuality)
+            {
+                new oc.BRepMesh_IncrementalMesh_2(ocShape, meshingQuality.linearDeflection, false, meshingQuality.angularDeflection, false);
+            }
+            label = shapeTool.AddShape(ocShape, false, false);
+            if(node.obj && colorTool)
+            {
+                this._setXCAFColors(label, node.obj, colorTool);
+            }
+            numParts = 1;
+        }
+
+        this._setXCAFName(label, node.name);
+        const componentLabel = shapeTool.AddComponent_1(parentLabel, label, new oc.TopLoc_Location_1());
+        this._setXCAFName(componentLabel, node.name); // instance name is used for nodes
+
+        return numParts;
+    }
+
+    /** Names and colors in XCAF documents need classes that are not bound in the current build of archiyou-opencascade */
+    _hasXCAFAttributeBindings():boolean
+    {
+        const oc = this._parent.geom._oc;
+        const XCAF_ATTRIBUTE_CLASSES = ['TDataStd_Name', 'XCAFDoc_ColorTool', 'XCAFDoc_ColorType', 'Quantity_Color_3', 'Quantity_ColorRGBA_3', 'Quantity_TypeOfColor'];
+        return XCAF_ATTRIBUTE_CLASSES.every(className => oc[className] !== undefined);
+    }
+
+    _setXCAFName(label:any, name:string)
+    {
+        const oc = this._parent.geom._oc;
+        if (oc.TDataStd_Name === undefined)
+        {
+            return; // see _hasXCAFAttributeBindings()
+        }
+        oc.TDataStd_Name.Set_1(label, new oc.TCollection_ExtendedString_2(name, true));
+    }
+
+    /** Set surface (fill) and curve (line) colors of Obj on label */
+    _setXCAFColors(label:any, obj:Obj, colorTool:any)
+    {
+        const oc = this._parent.geom._oc;
+
+        const COLOR_TYPES = { fill: oc.XCAFDoc_ColorType.XCAFDoc_ColorSurf, line: oc.XCAFDoc_ColorType.XCAFDoc_ColorCurv };
+
+        Object.entries(COLOR_TYPES).forEach(([styleType, ocColorType]) =>
+        {
+            const style = this._getObjBaseStyle(obj, styleType as keyof ObjStyle);
+            if(style)
+            {
+                const [r,g,b] = [16,8,0].map( shift => ((style.color >> shift) & 0xFF) / 255);
+                const ocColor = new oc.Quantity_Color_3(r, g, b, oc.Quantity_TypeOfColor.Quantity_TOC_sRGB);
+                const ocColorRGBA = new oc.Quantity_ColorRGBA_3(ocColor, (typeof style.opacity === 'number') ? style.opacity : 1.0);
+                colorTool.SetColor_3(label, ocColorRGBA, ocColorType);
+            }
+        });
+    }
+
+    /** Get the BaseStyle with a color of a given type (fill, line) of Obj or one of its parents */
+    _getObjBaseStyle(obj:Obj, styleType:keyof ObjStyle):BaseStyle
+    {
+        let curObj = obj;
+        while(curObj)
+        {
+            const baseStyle = curObj._style?.[styleType];
+            if(baseStyle && isNumeric(baseStyle.color))
+            {
+                return baseStyle;
+            }
+            const materialColor = (styleType === 'fill') ? curObj._getMaterialColor() : null;
+            if (materialColor !== null)
+            {
+                return { color: materialColor, opacity: baseStyle?.opacity ?? null, size: baseStyle?.size ?? null };
+            }
+            curObj = curObj._parent;
+        }
+        return null;
+    }
+
+    /** Get the layer Obj a Shape is placed in. Returns null if placed directly in the scene */
+    _getLayerObj(shape:AnyShape):Obj
+    {
+        const parentObj = shape?._obj?._parent;
+        // the scene Obj is root and has no parent
+        return (parentObj && parentObj._parent) ? parentObj : null;
+    }
+
+    /** Name of layer including its parent layers (for example 'building-walls') */
+    _getLayerPath(layer:Obj):string
+    {
+        let names:Array<string> = [];
+        let curObj = layer;
+        while(curObj && curObj._parent) // stop at scene
+        {
+            names.unshift(curObj.name() as string);
+            curObj = curObj._parent;
+        }
+        // DXF does not allow some characters in layer names
+        return names.join('-').replace(/[<>\/":;?*|=`]/g, '_');
+    }
+
+    /** File name (without extension) from script name and a hash of its param values. Defaults to 'exportmodel' */
+    _getFileName():string
+    {
+        if (!this._scriptName)
+        {
+            return 'exportmodel'
+        }
+
+        const name = this._scriptName.toLowerCase().replace(/[^a-z0-9_-]+/g, '_');
+        if (!this._paramValues || Object.keys(this._paramValues).length === 0)
+        {
+            return name;
+        }
+
+        // sort param names so the hash does not depend on their order
+        const sortedParamValues = Object.keys(this._paramValues).sort().map( k => [k, this._paramValues[k]]);
+        return `${name}-${SparkMD5.hash(JSON.stringify(sortedParamValues))}`;
     }
 
     // Taken from Cascade Studio
@@ -0,0 +1,109 @@
+/** ExporterOutputs.ts
+ * 
+ *  Outputs that Exporter can write files to when there is no browser window to save them (for example in Node compute workers)
+ *  
+ *   - FileSystemOutput: write files into a directory
+ *   - StreamOutput: write files into a (Node) writable stream
+ *   - MemoryOutput: keep files in a map in memory
+ */
+
+import { ExporterOutput } from './internal'
+
+/** Write files to a directory on disk (Node only) */
+export class FileSystemOutput implements ExporterOutput
+{
+    directory:string;
+
+    constructor(directory:string='.')
+    {
+        this.directory = directory;
+    }
+
+    async write(filename:string, content:ArrayBuffer|string):Promise<string>
+    {
+        // NOTE: dynamic imports with variables to keep browser bundlers from resolving Node modules
+        const fsLib = 'fs/promises';
+        const pathLib = 'path';
+        const fs = await import(fsLib);
+        const path = await import(pathLib);
+
+        const filePath = path.join(this.directory, filename);
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(filePath, (typeof content === 'string') ? content : new Uint8Array(content));
+
+        console.info(`FileSystemOutput::write: Saved "${filePath}"`);
+
+        return filePath;
+    }
+}
+
+/** Write files into a writable stream
+ *  Either give one stream (which stays open) or a function that returns a new stream per filename (which is ended after writing)
+ */
+export class StreamOutput implements ExporterOutput
+{
+    stream:any = null; // any stream with write(chunk, callback)
+    streamFactory:(filename:string) => any = null;
+
+    constructor(streamOrFactory:any)
+    {
+        if (typeof streamOrFactory === 'function')
+        {
+            this.streamFactory = streamOrFactory;
+        }
+        else if (typeof streamOrFactory?.write === 'function')
+        {
+            this.stream = streamOrFactory;
+        }
+        else {
+            throw new Error(`StreamOutput::constructor: Please supply a writable stream or a function that returns one!`);
+        }
+    }
+
+    write(filename:string, content:ArrayBuffer|string):Promise<string>
+    {
+        const stream = this.stream || this.streamFactory(filename);
+        const chunk = (typeof content === 'string') ? content : new Uint8Array(content);
+
+        return new Promise((resolve, reject) => 
+        {
+            stream.write(chunk, (err) => 
+            {
+                if (err)
+                {
+                    reject(new Error(`StreamOutput::write: Could not write "${filename}": ${err}`));
+                    return;
+                }
+                if (this.streamFactory)
+                {
+                    stream.end(() => resolve(filename));
+                }
+                else {
+                    resolve(filename);
+                }
+            });
+        });
+    }
+}
+
+/** Keep written files in memory, for example to send them over the wire later */
+export class MemoryOutput implements ExporterOutput
+{
+    files:Map<string, ArrayBuffer|string> = new Map();
+
+    async write(filename:string, content:ArrayBuffer|string):Promise<string>
+    {
+        this.files.set(filename, content);
+        return filename;
+    }
+
+    get(filename:string):ArrayBuffer|string
+    {
+        return this.files.get(filename);
+    }
+
+    clear()
+    {
+        this.files.clear();
+    }
+}
@@ -4,13 +4,14 @@
 
  */
 
-import { FACE_PLANE_WIDTH, FACE_PLANE_DEPTH, FACE_PLANE_POSITION, FACE_PLANE_NORMAL, FACE_BASEPLANE_AXIS, FACE_BASEPLANE_SIZE, FACE_CIRCLE_RADIUS, FACE_EXTRUDE_AMOUNT, FACE_OFFSET_AMOUNT, FACE_OFFSET_TYPE, FACE_THICKEN_AMOUNT, FACE_THICKEN_DIRECTION, FACE_LOFT_SOLID, FACE_NORMAL_EDGE_SIZE, FACE_FILLET_RADIUS, FACE_CHAMFER_DISTANCE, FACE_CHAMFER_ANGLE } from './internal'
+import { FACE_PLANE_WIDTH, FACE_PLANE_DEPTH, FACE_PLANE_POSITION, FACE_PLANE_NORMAL, FACE_BASEPLANE_AXIS, FACE_BASEPLANE_SIZE, FACE_CIRCLE_RADIUS, FACE_EXTRUDE_AMOUNT, FACE_OFFSET_AMOUNT, FACE_OFFSET_TYPE, FACE_THICKEN_AMOUNT, FACE_THICKEN_DIRECTION, FACE_LOFT_SOLID, FACE_NORMAL_EDGE_SIZE, FACE_FILLET_RADIUS, FACE_CHAMFER_DISTANCE, FACE_CHAMFER_ANGLE, SOLID_HOLE_DIAMETER } from './internal'
 import { Vector, Point, Shape, Vertex, Edge, Wire, Shell, Solid, ShapeCollection } from './internal'
 import { addResultShapesToScene, checkInput, protectOC  } from './decorators'; // Import directly to avoid ts-node error
 import { PointLike, isPointLike, isCoordArray, Cursor, PointLikeSequence, isPointLikeSequence, MakeFaceInput, 
         isMakeFaceInput, AnyShape, isAnyShape, Axis, isAxis, ThickenDirection, isThickenDirection,
         PointLikeOrAnyShape, isPointLikeOrAnyShape, VertexCollection, PointLikeOrVertexCollection, AnyShapeOrSequence, isAnyShapeOrSequence,
-        isAnyShapeCollection, AnyShapeSequence, AnyShapeOrCollection, isAnyShapeSequence, PointLikeOrAnyShapeOrCollectionOrSelectionString, SelectionString, isSelectionString} from './internal'; // types
+        isAnyShapeCollection, AnyShapeSequence, AnyShapeOrCollection, isAnyShapeSequence, PointLikeOrAnyShapeOrCollectionOrSelectionString, SelectionString, isSelectionString, 
+        HolePositions, HoleOptions, HoleInfo } from './internal'; // types
 
 import { flattenEntities, toRad } from './internal' // utils
 
@@ -915,6 +916,49 @@ export class Face extends Shape
          return this;     
     }
 
+    /** Drill holes at given positions or Vertices of this Face along its normal
+     *  If this Face was selected from a Solid (ie. solid.select('F||top')) the holes are drilled in that Solid, which is returned
+     *  Otherwise simple holes are cut out of this Face
+     */
+    @checkInput(['HolePositions', ['HoleOptions', SOLID_HOLE_DIAMETER]], ['auto','auto'])
+    hole(at:HolePositions, options?:number|HoleOptions):Face|Solid
+    {
+        const holeOptions:HoleOptions = (typeof options === 'object') ? options : { diameter: Number(options) };
+        const points = this._holePoints(at).filter(point => 
+        {
+            const onFace = this.intersects(point._toVertex());
+            if (!onFace){ console.warn(`Face::hole: Position ${point} is not on Face. Skipped!`); }
+            return onFace;
+        });
+
+        if (points.length === 0)
+        {
+            throw new Error(`Face::hole: Could not get any positions on Face to drill holes. Check given positions or selection!`);
+        }
+
+        const parentSolid = (this._parent?.type() === 'Solid') ? this._parent as Solid : null;
+        if (parentSolid)
+        {
+            points.forEach(point => parentSolid.hole(point, { ...holeOptions, direction: holeOptions.direction ?? this.normalAt(point).reversed() }));
+            return parentSolid;
+        }
+
+        // no Solid: cut simple holes out of Face
+        if (holeOptions.type && holeOptions.type !== 'simple')
+        {
+            console.warn(`Face::hole: Only simple holes can be cut out of a Face without a Solid. Use a Face selected from a Solid for ${holeOptions.type} holes!`);
+        }
+        const tool = new Solid();
+        const holes:Array<HoleInfo> = points.map(point => 
+                        tool._holeInfo({ diameter: holeOptions.diameter, thread: holeOptions.thread, pitch: holeOptions.pitch }, point, this.normalAt(point).reversed()));
+        const tools = new ShapeCollection();
+        holes.forEach(hole => tools.add(tool._holeTools(hole, hole.diameter))); // depth is just enough to get through Face
+        this.subtract(tools);
+        this.attribute('holes', (this.attribute('holes') || []).concat(holes));
+
+        return this;
+    }
+
 
     //// SPECIFIC METHODS ON FACE ====
 
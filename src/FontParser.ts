@@ -0,0 +1,856 @@
+import { unzlibSync } from 'fflate'
+
+/* Docs:
+    - OpenType specification: https://learn.microsoft.com/en-us/typography/opentype/spec/
+    - CFF: https://adobe-type-tools.github.io/font-tech-notes/pdfs/5176.CFF.pdf
+    - Type 2 charstrings: https://adobe-type-tools.github.io/font-tech-notes/pdfs/5177.Type2.pdf
+    - WOFF: https://www.w3.org/TR/WOFF/
+
+    We read glyph outlines of TrueType (glyf) and OpenType (CFF) fonts, also wrapped in WOFF
+    Kerning is taken from the kern table. GPOS kerning and other shaping features are not supported
+*/
+
+/** Part of glyph outline in font units: points include the start point */
+export interface FontSegment
+{
+    type:'line'|'quad'|'cubic',
+    points:Array<Array<number>>,
+}
+
+export type FontContour = Array<FontSegment>
+
+export interface FontGlyph
+{
+    index:number,
+    advanceWidth:number, // in font units
+    contours:Array<FontContour>,
+}
+
+const FONT_MAX_COMPOSITE_DEPTH = 8; // protect against composite glyphs that contain themselves
+const CFF_STANDARD_SUBR_BIASES = [[1240, 107], [33900, 1131], [Infinity, 32768]]; // [max count, bias]
+
+export class FontParser
+{
+    unitsPerEm:number = 1000;
+    ascender:number = 0; // in font units
+    descender:number = 0; // negative: below baseline
+    lineGap:number = 0;
+    numGlyphs:number = 0;
+    outlines:'truetype'|'cff';
+
+    _tables:{[tag:string]:DataView} = {};
+    _cmap:{ format:number, data:DataView } = null;
+    _advanceWidths:Array<number> = [];
+    _kerning:Map<number,number> = new Map(); // (left << 16 | right) => value
+    _glyphOffsets:Array<number> = []; // TrueType loca
+    _cff:{ charStrings:Array<Uint8Array>, globalSubrs:Array<Uint8Array>, privateSubrs:Array<Array<Uint8Array>>, fdSelect:(glyphIndex:number) => number } = null;
+    _glyphCache:Map<number,FontGlyph> = new Map();
+
+    /** Read tables of TTF, OTF or WOFF font content */
+    parse(content:ArrayBuffer):FontParser
+    {
+        const view = new DataView(content);
+        const signature = view.getUint32(0);
+
+        if (signature === 0x774F4646) // 'wOFF'
+        {
+            this._readWOFFTables(view);
+        }
+        else if (signature === 0x00010000 || signature === 0x74727565 || signature === 0x4F54544F) // TrueType, 'true' or 'OTTO'
+        {
+            this._readTables(view);
+        }
+        else {
+            throw new Error(`FontParser::parse: Unknown font format. Please supply a TTF, OTF or WOFF font`);
+        }
+
+        ['head', 'hhea', 'hmtx', 'maxp', 'cmap'].forEach(tag =>
+        {
+            if (!this._tables[tag])
+            {
+                throw new Error(`FontParser::parse: Font has no "${tag}" table`);
+            }
+        });
+
+        const head = this._tables['head'];
+        this.unitsPerEm = head.getUint16(18);
+
+        const hhea = this._tables['hhea'];
+        [this.ascender, this.descender, this.lineGap] = [hhea.getInt16(4), hhea.getInt16(6), hhea.getInt16(8)];
+        this.numGlyphs = this._tables['maxp'].getUint16(4);
+
+        this._readAdvanceWidths(hhea.getUint16(34));
+        this._readCmap();
+        this._readKerning();
+
+        if (this._tables['glyf'] && this._tables['loca'])
+        {
+            this.outlines = 'truetype';
+            this._readGlyphOffsets(head.getInt16(50));
+        }
+        else if (this._tables['CFF '])
+        {
+            this.outlines = 'cff';
+            this._readCFF(this._tables['CFF ']);
+        }
+        else {
+            throw new Error(`FontParser::parse: Font has no glyph outlines (glyf or CFF table). CFF2 (variable fonts) is not supported`);
+        }
+
+        return this;
+    }
+
+    /** Index of glyph for unicode code point. 0 (missing glyph) if not in font */
+    glyphIndex(codePoint:number):number
+    {
+        const { format, data } = this._cmap;
+
+        if (format === 4)
+        {
+            const segCount = data.getUint16(6) / 2;
+            const endCodesOffset = 14;
+            const startCodesOffset = endCodesOffset + segCount * 2 + 2;
+            const deltasOffset = startCodesOffset + segCount * 2;
+            const rangeOffsetsOffset = deltasOffset + segCount * 2;
+
+            for (let s = 0; s < segCount; s++)
+            {
+                if (codePoint > data.getUint16(endCodesOffset + s * 2))
+                {
+                    continue;
+                }
+                const start = data.getUint16(startCodesOffset + s * 2);
+                if (codePoint < start)
+                {
+                    return 0;
+                }
+                const delta = data.getInt16(deltasOffset + s * 2);
+                const rangeOffset = data.getUint16(rangeOffsetsOffset + s * 2);
+                if (rangeOffset === 0)
+                {
+                    return (codePoint + delta) & 0xFFFF;
+                }
+                const glyphIndex = data.getUint16(rangeOffsetsOffset + s * 2 + rangeOffset + (codePoint - start) * 2);
+                return (glyphIndex === 0) ? 0 : (glyphIndex + delta) & 0xFFFF;
+            }
+        }
+        else if (format === 12)
+        {
+            const numGroups = data.getUint32(12);
+            for (let g = 0; g < numGroups; g++)
+            {
+                const [start, end, startGlyph] = [0, 4, 8].map(o => data.getUint32(16 + g * 12 + o));
+                if (codePoint >= start && codePoint <= end)
+                {
+                    return startGlyph + codePoint - start;
+                }
+            }
+        }
+
+        return 0;
+    }
+
+    /** Extra horizontal space (usually negative) between two glyphs in font units */
+    kerning(leftGlyph:number, rightGlyph:number):number
+    {
+        return this._kerning.get(leftGlyph * 65536 + rightGlyph) || 0;
+    }
+
+    /** Outline and advance width of glyph */
+    glyph(glyphIndex:number):FontGlyph
+    {
+        if (!this._glyphCache.has(glyphIndex))
+        {
+            const contours = (this.outlines === 'truetype') ? this._getTrueTypeContours(glyphIndex, 0) : this._getCFFContours(glyphIndex);
+            this._glyphCache.set(glyphIndex, {
+                index: glyphIndex,
+                advanceWidth: this._advanceWidths[Math.min(glyphIndex, this._advanceWidths.length - 1)] || 0,
+                contours: contours,
+            });
+        }
+        return this._glyphCache.get(glyphIndex);
+    }
+
+    //// TABLES ////
+
+    _readTables(view:DataView)
+    {
+        const numTables = view.getUint16(4);
+        for (let t = 0; t < numTables; t++)
+        {
+            const record = 12 + t * 16;
+            const tag = this._readTag(view, record);
+            this._tables[tag] = new DataView(view.buffer, view.byteOffset + view.getUint32(record + 8), view.getUint32(record + 12));
+        }
+    }
+
+    /** WOFF has the same tables as TTF/OTF, but they can be compressed with zlib */
+    _readWOFFTables(view:DataView)
+    {
+        const numTables = view.getUint16(12);
+        for (let t = 0; t < numTables; t++)
+        {
+            const record = 44 + t * 20;
+            const tag = this._readTag(view, record);
+            const [offset, compLength, origLength] = [view.getUint32(record + 4), view.getUint32(record + 8), view.getUint32(record + 12)];
+            const data = new Uint8Array(view.buffer, view.byteOffset + offset, compLength);
+            const table = (compLength < origLength) ? unzlibSync(data) : data;
+
+            this._tables[tag] = new DataView(table.buffer, table.byteOffset, table.byteLength);
+        }
+    }
+
+    _readTag(view:DataView, offset:number):string
+    {
+        return String.fromCharCode(...[0,1,2,3].map(i => view.getUint8(offset + i)));
+    }
+
+    _readAdvanceWidths(numberOfHMetrics:number)
+    {
+        const hmtx = this._tables['hmtx'];
+        for (let i = 0; i < numberOfHMetrics; i++)
+        {
+            this._advanceWidths.push(hmtx.getUint16(i * 4));
+        }
+    }
+
+    /** Use the unicode subtable of cmap: format 12 (full unicode) or else format 4 (basic plane) */
+    _readCmap()
+    {
+        const cmap = this._tables['cmap'];
+        const subtables = [];
+        for (let s = 0; s < cmap.getUint16(2); s++)
+        {
+            const [platform, encoding, offset] = [cmap.getUint16(4 + s * 8), cmap.getUint16(6 + s * 8), cmap.getUint32(8 + s * 8)];
+            const isUnicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+            if (isUnicode)
+            {
+                subtables.push({ format: cmap.getUint16(offset), offset: offset });
+            }
+        }
+
+        const subtable = subtables.find(s => s.format === 12) || subtables.find(s => s.format === 4);
+        if (!subtable)
+        {
+            throw new Error(`FontParser::_readCmap: Font has no unicode character map (cmap format 4 or 12)`);
+        }
+        this._cmap = { format: subtable.format, data: new DataView(cmap.buffer, cmap.byteOffset + subtable.offset) };
+    }
+
+    /** Horizontal kerning pairs of kern table (format 0) */
+    _readKerning()
+    {
+        const kern = this._tables['kern'];
+        if (!kern || kern.getUint16(0) !== 0)
+        {
+            return;
+        }
+
+        let offset = 4;
+        for (let s = 0; s < kern.getUint16(2); s++)
+        {
+            const [length, coverage] = [kern.getUint16(offset + 2), kern.getUint16(offset + 4)];
+            const isHorizontalFormat0 = (coverage & 1) === 1 && (coverage >> 8) === 0;
+            if (isHorizontalFormat0)
+            {
+                const numPairs = kern.getUint16(offset + 6);
+                for (let p = 0; p < numPairs; p++)
+                {
+                    const pair = offset + 14 + p * 6;
+                    this._kerning.set(kern.getUint16(pair) * 65536 + kern.getUint16(pair + 2), kern.getInt16(pair + 4));
+                }
+            }
+            offset += length;
+        }
+    }
+
+    //// TRUETYPE OUTLINES ////
+
+    _readGlyphOffsets(indexToLocFormat:number)
+    {
+        const loca = this._tables['loca'];
+        for (let i = 0; i <= this.numGlyphs; i++)
+        {
+            this._glyphOffsets.push((indexToLocFormat === 0) ? loca.getUint16(i * 2) * 2 : loca.getUint32(i * 4));
+        }
+    }
+
+    _getTrueTypeContours(glyphIndex:number, depth:number):Array<FontContour>
+    {
+        const glyf = this._tables['glyf'];
+        const [start, end] = [this._glyphOffsets[glyphIndex], this._glyphOffsets[glyphIndex + 1]];
+
+        if (start === undefined || end === undefined || end <= start || depth > FONT_MAX_COMPOSITE_DEPTH)
+        {
+            return []; // empty glyph like space
+        }
+
+        const glyph = new DataView(glyf.buffer, glyf.byteOffset + start, end - start);
+        const numContours = glyph.getInt16(0);
+
+        return (numContours >= 0) ? this._getSimpleGlyphContours(glyph, numContours) : this._getCompositeGlyphContours(glyph, depth);
+    }
+
+    _getSimpleGlyphContours(glyph:DataView, numContours:number):Array<FontContour>
+    {
+        const endPoints = [];
+        for (let c = 0; c < numContours; c++)
+        {
+            endPoints.push(glyph.getUint16(10 + c * 2));
+        }
+        const numPoints = (numContours > 0) ? endPoints[numContours - 1] + 1 : 0;
+        let offset = 10 + numContours * 2;
+        offset += 2 + glyph.getUint16(offset); // skip instructions
+
+        // flags with repeats
+        const flags = [];
+        while (flags.length < numPoints)
+        {
+            const flag = glyph.getUint8(offset++);
+            flags.push(flag);
+            if (flag & 8)
+            {
+                const repeat = glyph.getUint8(offset++);
+                for (let r = 0; r < repeat; r++)
+                {
+                    flags.push(flag);
+                }
+            }
+        }
+
+        // coordinates are deltas: short (1 byte) with sign flag, or same as previous, or 2 bytes
+        const readCoordinates = (shortFlag:number, sameFlag:number) =>
+        {
+            let value = 0;
+            return flags.map(flag =>
+            {
+                if (flag & shortFlag)
+                {
+                    const delta = glyph.getUint8(offset++);
+                    value += (flag & sameFlag) ? delta : -delta;
+                }
+                else if (!(flag & sameFlag))
+                {
+                    value += glyph.getInt16(offset);
+                    offset += 2;
+                }
+                return value;
+            });
+        }
+        const xs = readCoordinates(2, 16);
+        const ys = readCoordinates(4, 32);
+
+        const contours = [];
+        let first = 0;
+        endPoints.forEach(last =>
+        {
+            const points = [];
+            for (let p = first; p <= last; p++)
+            {
+                points.push({ x: xs[p], y: ys[p], onCurve: (flags[p] & 1) === 1 });
+            }
+            contours.push(this._quadPointsToContour(points));
+            first = last + 1;
+        });
+
+        return contours.filter(c => c.length > 0);
+    }
+
+    /** Convert TrueType points to segments: between two off curve points there is an implied on curve point in the middle */
+    _quadPointsToContour(points:Array<{ x:number, y:number, onCurve:boolean }>):FontContour
+    {
+        if (points.length < 2)
+        {
+            return [];
+        }
+
+        const midpoint = (a, b) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, onCurve: true });
+
+        // start at an on curve point
+        const startIndex = points.findIndex(p => p.onCurve);
+        const start = (startIndex >= 0) ? points[startIndex] : midpoint(points[0], points[1]);
+        const ordered = (startIndex >= 0) ?
+                            points.slice(startIndex + 1).concat(points.slice(0, startIndex)) :
+                            points.slice(1).concat(points.slice(0, 1));
+        ordered.push(start); // close
+
+        const contour:FontContour = [];
+        let current = start;
+        let control = null;
+
+        ordered.forEach(point =>
+        {
+            if (point.onCurve)
+            {
+                contour.push((control) ?
+                    { type: 'quad', points: [[current.x, current.y], [control.x, control.y], [point.x, point.y]] } :
+                    { type: 'line', points: [[current.x, current.y], [point.x, point.y]] });
+                [current, control] = [point, null];
+            }
+            else if (control)
+            {
+                const implied = midpoint(control, point);
+                contour.push({ type: 'quad', points: [[current.x, current.y], [control.x, control.y], [implied.x, implied.y]] });
+                [current, control] = [implied, point];
+            }
+            else {
+                control = point;
+            }
+        });
+
+        // zero length lines (like the closing line when already closed) give invalid Edges
+        return contour.filter(s => s.type !== 'line' || s.points[0][0] !== s.points[1][0] || s.points[0][1] !== s.points[1][1]);
+    }
+
+    /** Composite glyphs are made of transformed other glyphs (like accented characters) */
+    _getCompositeGlyphContours(glyph:DataView, depth:number):Array<FontContour>
+    {
+        const contours = [];
+        let offset = 10;
+        let flags;
+
+        do {
+            flags = glyph.getUint16(offset);
+            const componentIndex = glyph.getUint16(offset + 2);
+            offset += 4;
+
+            let dx = 0, dy = 0;
+            if (flags & 1) // args are words
+            {
+                [dx, dy] = [glyph.getInt16(offset), glyph.getInt16(offset + 2)];
+                offset += 4;
+            }
+            else {
+                [dx, dy] = [glyph.getInt8(offset), glyph.getInt8(offset + 1)];
+                offset += 2;
+            }
+            if (!(flags & 2))
+            {
+                [dx, dy] = [0, 0]; // matching points instead of offsets: not supported
+            }
+
+            const f2dot14 = (o:number) => glyph.getInt16(o) / 16384;
+            let [a, b, c, d] = [1, 0, 0, 1];
+            if (flags & 8) // one scale
+            {
+                a = d = f2dot14(offset);
+                offset += 2;
+            }
+            else if (flags & 64) // x and y scale
+            {
+                [a, d] = [f2dot14(offset), f2dot14(offset + 2)];
+                offset += 4;
+            }
+            else if (flags & 128) // 2x2 matrix
+            {
+                [a, b, c, d] = [f2dot14(offset), f2dot14(offset + 2), f2dot14(offset + 4), f2dot14(offset + 6)];
+                offset += 8;
+            }
+
+            this._getTrueTypeContours(componentIndex, depth + 1).forEach(contour =>
+            {
+                contours.push(contour.map(segment => ({
+                    type: segment.type,
+                    points: segment.points.map(([x, y]) => [a * x + c * y + dx, b * x + d * y + dy]),
+                })));
+            });
+        }
+        while (flags & 32); // more components
+
+        return contours;
+    }
+
+    //// CFF OUTLINES ////
+
+    _readCFF(cff:DataView)
+    {
+        let offset = cff.getUint8(2); // header size
+        const names = this._readCFFIndex(cff, offset);
+        const topDicts = this._readCFFIndex(cff, names.end);
+        const strings = this._readCFFIndex(cff, topDicts.end);
+        const globalSubrs = this._readCFFIndex(cff, strings.end);
+
+        const topDict = this._readCFFDict(topDicts.items[0]);
+        const charStrings = this._readCFFIndex(cff, topDict[17][0]).items;
+
+        const readPrivateSubrs = (dict:{[op:number]:Array<number>}) =>
+        {
+            if (!dict[18])
+            {
+                return [];
+            }
+            const [size, privateOffset] = dict[18];
+            const privateDict = this._readCFFDict(new Uint8Array(cff.buffer, cff.byteOffset + privateOffset, size));
+            return (privateDict[19]) ? this._readCFFIndex(cff, privateOffset + privateDict[19][0]).items : [];
+        }
+
+        let privateSubrs = [readPrivateSubrs(topDict)];
+        let fdSelect = (glyphIndex:number) => 0;
+
+        // CID fonts have a Private DICT per font in FDArray, selected per glyph by FDSelect
+        if (topDict[1236] && topDict[1237])
+        {
+            privateSubrs = this._readCFFIndex(cff, topDict[1236][0]).items.map(fontDict => readPrivateSubrs(this._readCFFDict(fontDict)));
+            fdSelect = this._readCFFFDSelect(cff, topDict[1237][0]);
+        }
+
+        this._cff = { charStrings: charStrings, globalSubrs: globalSubrs.items, privateSubrs: privateSubrs, fdSelect: fdSelect };
+    }
+
+    _readCFFIndex(cff:DataView, offset:number):{ items:Array<Uint8Array>, end:number }
+    {
+        const count = cff.getUint16(offset);
+        if (count === 0)
+        {
+            return { items: [], end: offset + 2 };
+        }
+
+        const offSize = cff.getUint8(offset + 2);
+        const readOffset = (i:number) =>
+        {
+            let value = 0;
+            for (let b = 0; b < offSize; b++)
+            {
+                value = value * 256 + cff.getUint8(offset + 3 + i * offSize + b);
+            }
+            return value;
+        }
+
+        const dataStart = offset + 3 + (count + 1) * offSize - 1; // offsets start at 1
+        const items = [];
+        for (let i = 0; i < count; i++)
+        {
+            items.push(new Uint8Array(cff.buffer, cff.byteOffset + dataStart + readOffset(i), readOffset(i + 1) - readOffset(i)));
+        }
+
+        return { items: items, end: dataStart + readOffset(count) };
+    }
+
+    /** DICT of operator to operands. Escaped operators (12 x) are keyed as 1200 + x */
+    _readCFFDict(data:Uint8Array):{[op:number]:Array<number>}
+    {
+        const dict = {};
+        let operands = [];
+        let i = 0;
+
+        while (i < data.length)
+        {
+            const b0 = data[i++];
+            if (b0 <= 21)
+            {
+                const op = (b0 === 12) ? 1200 + data[i++] : b0;
+                dict[op] = operands;
+                operands = [];
+            }
+            else if (b0 === 28)
+            {
+                operands.push(((data[i] << 24) >> 16) | data[i + 1]);
+                i += 2;
+            }
+            else if (b0 === 29)
+            {
+                operands.push((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]);
+                i += 4;
+            }
+            else if (b0 === 30)
+            {
+                // real number in nibbles
+                let real = '';
+                const NIBBLES = ['0','1','2','3','4','5','6','7','8','9','.','E','E-','','-',''];
+                while (i < data.length)
+                {
+                    const b = data[i++];
+                    if ((b >> 4) === 15) { break; }
+                    real += NIBBLES[b >> 4];
+                    if ((b & 15) === 15) { break; }
+                    real += NIBBLES[b & 15];
+                }
+                operands.push(parseFloat(real));
+            }
+            else if (b0 >= 32 && b0 <= 246)
+            {
+                operands.push(b0 - 139);
+            }
+            else if (b0 >= 247 && b0 <= 250)
+            {
+                operands.push((b0 - 247) * 256 + data[i++] + 108);
+            }
+            else if (b0 >= 251 && b0 <= 254)
+            {
+                operands.push(-(b0 - 251) * 256 - data[i++] - 108);
+            }
+        }
+
+        return dict;
+    }
+
+    _readCFFFDSelect(cff:DataView, offset:number):(glyphIndex:number) => number
+    {
+        const format = cff.getUint8(offset);
+        if (format === 0)
+        {
+            return (glyphIndex:number) => cff.getUint8(offset + 1 + glyphIndex);
+        }
+        // format 3: ranges of [first glyph, fd]
+        const numRanges = cff.getUint16(offset + 1);
+        return (glyphIndex:number) =>
+        {
+            for (let r = numRanges - 1; r >= 0; r--)
+            {
+                if (glyphIndex >= cff.getUint16(offset + 3 + r * 3))
+                {
+                    return cff.getUint8(offset + 5 + r * 3);
+                }
+            }
+            return 0;
+        }
+    }
+
+    _getCFFSubrBias(subrs:Array<Uint8Array>):number
+    {
+        return CFF_STANDARD_SUBR_BIASES.find(([maxCount]) => subrs.length < maxCount)[1];
+    }
+
+    /** Run Type 2 charstring of glyph into contours of cubic curves */
+    _getCFFContours(glyphIndex:number):Array<FontContour>
+    {
+        const charString = this._cff.charStrings[glyphIndex];
+        if (!charString)
+        {
+            return [];
+        }
+
+        const globalSubrs = this._cff.globalSubrs;
+        const localSubrs = this._cff.privateSubrs[this._cff.fdSelect(glyphIndex)] || [];
+        const [globalBias, localBias] = [this._getCFFSubrBias(globalSubrs), this._getCFFSubrBias(localSubrs)];
+
+        const contours:Array<FontContour> = [];
+        let contour:FontContour = null;
+        let stack:Array<number> = [];
+        let [x, y] = [0, 0];
+        let [contourStartX, contourStartY] = [0, 0];
+        let numStems = 0;
+        let hasWidth = false; // first stack clearing operator can have the advance width as extra first operand
+        let ended = false;
+
+        const closeContour = () =>
+        {
+            if (contour && contour.length > 0)
+            {
+                if (x !== contourStartX || y !== contourStartY)
+                {
+                    contour.push({ type: 'line', points: [[x, y], [contourStartX, contourStartY]] });
+                }
+                contours.push(contour);
+            }
+            contour = null;
+        }
+        const moveTo = (dx:number, dy:number) =>
+        {
+            closeContour();
+            [x, y] = [x + dx, y + dy];
+            [contourStartX, contourStartY] = [x, y];
+            contour = [];
+        }
+        const lineTo = (dx:number, dy:number) =>
+        {
+            const start = [x, y];
+            [x, y] = [x + dx, y + dy];
+            contour?.push({ type: 'line', points: [start, [x, y]] });
+        }
+        const curveTo = (dx1:number, dy1:number, dx2:number, dy2:number, dx3:number, dy3:number) =>
+        {
+            const p0 = [x, y];
+            const p1 = [p0[0] + dx1, p0[1] + dy1];
+            const p2 = [p1[0] + dx2, p1[1] + dy2];
+            [x, y] = [p2[0] + dx3, p2[1] + dy3];
+            contour?.push({ type: 'cubic', points: [p0, p1, p2, [x, y]] });
+        }
+        const takeWidth = (expectedOperands:number) =>
+        {
+            if (!hasWidth && stack.length > expectedOperands)
+            {
+                stack.shift();
+            }
+            hasWidth = true;
+        }
+        const stems = () =>
+        {
+            takeWidth(stack.length - (stack.length % 2));
+            numStems += stack.length >> 1;
+            stack = [];
+        }
+
+        const run = (code:Uint8Array, depth:number) =>
+        {
+            let i = 0;
+            while (i < code.length && !ended && depth < 10)
+            {
+                const b0 = code[i++];
+
+                // numbers
+                if (b0 >= 32 || b0 === 28)
+                {
+                    if (b0 === 28) { stack.push(((code[i] << 24) >> 16) | code[i + 1]); i += 2; }
+                    else if (b0 <= 246) { stack.push(b0 - 139); }
+                    else if (b0 <= 250) { stack.push((b0 - 247) * 256 + code[i++] + 108); }
+                    else if (b0 <= 254) { stack.push(-(b0 - 251) * 256 - code[i++] - 108); }
+                    else { stack.push(((code[i] << 24) | (code[i + 1] << 16) | (code[i + 2] << 8) | code[i + 3]) / 65536); i += 4; }
+                    continue;
+                }
+
+                switch(b0)
+                {
+                    case 1: case 3: case 18: case 23: // hstem, vstem, hstemhm, vstemhm
+                        stems();
+                        break;
+                    case 19: case 20: // hintmask, cntrmask: implied vstem
+                        stems();
+                        i += (numStems + 7) >> 3;
+                        break;
+                    case 21: // rmoveto
+                        takeWidth(2);
+                        moveTo(stack[0], stack[1]);
+                        stack = [];
+                        break;
+                    case 22: // hmoveto
+                        takeWidth(1);
+                        moveTo(stack[0], 0);
+                        stack = [];
+                        break;
+                    case 4: // vmoveto
+                        takeWidth(1);
+                        moveTo(0, stack[0]);
+                        stack = [];
+                        break;
+                    case 5: // rlineto
+                        for (let s = 0; s + 1 < stack.length; s += 2) { lineTo(stack[s], stack[s + 1]); }
+                        stack = [];
+                        break;
+                    case 6: case 7: // hlineto, vlineto: alternating
+                        stack.forEach((d, s) => ((s % 2 === 0) === (b0 === 6)) ? lineTo(d, 0) : lineTo(0, d));
+                        stack = [];
+                        break;
+                    case 8: // rrcurveto
+                        for (let s = 0; s + 5 < stack.length; s += 6) { curveTo(...stack.slice(s, s + 6) as [number,number,number,number,number,number]); }
+                        stack = [];
+                        break;
+                    case 24: // rcurveline
+                    {
+                        let s = 0;
+                        for (; s + 7 < stack.length; s += 6) { curveTo(...stack.slice(s, s + 6) as [number,number,number,number,number,number]); }
+                        lineTo(stack[s], stack[s + 1]);
+                        stack = [];
+                        break;
+                    }
+                    case 25: // rlinecurve
+                    {
+                        let s = 0;
+                        for (; s + 7 < stack.length; s += 2) { lineTo(stack[s], stack[s + 1]); }
+                        curveTo(...stack.slice(s, s + 6) as [number,number,number,number,number,number]);
+                        stack = [];
+                        break;
+                    }
+                    case 26: // vvcurveto
+                    {
+                        let s = 0;
+                        let dx1 = (stack.length % 4 === 1) ? stack[s++] : 0;
+                        for (; s + 3 < stack.length; s += 4)
+                        {
+                            curveTo(dx1, stack[s], stack[s + 1], stack[s + 2], 0, stack[s + 3]);
+                            dx1 = 0;
+                        }
+                        stack = [];
+                        break;
+                    }
+                    case 27: // hhcurveto
+                    {
+                        let s = 0;
+                        let dy1 = (stack.length % 4 === 1) ? stack[s++] : 0;
+                        for (; s + 3 < stack.length; s += 4)
+                        {
+                            curveTo(stack[s], dy1, stack[s + 1], stack[s + 2], stack[s + 3], 0);
+                            dy1 = 0;
+                        }
+                        stack = [];
+                        break;
+                    }
+                    case 30: case 31: // vhcurveto, hvcurveto: alternating start tangent
+                    {
+                        let horizontal = (b0 === 31);
+                        for (let s = 0; s + 3 < stack.length; s += 4)
+                        {
+                            const last = (s + 5 === stack.length) ? stack[s + 4] : 0; // extra operand for last curve
+                            if (horizontal)
+                            {
+                                curveTo(stack[s], 0, stack[s + 1], stack[s + 2], last, stack[s + 3]);
+                            }
+                            else {
+                                curveTo(0, stack[s], stack[s + 1], stack[s + 2], stack[s + 3], last);
+                            }
+                            horizontal = !horizontal;
+                        }
+                        stack = [];
+                        break;
+                    }
+                    case 10: // callsubr
+                    {
+                        const subr = localSubrs[stack.pop() + localBias];
+                        if (subr) { run(subr, depth + 1); }
+                        break;
+                    }
+                    case 29: // callgsubr
+                    {
+                        const subr = globalSubrs[stack.pop() + globalBias];
+                        if (subr) { run(subr, depth + 1); }
+                        break;
+                    }
+                    case 11: // return
+                        return;
+                    case 14: // endchar
+                        takeWidth(0);
+                        closeContour();
+                        ended = true;
+                        return;
+                    case 12: // escaped: flex operators, others are ignored
+                    {
+                        const op = code[i++];
+                        const s = stack;
+                        if (op === 35) // flex
+                        {
+                            curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+                            curveTo(s[6], s[7], s[8], s[9], s[10], s[11]);
+                        }
+                        else if (op === 34) // hflex
+                        {
+                            curveTo(s[0], 0, s[1], s[2], s[3], 0);
+                            curveTo(s[4], 0, s[5], -s[2], s[6], 0);
+                        }
+                        else if (op === 36) // hflex1
+                        {
+                            curveTo(s[0], s[1], s[2], s[3], s[4], 0);
+                            curveTo(s[5], 0, s[6], s[7], s[8], -(s[1] + s[3] + s[7]));
+                        }
+                        else if (op === 37) // flex1: last point is horizontal or vertical, depending on largest delta
+                        {
+                            const dx = s[0] + s[2] + s[4] + s[6] + s[8];
+                            const dy = s[1] + s[3] + s[5] + s[7] + s[9];
+                            const [dx6, dy6] = (Math.abs(dx) > Math.abs(dy)) ? [s[10], -dy] : [-dx, s[10]];
+                            curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+                            curveTo(s[6], s[7], s[8], s[9], dx6, dy6);
+                        }
+                        stack = [];
+                        break;
+                    }
+                    default:
+                        stack = []; // unknown or reserved operator
+                }
+            }
+        }
+
+        run(charString, 0);
+        closeContour();
+
+        return contours;
+    }
+}
@@ -103,31 +103,72 @@ export class GLTFBuilder
 
     //// SPECIAL ARCHIYOU GLTF ADDITIONS ////
 
-    /** Apply Archiyou GLTF format data to raw GLTF content buffer */
-    addArchiyouData(gltfContent:ArrayBuffer|string, ay:ArchiyouState):ArrayBuffer
+    /** Apply Archiyou GLTF format data to raw GLTF content (binary buffer or text JSON) */
+    addArchiyouData(gltfContent:ArrayBuffer|string, ay:ArchiyouState):ArrayBuffer|string
     {
-        const io = new WebIO({credentials: 'include'});
         if (typeof gltfContent === 'string')
         {
-            // TODO
+            // Text-based GLTF: write into JSON directly to keep the content (and formatting) as is
+            let gltfJson = JSON.parse(gltfContent);
+            gltfJson.asset = gltfJson.asset || {};
+            gltfJson.asset.generator = 'Archiyou';
+            gltfJson.asset.extras = { ...gltfJson.asset.extras, archiyou: this._getArchiyouData(ay) };
+            
+            return JSON.stringify(gltfJson, null, 2); // indented to keep text GLTF readable and diffable
         }
         else {
             // Open ArrayBuffer and write extra data
+            const io = new WebIO({credentials: 'include'});
             this.doc = io.readBinary(gltfContent);
             let asset = this.doc.getRoot().getAsset();
 
             asset.generator = 'Archiyou';
             asset.extras = {};
-            asset.extras.archiyou = {
-                scenegraph: ay.geom.scene.toGraph(),
-                gizmos: ay.gizmos, // TODO: need to create Gizmo in Geom not in the Worker
-                annotations: ay.geom._annotator.getAnnotations(),
-                // Dont do: messages, errors
-            } as ArchiyouData
+            asset.extras.archiyou = this._getArchiyouData(ay);
             
             let buffer = io.writeBinary(this.doc); 
             return buffer; 
         }
     }
 
+    _getArchiyouData(ay:ArchiyouState):ArchiyouData
+    {
+        return {
+            scenegraph: ay.geom.scene.toGraph(),
+            gizmos: ay.gizmos, // TODO: need to create Gizmo in Geom not in the Worker
+            annotations: ay.geom._annotator.getAnnotations(),
+            // Dont do: messages, errors
+        } as ArchiyouData
+    }
+
+    //// TEXT-BASED GLTF ////
+
+    /** Replace external buffer uris (like 'file.bin') in text-based GLTF with base64 data uris 
+     *  so we get one self-contained file
+     */
+    embedBuffers(gltfContent:string, buffers:{[uri:string]:Uint8Array}):string
+    {
+        const DATA_URI_PREFIX = 'data:application/octet-stream;base64,';
+
+        let gltfJson = JSON.parse(gltfContent);
+
+        (gltfJson.buffers || []).forEach( buffer => 
+        {
+            if(buffer.uri && !buffer.uri.startsWith('data:'))
+            {
+                const bufferData = buffers[buffer.uri];
+                if(!bufferData)
+                {
+                    console.error(`GLTFBuilder::embedBuffers: No data for external buffer "${buffer.uri}". GLTF will be incomplete!`);
+                }
+                else {
+                    buffer.uri = DATA_URI_PREFIX + base64js.fromByteArray(bufferData);
+                    buffer.byteLength = bufferData.byteLength;
+                }
+            }
+        });
+
+        return JSON.stringify(gltfJson, null, 2);
+    }
+
 }
\ No newline at end of file
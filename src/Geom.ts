@@ -9,6 +9,10 @@ import { PointLike, isPointLike, SelectionString,PointLikeSequence, isPointLikeS
 import { Vector, Point, Obj, Shape, Vertex, Edge, Wire, Face, Shell, Solid, Bbox, ShapeCollection, VertexCollection, Sketch } from './internal'
 import { SketchPlaneName, SketchPlane } from './internal' // Sketch
 import { Pipeline } from './internal'
+import { IO, TextBuilder, TextShapeOptions } from './internal'
+import { Material, MATERIALS_DEFAULT } from './internal'
+import { InterferenceOptions, InterferenceReport } from './internal'
+import { FontParser } from './FontParser'
 import { checkInput, asSketch } from './decorators'; // Direct import to avoid error in ts-node/jest
 
 //// DEFAULTS FROM SHAPE CLASSES ////
@@ -40,9 +44,11 @@ export class Geom
 {
   _oc:any; // is set on prototype when Opencascade.js is loaded
   _annotator:Annotator;
+  _io:IO; // set by IO: to get loaded assets like fonts
   _console:any; // reference to console - avoid using type Console to seperate ties between ui components 
   _cache:{(key:string):any} = {} as any; // operations cache - avoid TS errors
   _units:ModelUnits = DEFAULT_UNITS;
+  _materials:{[key:string]:Material} = {}; // registry by lowercase name
   scene:Obj;
   activeLayer:Obj;
   layerStack:Array<Obj> = [];
@@ -74,11 +80,15 @@ export class Geom
     Pipeline.prototype._geom = this;
 
     Annotator.prototype._geom = this;
+    TextBuilder.prototype._oc = this._oc;
+    TextBuilder.prototype._geom = this;
     this._annotator = new Annotator();
 
 
     this.scene = new Obj().name("scene") as Obj; // create empty Collection
     this.setActiveLayer(this.scene);
+
+    MATERIALS_DEFAULT.forEach(m => this._materials[m.name] = { ...m });
   }
 
   //// ADMIN METHODS ////
@@ -92,6 +102,44 @@ export class Geom
     return this._units;
   }
 
+  /** Get Material from registry by name or add (or update) one with given density (kg/m3), cost (per kg) and color 
+   *    For example: material('walnut', { density: 650, cost: 12, color: '#5C4033' })
+  */
+  material(name:string, settings?:Partial<Material>):Material
+  {
+    if (typeof name !== 'string' || !name.length)
+    {
+      throw new Error(`Geom::material: Please supply a name of a Material`);
+    }
+    const key = name.toLowerCase();
+    const existing = this._materials[key];
+
+    if (!settings)
+    {
+      if (!existing)
+      {
+        console.warn(`Geom::material: No Material with name "${name}". Known are: ${Object.keys(this._materials).join(', ')}`);
+        return null;
+      }
+      return existing;
+    }
+
+    const material = { ...existing, ...settings, name: existing?.name ?? name } as Material;
+    if (typeof material.density !== 'number' || material.density <= 0)
+    {
+      throw new Error(`Geom::material: Please supply a positive density (kg/m3) for Material "${name}"`);
+    }
+    this._materials[key] = material;
+
+    return material;
+  }
+
+  /** All Materials in registry */
+  materials():Array<Material>
+  {
+    return Object.values(this._materials);
+  }
+
   //// CREATION METHODS ////
 
   /** Creates a 2D/3D Point */
@@ -391,12 +439,48 @@ export class Geom
     return cylinder as Solid;
   }
 
+  /** Create outlines of text as Faces (counters are holes) with a TTF, OTF or WOFF font loaded with $load() 
+   *    Use options for size, alignment, letter spacing and placement on a Sketch workplane (default: the active Sketch, if not on a surface)
+   *    For example: Text('Archiyou', { font: 'fonts/Lato-Regular.ttf', size: 20, align: 'center' }).extrude(5)
+  */
+  Text(text:string, options:TextShapeOptions={}):ShapeCollection
+  {
+    const font = this._getFont(options.font);
+    // text is placed on the workplane of the active Sketch, except when it draws on a surface
+    const activePlaneSketch = (this.activeSketch?.mode === 'plane') ? this.activeSketch : null;
+    const textShapes = new TextBuilder().build(String(text ?? ''), font, { ...options, sketch: options.sketch ?? activePlaneSketch });
+
+    textShapes.addToScene();
+    textShapes.name(this.getNextObjName('Text'));
+    console.geom(`Geom::Text: Created text "${text}" with ${textShapes.length} Shapes`);
+    return textShapes;
+  }
+
+  _getFont(font:string|FontParser):FontParser
+  {
+    if (font instanceof FontParser)
+    {
+      return font;
+    }
+    if (!font)
+    {
+      throw new Error(`Geom::Text: Please supply a font with option font. For example: $load('fonts/Lato-Regular.ttf') and then Text('Hello', { font: 'fonts/Lato-Regular.ttf' })`);
+    }
+
+    const loadedFont = this._io?.loadFromCache(font);
+    if (!(loadedFont instanceof FontParser))
+    {
+      throw new Error(`Geom::Text: Font "${font}" is not loaded. Load it first with $load('${font}')`);
+    }
+    return loadedFont;
+  }
+
   //// SKETCH API ////
   /*
       These Sketch commands are forwarded to the activeSketch (if any)
   */
 
-  /** Start sketching a 2D Shape on a given plane, face, or plane given by xAxis and yAxis */
+  /** Start sketching a 2D Shape on a given plane or plane given by xAxis and yAxis. On a Face UV coordinates of its (curved) surface are used */
   sketch(plane?:SketchPlaneName|Face|PointLike, yAxis?:PointLike)
   {
      this.activeSketch = new Sketch(plane,yAxis);
@@ -645,6 +729,24 @@ export class Geom
     return this.scene.allShapesCollection();
   }
 
+  /** Check all visible Solids in the Scene for overlaps, contacts and clearances smaller than options.clearance 
+   *  With option highlight the overlaps are added to layer 'interferences'. See ShapeCollection.interferences()
+  */
+  interferences(options:InterferenceOptions={}):InterferenceReport
+  {
+    const solids = this.all().filter(s => s.type() === 'Solid' && s.visible());
+    const report = solids.interferences(options);
+
+    if (options.highlight && report.pairs.length > 0)
+    {
+      this.layer('interferences').color('red');
+      report.pairs.forEach(pair => pair.overlap.forEach(s => s.addToScene()));
+      this.resetLayers();
+    }
+
+    return report;
+  }
+
   //// SCENE MANAGEMENT ////
 
   /** Create and/or activate a layer as sibling to active layer (or Scene) 
@@ -1,29 +1,48 @@
 import { Geom } from "./Geom";
-import { AnyShape, ShapeCollection, Sketch } from "./internal";
+import { AnyShape, Shape, Vertex, Edge, Wire, Face, Shell, Solid, ShapeCollection, Sketch, ObjStyle, BaseStyle } from "./internal";
+import { MODEL_UNITS_TO_MM, GEO_EARTH_RADIUS } from "./internal";
+import { DXFParser } from "./DXFParser";
+import { AssetCache } from "./IOCaches";
+import { BitmapParser, Bitmap } from "./BitmapParser";
+import { FontParser } from "./FontParser";
+import { AssetCacheBackend, BitmapImportOptions } from "./internal";
 
 import parseSVG from "svg-path-parser"; // https://github.com/hughsk/svg-path-parser
 const makeAbsolute = parseSVG.makeAbsolute; //
 import * as txml from 'txml'; // for XML parsing because DOMParser is not available in a WebWorker: https://github.com/tobiasnickel/tXml
+import SparkMD5 from 'spark-md5'; // hash of data URIs as key in cache
 
 
 interface Asset
 {
     source:string
+    key:string // of cache: resolved url or path, or hash of content for data URIs
     valid:boolean
-    locationType: 'url'|'local'; // on the web or on AY
-    url:string
+    locationType: 'url'|'data'|'file'|'local'; // on the web, data URI, path on disk (Node) or on AY
+    url:string // url or path (resolved against asset root)
     localId:string
-    formatType: 'data'|'geodata'|'vector'|'bitmap'|'api'
+    mime?:string // for data URIs
+    formatType: 'data'|'geodata'|'vector'|'bitmap'|'geometry'|'mesh'|'font'|'api'
     format: string // TODO: more formats possible: jpg
     content?:any // raw content
     fetchError?:string
+    etag?:string // given by server, to revalidate cached content
     imported?:any // Shape or data ready for Archiyou
+    importOptions?:BitmapImportOptions // settings the content was imported with
 }
 
-interface SvgTransform 
-{
-    x:number
-    y:number
+/** 2D affine transformation [a,b,c,d,e,f] like SVG: x' = a*x + c*y + e and y' = b*x + d*y + f */
+type SvgTransform = Array<number>
+
+const SVG_IDENTITY:SvgTransform = [1,0,0,1,0,0];
+
+/** Absolute SVG length units in mm. User units (px) are mapped 1:1 to model units */
+const SVG_UNITS_TO_MM = {
+    mm: 1,
+    cm: 10,
+    in: 25.4,
+    pt: 25.4/72,
+    pc: 25.4/6,
 }
 
 export class IO
@@ -33,7 +52,10 @@ export class IO
     
     source:string;
     asset:Asset // last asset
-    cache:{[key:string]:Asset} = {}; // save all assets
+    geoOrigin:Array<number>; // [lon,lat] of the origin of the local plane for geodata. Set by first import if not given
+    cache:AssetCache; // raw content of loaded assets (see IOCaches.ts)
+    revalidate:boolean = false; // check cached remote assets with their ETag on load
+    _imported:{[key:string]:Asset} = {}; // imported assets of cached content (by key of Asset): removed when evicted from cache
 
     // SETTINGS
     FORMAT_TO_TYPE = {
@@ -41,34 +63,75 @@ export class IO
         json: 'data',
         geojson: 'geodata',
         jpg: 'bitmap',
+        jpeg: 'bitmap',
         gif: 'bitmap',
         png: 'bitmap',
+        brep: 'geometry',
+        step: 'geometry',
+        stp: 'geometry',
+        stl: 'mesh',
+        dxf: 'vector',
+        ttf: 'font',
+        otf: 'font',
+        woff: 'font',
+    }
+
+    BINARY_FORMATS = ['stl', 'png', 'jpg', 'jpeg', 'gif', 'ttf', 'otf', 'woff']; // STL can also be ASCII: that is detected on import
+
+    MIME_TO_FORMAT = {
+        'image/svg+xml': 'svg',
+        'application/json': 'json',
+        'application/geo+json': 'geojson',
+        'image/jpeg': 'jpg',
+        'image/gif': 'gif',
+        'image/png': 'png',
+        'model/stl': 'stl',
+        'application/sla': 'stl',
+        'model/step': 'step',
+        'application/dxf': 'dxf',
+        'font/ttf': 'ttf',
+        'font/otf': 'otf',
+        'font/woff': 'woff',
     }
 
+    assetRoot:string = null; // directory (Node) or base url that relative sources are resolved against
+    fetchFn:(url:string, init?:any) => Promise<any> = null; // custom fetch (for example in tests). Default: global fetch
+
     constructor(geom:Geom)
     {
         console.log('IO::constructor');
         this._geom = geom;
         this._oc = this?._geom?._oc;
+        if (this._geom)
+        {
+            this._geom._io = this; // for assets used by Geom, like fonts
+        }
+        this.setCache(new AssetCache());
     }
 
-    async load(source:string, forceFetch:boolean=false, onlyCache:boolean=false)
+    /** Load asset from cache or source and import it. Bitmaps are imported with the given options (see importBitmap) */
+    async load(source:string, forceFetch:boolean=false, onlyCache:boolean=false, options:BitmapImportOptions={})
     {
         console.log(`IO::load: ${source}`);
 
         this.source = source;
-        let cachedAsset = await this._getAssetFromCache(source);
+        let asset = this._parse(this.source);
+        let cachedAsset = (forceFetch) ? null : await this._getAssetFromCache(asset);
 
-        if (cachedAsset && !forceFetch)
+        if (cachedAsset)
         {
-            return cachedAsset;
+            if (this.revalidate && cachedAsset.etag && cachedAsset.locationType === 'url' && !onlyCache)
+            {
+                cachedAsset = await this._revalidate(cachedAsset);
+            }
+            const sameOptions = JSON.stringify(cachedAsset.importOptions ?? {}) === JSON.stringify(options);
+            return (cachedAsset.imported && sameOptions) ? cachedAsset : await this._importAsset(cachedAsset, options);
         }
         else if (!onlyCache)
         {
             // fetch
-            let asset = this._parse(this.source);
             let fetchedAsset = await this._fetch(asset);
-            let importedAsset = this._importAsset(fetchedAsset); // set in cache automatically
+            let importedAsset = await this._importAsset(fetchedAsset, options); // set in cache automatically
             
             return importedAsset;
         }
@@ -78,50 +141,158 @@ export class IO
         }
     }
 
+    /** Set where raw content of loaded assets is kept, for example new AssetCache(new DiskCache('./cache'), 500*1024*1024)
+     *  With revalidate remote assets are checked with the server (by ETag) on every load
+     */
+    setCache(cache:AssetCache|AssetCacheBackend, revalidate:boolean=this.revalidate):IO
+    {
+        this.cache = (cache instanceof AssetCache) ? cache : new AssetCache(cache);
+        this.cache.onEvict = (key) => delete this._imported[key];
+        this.revalidate = revalidate;
+        this._imported = {};
+
+        return this;
+    }
+
+    /** Set directory (in Node) or base url that relative sources are resolved against */
+    setAssetRoot(root:string):IO
+    {
+        this.assetRoot = root;
+        return this;
+    }
+
+    /** Use a custom fetch function instead of the global fetch */
+    setFetch(fetchFn:(url:string, init?:any) => Promise<any>):IO
+    {
+        this.fetchFn = fetchFn;
+        return this;
+    }
+
+    /** Set the [lon,lat] that becomes [0,0] when projecting geodata to the local plane */
+    setGeoOrigin(lon:number, lat:number):IO
+    {
+        this.geoOrigin = [lon, lat];
+        return this;
+    }
+
     /** Load directly from hot cache (no async) */
-    loadFromCache(source:string):AnyShape|ShapeCollection
+    loadFromCache(source:string):AnyShape|ShapeCollection|FontParser
     {
-        let cachedAsset = this.cache[source];
+        let cachedAsset = this._imported[this._parse(source).key];
 
         return cachedAsset?.imported || null;
     }
     
+    /** Get info of source: a url, data URI or a path (relative to asset root) */
     _parse(source:string):Asset
     {
-        const locationType = (source.includes('https')) ? 'url' : null;
-        const url = (locationType === 'url') ? source : null;
+        const DATA_URI_RE = /^data:([^;,]*)(;[^,]*)?,/i;
+
+        let locationType:Asset['locationType'];
+        let key = null;
+        let url = null;
+        let mime = null;
+        let format = null;
+
+        if (DATA_URI_RE.test(source))
+        {
+            locationType = 'data';
+            mime = source.match(DATA_URI_RE)[1].toLowerCase();
+            format = this.MIME_TO_FORMAT[mime] || null;
+            key = `data:${mime};md5,${SparkMD5.hash(source)}`; // equal data URIs share an entry without keeping them whole
+        }
+        else 
+        {
+            locationType = (/^https?:\/\//i.test(source)) ? 'url' : 'file';
+            url = (locationType === 'file') ? this._resolvePath(source) : source;
+            key = url; // relative paths are the same file only after resolving against the asset root
+            format = source.split(/[?#]/)[0].split('.').slice(-1)[0].toLowerCase(); // without query string or hash
+        }
+
         const localId = null; // TODO if we have local asset management
-        const format = url.split('.').slice(-1)[0];
-        const formatCheck = Object.keys(this.FORMAT_TO_TYPE).includes(format);
         const formatType = this.FORMAT_TO_TYPE[format];
 
         // TODO: api
 
         // basic checks
-        const valid = (url && formatCheck && format && formatType) != null;
+        const valid = !!(source && format && formatType);
 
         // AssetInfo
         return {
             source: source,
+            key: key,
             valid: valid,
             locationType: locationType,
             url: url,
             localId: localId,
+            mime: mime,
             formatType: formatType,
             format: format,
+            fetchError: (valid) ? null : `Unknown format "${format || mime}". Use any of these: "${Object.keys(this.FORMAT_TO_TYPE).join('", "')}"`,
         }
 
     }
 
-    async _getAssetFromCache(source:string)
+    /** Resolve relative path against asset root */
+    _resolvePath(path:string):string
     {
-        // to have it consistent with fetch we return a promise
-        let compScope = this;
-         let promise = new Promise((resolve, reject) => {
-            resolve(compScope.cache[source]);
-        });
+        if (!this.assetRoot || path.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(path))
+        {
+            return path;
+        }
+        return `${this.assetRoot.replace(/[\\/]+$/, '')}/${path.replace(/^\.\//, '')}`;
+    }
 
-        return promise as any; // avoid TS error
+    _isNode():boolean
+    {
+        return typeof process !== 'undefined' && process.release?.name === 'node';
+    }
+
+    /** Get imported asset from memory, or raw content from cache backend (which needs import) */
+    async _getAssetFromCache(asset:Asset):Promise<Asset>
+    {
+        if (this._imported[asset.key])
+        {
+            await this.cache.touch(asset.key);
+            return this._imported[asset.key];
+        }
+
+        const entry = await this.cache.get(asset.key);
+
+        return (entry) ? { ...asset, format: entry.format || asset.format, content: entry.content, etag: entry.etag } : null;
+    }
+
+    /** Check with server if cached content of remote asset is still current. If not, return the new version */
+    async _revalidate(cachedAsset:Asset):Promise<Asset>
+    {
+        const fetchFn = this._getFetch();
+        let response;
+        try 
+        {
+            response = await fetchFn(cachedAsset.url, { method : 'GET', headers: { 'If-None-Match': cachedAsset.etag } });
+        }
+        catch(e)
+        {
+            console.warn(`IO::_revalidate: Could not reach server for "${cachedAsset.url}": Using cached version`);
+            return cachedAsset;
+        }
+
+        if (response.status === 304)
+        {
+            return cachedAsset;
+        }
+        if (!response.ok)
+        {
+            console.warn(`IO::_revalidate: Server responded with ${response.status} for "${cachedAsset.url}": Using cached version`);
+            return cachedAsset;
+        }
+
+        return await this._handleFetchedAsset({ ...cachedAsset, imported: null }, response);
+    }
+
+    _getFetch():(url:string, init?:any) => Promise<any>
+    {
+        return this.fetchFn || ((typeof fetch !== 'undefined') ? fetch : null);
     }
 
     async _fetch(asset:Asset)
@@ -130,61 +301,116 @@ export class IO
         return fetchedAsset;
     }
 
-    async _fetchAsset(asset:Asset)
+    async _fetchAsset(asset:Asset):Promise<Asset>
     {
-        if(asset.locationType === 'url')
+        if (!asset.valid)
         {
+            return this._handleFetchedAssetError(asset, asset.fetchError);
+        }
 
-            switch(asset.format)
+        try
+        {
+            switch(asset.locationType)
             {
-                // TODO: more cases
-                default:
-
-                    try
-                    {
-                        let r = await fetch(asset.source, { 
-                            method : 'GET',
-                            headers: {
-                                'Content-type': `text/plain`,
-                            },
-                        })
-
-                        let loadedAsset = await this._handleFetchedAsset(asset,r);
-                        return loadedAsset
-                    }
-                    catch(e)
+                case 'data':
+                    return { ...asset, content: this._decodeDataURI(asset) };
+                case 'file':
+                    if (this._isNode())
                     {
-                        this._handleFetchedAssetError(asset)
-                        return null;
+                        return await this._readFile(asset);
                     }
+                    // in the browser relative paths are fetched relative to the page (or asset root)
+                    return await this._fetchUrl(asset);
+                case 'url':
+                    return await this._fetchUrl(asset);
+                default:
+                    // TODO: fetch from API
+                    return this._handleFetchedAssetError(asset, `Unsupported location`);
             }
+        }
+        catch(e)
+        {
+            return this._handleFetchedAssetError(asset, e.message);
+        }
+    }
 
-          
+    async _fetchUrl(asset:Asset):Promise<Asset>
+    {
+        const fetchFn = this._getFetch();
+        if (!fetchFn)
+        {
+            return this._handleFetchedAssetError(asset, `No fetch available. Use setFetch()`);
         }
 
-        // TODO: fetch from API
+        let response;
+        try 
+        {
+            response = await fetchFn(asset.url, { method : 'GET' });
+        }
+        catch(e)
+        {
+            return this._handleFetchedAssetError(asset, `Network error "${e.message}". Check if it exists or the server allows downloading from other domains (CORS)`);
+        }
+
+        if (!response.ok)
+        {
+            return this._handleFetchedAssetError(asset, `Server responded with ${response.status} ${response.statusText || ''}`.trim());
+        }
+
+        return await this._handleFetchedAsset(asset, response);
     }
 
-    async _handleFetchedAsset(asset:Asset, response:any)
+    /** Read file from disk (Node only) */
+    async _readFile(asset:Asset):Promise<Asset>
     {
-        const content = await response.text();
+        // NOTE: dynamic import with variable to keep browser bundlers from resolving Node modules
+        const fsLib = 'fs/promises';
+        const fs = await import(fsLib);
+
+        try 
+        {
+            const buffer = await fs.readFile(asset.url);
+            const content = (this.BINARY_FORMATS.includes(asset.format)) ? 
+                                buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) : buffer.toString('utf8');
+            return { ...asset, content: content };
+        }
+        catch(e)
+        {
+            return this._handleFetchedAssetError(asset, (e.code === 'ENOENT') ? `File "${asset.url}" not found. Check the path or asset root` : e.message);
+        }
+    }
+
+    /** Get content of data URI: ArrayBuffer for binary formats, otherwise text */
+    _decodeDataURI(asset:Asset):ArrayBuffer|string
+    {
+        const [header, data] = [asset.source.slice(0, asset.source.indexOf(',')), asset.source.slice(asset.source.indexOf(',') + 1)];
+        const bytes = (/;base64/i.test(header)) ? Uint8Array.from(atob(data), c => c.charCodeAt(0)) : new TextEncoder().encode(decodeURIComponent(data));
+
+        return (this.BINARY_FORMATS.includes(asset.format)) ? bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) : new TextDecoder().decode(bytes);
+    }
+
+    async _handleFetchedAsset(asset:Asset, response:any):Promise<Asset>
+    {
+        const content = (this.BINARY_FORMATS.includes(asset.format)) ? await response.arrayBuffer() : await response.text();
         
-        let fetchedAsset = { ...asset, content:content };
+        let fetchedAsset = { ...asset, content:content, etag: response.headers?.get?.('ETag') || null };
         // NOTE: we only set asset in cache when also content is imported to Shapes or data
         return fetchedAsset;
     }
 
-    _handleFetchedAssetError(asset:Asset)
+    /** Report error and return asset without content */
+    _handleFetchedAssetError(asset:Asset, error:string):Asset
     {
-        throw new Error(`IO::_fetch: Failed to fetch asset ${asset.source}: Check if it exists or the server allowes downloading from other domains!`);
+        console.error(`IO::_fetchAsset: Failed to load asset "${asset.source.slice(0,100)}": ${error}`);
+        return { ...asset, content: null, fetchError: error };
     }
 
     /** Convert and import fetched asset to Archiyou entity: either some Shape or raw data like a text or json data structure */
-    _importAsset(asset:Asset):any // TODO: shape, string or Object
+    async _importAsset(asset:Asset, options:BitmapImportOptions={}):Promise<Asset> // TODO: imported is shape, string or Object
     {
-        if(!asset.content)
+        if(!asset?.content)
         {
-            console.error(`IO::_importAsset: Skipped asset "${asset.source}" because it has no content (probably an invalid source)`);
+            console.error(`IO::_importAsset: Skipped asset "${asset?.source?.slice(0,100)}" because it has no content: ${asset?.fetchError || 'probably an invalid source'}`);
             return null;
         }
 
@@ -194,75 +420,866 @@ export class IO
             case 'svg':
                 imported = this._importSVG(asset);
                 break;
+            case 'brep':
+                imported = this._importBREP(asset);
+                break;
+            case 'step':
+            case 'stp':
+                imported = this._importSTEP(asset);
+                break;
+            case 'stl':
+                imported = this._importSTL(asset);
+                break;
+            case 'dxf':
+                imported = this._importDXF(asset);
+                break;
+            case 'geojson':
+                imported = this._importGeoJSON(asset);
+                break;
+            case 'png':
+            case 'jpg':
+            case 'jpeg':
+            case 'gif':
+                imported = await this._importBitmap(asset, options);
+                break;
+            case 'ttf':
+            case 'otf':
+            case 'woff':
+                imported = this._importFont(asset);
+                break;
             default:
                 // TODO: give error
                 imported = null;
         }
 
-        // place asset (incuding imported ) cache
-        let importedAsset = { ...asset, imported: imported };
+        // place raw content in cache and asset (including imported) in memory
+        let importedAsset = { ...asset, imported: imported, importOptions: options };
 
-        this.cache[asset.source] = importedAsset;
+        if (imported)
+        {
+            this._imported[asset.key] = importedAsset;
+            await this.cache.set(asset.key, asset.content, asset.format, asset.etag);
+        }
 
         return importedAsset
     }   
 
+    /** Import OpenCascade BREP content (see Exporter.exportToBREP) directly into Shapes */
+    importBREP(content:string):AnyShape|ShapeCollection
+    {
+        if (!this._oc)
+        {
+            throw new Error(`IO::importBREP: Cannot import BREP without reference to geom in constructor!`)
+        }
+
+        const oc = this._oc;
+        const filename = `import${Date.now()}.brep`;
+
+        // BRepTools only reads from files: use the virtual Emscripten Filesystem
+        oc.FS.writeFile("/" + filename, content);
+        let ocShape = new oc.TopoDS_Shape();
+        let result = oc.BRepTools.Read_2(ocShape, filename, new oc.BRep_Builder(), new oc.Message_ProgressRange_1());
+        oc.FS.unlink("/" + filename);
+
+        if (!result || ocShape.IsNull())
+        {
+            console.error(`IO::importBREP: Could not read BREP. Check if it is valid!`);
+            return null;
+        }
+
+        // Rebuild the specific Shape classes (Vertex, Edge etc) from OC Shape or compound
+        return new Shape()._fromOcShape(ocShape);
+    }
+
+    _importBREP(asset:Asset):AnyShape|ShapeCollection
+    {
+        let shapeOrShapes = this.importBREP(asset.content);
+        shapeOrShapes?.name(this._geom.getNextObjName('ImportedBREP'));
+
+        return shapeOrShapes;
+    }
+
+    /** Import STEP content into a ShapeCollection
+     *  Every product becomes a Shape named after it with its colors as ObjStyle
+     *  Products in assemblies are placed in groups that mirror the assembly tree, like 'door' and 'door/hinges'
+     *  NOTE: the current build of archiyou-opencascade has no STEP reader: then null is returned
+     */
+    importSTEP(content:string):ShapeCollection
+    {
+        /* OC docs:
+            - https://dev.opencascade.org/doc/refman/html/class_s_t_e_p_c_a_f_control___reader.html
+            - https://dev.opencascade.org/doc/refman/html/class_x_c_a_f_doc___shape_tool.html
+        */
+
+        if (!this._oc)
+        {
+            throw new Error(`IO::importSTEP: Cannot import STEP without reference to geom in constructor!`)
+        }
+
+        const oc = this._oc;
+        const filename = `import${Date.now()}.step`;
+
+        if (!this._hasXCAFReaderBindings())
+        {
+            // older build of archiyou-opencascade: only the Shapes without names, colors and assemblies
+            console.warn(`IO::importSTEP: OpenCascade build has no bindings for reading XCAF documents. Imported Shapes without names, colors and assemblies!`);
+            return this._importPlainSTEP(filename, content);
+        }
+
+        const docHandle = new oc.Handle_TDocStd_Document_2(new oc.TDocStd_Document(new oc.TCollection_ExtendedString_1()));
+        let ocReader = new oc.STEPCAFControl_Reader_1();
+        ocReader.SetNameMode(true);
+        ocReader.SetColorMode(true);
+        ocReader.SetLayerMode(true);
+
+        // STEP reader only reads from files: use the virtual Emscripten Filesystem
+        oc.FS.writeFile("/" + filename, content);
+        let result = ocReader.Perform_2(filename, docHandle, new oc.Message_ProgressRange_1());
+        oc.FS.unlink("/" + filename);
+
+        if (!result)
+        {
+            console.error(`IO::importSTEP: Could not read STEP. Check if it is valid!`);
+            return null;
+        }
+
+        const shapeTool = oc.XCAFDoc_DocumentTool.prototype.constructor.ShapeTool(docHandle.get().Main()).get();
+        let freeLabels = new oc.TDF_LabelSequence_1();
+        shapeTool.GetFreeShapes(freeLabels);
+
+        let shapes = new ShapeCollection();
+        for (let i = 1; i <= freeLabels.Length(); i++) // NOTE: OC sequences start at 1
+        {
+            this._addSTEPLabel(freeLabels.Value(i), new oc.TopLoc_Location_1(), [], null, shapes);
+        }
+        
+        console.info(`IO::importSTEP: Imported ${shapes.length} Shapes in ${shapes.groups().length} groups`);
+
+        return shapes;
+    }
+
+    /** Check if the OpenCascade build has the bindings to read STEP into a XCAF document */
+    _hasXCAFReaderBindings():boolean
+    {
+        const XCAF_READER_CLASSES = ['STEPCAFControl_Reader_1', 'TDF_LabelSequence_1', 'Handle_TDF_Attribute_1', 'TDataStd_Name', 'XCAFDoc_ColorTool', 'XCAFDoc_ColorType'];
+        return XCAF_READER_CLASSES.every(className => this._oc[className] !== undefined);
+    }
+
+    /** Import STEP with the plain STEP reader: all Shapes in one ShapeCollection */
+    _importPlainSTEP(filename:string, content:string):ShapeCollection
+    {
+        // OC docs: https://dev.opencascade.org/doc/refman/html/class_s_t_e_p_control___reader.html
+        const oc = this._oc;
+
+        if (oc.STEPControl_Reader_1 === undefined)
+        {
+            console.error(`IO::importSTEP: OpenCascade build has no STEP reader. Add STEPControl_Reader or STEPCAFControl_Reader to the build of archiyou-opencascade`);
+            return null;
+        }
+
+        let ocReader = new oc.STEPControl_Reader_1();
+
+        oc.FS.writeFile("/" + filename, content);
+        let readResult = ocReader.ReadFile(filename);
+        oc.FS.unlink("/" + filename);
+
+        if (readResult.value !== 1) // return a struct: use value to get real value
+        {
+            console.error(`IO::importSTEP: Could not read STEP. Check if it is valid!`);
+            return null;
+        }
+
+        ocReader.TransferRoots(new oc.Message_ProgressRange_1());
+        let shapeOrShapes = new Shape()._fromOcShape(ocReader.OneShape());
+        if (!shapeOrShapes)
+        {
+            console.error(`IO::importSTEP: STEP file has no valid Shapes`);
+            return null;
+        }
+
+        let shapes = new ShapeCollection(shapeOrShapes);
+        console.info(`IO::importSTEP: Imported ${shapes.length} Shapes`);
+
+        return shapes;
+    }
+
+    /** Add products of XCAF label (recursively for assemblies) to the ShapeCollection */
+    _addSTEPLabel(label:any, parentLocation:any, groupPath:Array<string>, parentStyle:ObjStyle, shapes:ShapeCollection)
+    {
+        const oc = this._oc;
+
+        // components are references to a product (or assembly) with a location
+        let productLabel = label;
+        let location = parentLocation;
+        if (oc.XCAFDoc_ShapeTool.IsReference(label))
+        {
+            productLabel = new oc.TDF_Label();
+            oc.XCAFDoc_ShapeTool.GetReferredShape(label, productLabel);
+            location = parentLocation.Multiplied(oc.XCAFDoc_ShapeTool.GetLocation(label));
+        }
+
+        const name = this._getXCAFName(label) || this._getXCAFName(productLabel) || this._geom.getNextObjName('ImportedSTEP');
+        const style = this._getXCAFStyle(label) || this._getXCAFStyle(productLabel) || parentStyle; // colors are inherited
+
+        if (oc.XCAFDoc_ShapeTool.IsAssembly(productLabel))
+        {
+            let componentLabels = new oc.TDF_LabelSequence_1();
+            oc.XCAFDoc_ShapeTool.GetComponents(productLabel, componentLabels, false);
+            for (let i = 1; i <= componentLabels.Length(); i++)
+            {
+                this._addSTEPLabel(componentLabels.Value(i), location, groupPath.concat([name]), style, shapes);
+            }
+            return;
+        }
+
+        let ocShape = oc.XCAFDoc_ShapeTool.GetShape_2(productLabel);
+        if (!location.IsIdentity())
+        {
+            ocShape = ocShape.Moved(location, false);
+        }
+
+        let shapeOrShapes = new Shape()._fromOcShape(ocShape);
+        if (!shapeOrShapes)
+        {
+            console.warn(`IO::_addSTEPLabel: Skipped product "${name}" without valid Shapes`);
+            return;
+        }
+
+        const productShapes = new ShapeCollection(shapeOrShapes);
+        productShapes.forEach( shape => 
+        {
+            shape.name(name);
+            if (style)
+            {
+                shape.style(style);
+            }
+        });
+        
+        if (groupPath.length === 0)
+        {
+            shapes.add(productShapes);
+        }
+        else {
+            // add to the direct parent assembly and make products available in all assemblies above it
+            shapes.addGroup(groupPath.join('/'), productShapes);
+            groupPath.slice(0,-1).forEach( (n,i) => shapes._defineGroup(groupPath.slice(0,i+1).join('/'), productShapes));
+        }
+    }
+
+    /** Get the name of a XCAF label (null if not set) */
+    _getXCAFName(label:any):string
+    {
+        const oc = this._oc;
+
+        let ocAttributeHandle = new oc.Handle_TDF_Attribute_1();
+        if (!label.FindAttribute_1(oc.TDataStd_Name.GetID(), ocAttributeHandle))
+        {
+            return null;
+        }
+        // the attribute is returned as its real class: TDataStd_Name
+        const ocName = ocAttributeHandle.get().Get();
+        const name = new oc.TCollection_AsciiString_13(ocName, '_'.charCodeAt(0)).ToCString(); // replace non-ascii characters
+        
+        return (name && name.length > 0) ? name : null;
+    }
+
+    /** Get the colors of a XCAF label as ObjStyle: surface color is fill and curve color is line (null if no colors set) */
+    _getXCAFStyle(label:any):ObjStyle
+    {
+        const oc = this._oc;
+
+        const COLOR_TYPES = { 
+            fill: [oc.XCAFDoc_ColorType.XCAFDoc_ColorSurf, oc.XCAFDoc_ColorType.XCAFDoc_ColorGen],
+            line: [oc.XCAFDoc_ColorType.XCAFDoc_ColorCurv, oc.XCAFDoc_ColorType.XCAFDoc_ColorGen],
+        };
+        
+        let style:ObjStyle = { point: null, line: null, fill: null };
+        Object.entries(COLOR_TYPES).forEach(([styleType, ocColorTypes]) =>
+        {
+            let ocColorRGBA = new oc.Quantity_ColorRGBA_1();
+            if (ocColorTypes.some( ocColorType => oc.XCAFDoc_ColorTool.GetColor_5(label, ocColorType, ocColorRGBA)))
+            {
+                const ocColor = ocColorRGBA.GetRGB();
+                // OC colors are in linear RGB
+                const [r,g,b] = [ocColor.Red(), ocColor.Green(), ocColor.Blue()].map( c => 
+                                    Math.round(255 * ((c <= 0.0031308) ? 12.92 * c : 1.055 * Math.pow(c, 1/2.4) - 0.055)));
+                style[styleType] = { color: (r << 16) + (g << 8) + b, opacity: ocColorRGBA.Alpha(), size: null } as BaseStyle;
+            }
+        });
+
+        return (style.fill || style.line) ? style : null;
+    }
+
+    _importSTEP(asset:Asset):ShapeCollection
+    {
+        let shapes = this.importSTEP(asset.content);
+        shapes?.name(this._geom.getNextObjName('ImportedSTEP'));
+
+        return shapes;
+    }
+
+    /** Import STL mesh (binary or ASCII) 
+     *  The triangles are sewed into Shells, and closed Shells are upgraded to Solids so they can be used in booleans
+     *  @param unify Merge triangles that lie in the same plane into bigger Faces
+     */
+    importSTL(content:ArrayBuffer|string, unify:boolean=false):AnyShape|ShapeCollection
+    {
+        if (!this._oc)
+        {
+            throw new Error(`IO::importSTL: Cannot import STL without reference to geom in constructor!`)
+        }
+
+        const oc = this._oc;
+        const triangles = this._parseSTL(content);
+
+        if (triangles.length === 0)
+        {
+            console.error(`IO::importSTL: No triangles found. Check if STL is valid!`);
+            return null;
+        }
+
+        // triangulated Faces
+        let faces = new ShapeCollection();
+        triangles.forEach( triangle => 
+        {
+            if (this._isDegenerateTriangle(triangle))
+            {
+                return; // skip triangles without area: they give invalid Faces
+            }
+            const ocPoints = triangle.map( p => new oc.gp_Pnt_3(p[0], p[1], p[2]));
+            const ocEdges = [0,1,2].map( i => new oc.BRepBuilderAPI_MakeEdge_3(ocPoints[i], ocPoints[(i+1) % 3]).Edge());
+            const ocWire = new oc.BRepBuilderAPI_MakeWire_4(ocEdges[0], ocEdges[1], ocEdges[2]).Wire();
+            const ocFace = new oc.BRepBuilderAPI_MakeFace_15(ocWire, true).Face(); // OnlyPlane = true
+            faces.add(new Face()._fromOcFace(ocFace));
+        });
+
+        console.info(`IO::importSTL: Sewing ${faces.length} triangles. This can take a while for big meshes`);
+        let sewedShapes = new ShapeCollection(faces._sewed());
+        
+        let shapes = new ShapeCollection(sewedShapes.toArray().map( shape => 
+        {
+            // upgrade closed Shells to Solids
+            if (shape.type() === 'Shell' && oc.BRep_Tool.IsClosed_1(shape._ocShape))
+            {
+                shape = (shape as Shell)._toSolid() as AnyShape;
+            }
+            if (unify)
+            {
+                shape._unifyDomain();
+            }
+            return shape;
+        }));
+
+        return (shapes.length === 1) ? shapes.first() : shapes;
+    }
+
+    /** Get triangles [[x,y,z],[x,y,z],[x,y,z]] from binary or ASCII STL content */
+    _parseSTL(content:ArrayBuffer|string):Array<Array<Array<number>>>
+    {
+        /* Binary STL: 80 bytes header, uint32 number of triangles and per triangle 50 bytes: 
+            normal and 3 vertices (12 floats) and an uint16 attribute count 
+        */
+        let triangles = [];
+
+        if (typeof content !== 'string')
+        {
+            const view = new DataView(content);
+            const numTriangles = (content.byteLength >= 84) ? view.getUint32(80, true) : 0;
+
+            if (content.byteLength === 84 + numTriangles * 50)
+            {
+                for (let t = 0; t < numTriangles; t++)
+                {
+                    const offset = 84 + t * 50 + 12; // skip the normal
+                    triangles.push([0,1,2].map( v => [0,1,2].map( c => view.getFloat32(offset + (v * 3 + c) * 4, true))));
+                }
+                return triangles;
+            }
+            // ASCII STL loaded as binary
+            content = new TextDecoder().decode(content);
+        }
+
+        const VERTEX_RE = /vertex\s+([-+\d.eE]+)\s+([-+\d.eE]+)\s+([-+\d.eE]+)/g;
+        const vertices = Array.from(content.matchAll(VERTEX_RE)).map( m => [parseFloat(m[1]), parseFloat(m[2]), parseFloat(m[3])]);
+        for (let v = 0; v + 2 < vertices.length; v += 3)
+        {
+            triangles.push(vertices.slice(v, v + 3));
+        }
+
+        return triangles;
+    }
+
+    _isDegenerateTriangle(triangle:Array<Array<number>>):boolean
+    {
+        const [a,b,c] = triangle;
+        const [u,v] = [b,c].map( p => [p[0]-a[0], p[1]-a[1], p[2]-a[2]]);
+        const cross = [u[1]*v[2]-u[2]*v[1], u[2]*v[0]-u[0]*v[2], u[0]*v[1]-u[1]*v[0]];
+
+        return Math.hypot(...cross) < 1e-12;
+    }
+
+    _importSTL(asset:Asset):AnyShape|ShapeCollection
+    {
+        let shapeOrShapes = this.importSTL(asset.content);
+        shapeOrShapes?.name(this._geom.getNextObjName('ImportedSTL'));
+
+        return shapeOrShapes;
+    }
+
+    /** Import 2D drawing from (ASCII) DXF
+     *  LINE, LWPOLYLINE, ARC, CIRCLE, ELLIPSE and SPLINE become Edges that are joined into Wires where connected
+     *  Every DXF layer becomes a group in the returned ShapeCollection. Blocks (INSERT) are placed with their transformations
+     *  Shapes are scaled from the units in the DXF header to those of Geom
+     *  NOTE: BRepBuilderAPI_GTransform is not in the OC build: curves of blocks that are scaled differently along X and Y 
+     *  become Splines through 37 points (see SHAPE_TRANSFORM_APPROX_NUM_POINTS)
+     */
+    importDXF(content:string):ShapeCollection
+    {
+        if (!this._oc)
+        {
+            throw new Error(`IO::importDXF: Cannot import DXF without reference to geom in constructor!`)
+        }
+
+        const parser = new DXFParser(this._oc).parse(content);
+        const shapes = parser.toShapes(this._geom.units());
+
+        console.info(`IO::importDXF: Imported ${shapes.length} Shapes on layers "${shapes.groups().join('", "')}"`);
+
+        return shapes;
+    }
+
+    _importDXF(asset:Asset):ShapeCollection
+    {
+        let shapes = this.importDXF(asset.content);
+        shapes?.name(this._geom.getNextObjName('ImportedDXF'));
+
+        return shapes;
+    }
+
+    /** Import GeoJSON (Feature, FeatureCollection or Geometry) into a ShapeCollection
+     *  Coordinates are projected from lon/lat to a local plane in the units of Geom around the origin 
+     *  (see setGeoOrigin, default: center of the first imported data). X is east, Y is north and altitude is Z
+     *  Points become Vertices, LineStrings Wires and Polygons (with holes) Faces. Feature properties become Shape attributes
+     */
+    importGeoJSON(content:string|Object):ShapeCollection
+    {
+        let geoJSON:any = content;
+        if (typeof content === 'string')
+        {
+            try 
+            {
+                geoJSON = JSON.parse(content);
+            }
+            catch(e)
+            {
+                console.error(`IO::importGeoJSON: Parse error. Check if valid GeoJSON!`);
+                return null;
+            }
+        }
+
+        const features = (geoJSON?.type === 'FeatureCollection') ? geoJSON.features : 
+                                (geoJSON?.type === 'Feature') ? [geoJSON] : [{ type: 'Feature', geometry: geoJSON, properties: {} }];
+
+        if (!this.geoOrigin)
+        {
+            const coords = features.map( f => this._getGeoJSONCoordinates(f.geometry)).flat();
+            if (coords.length === 0)
+            {
+                console.warn(`IO::importGeoJSON: No coordinates found!`);
+                return new ShapeCollection();
+            }
+            const [lons, lats] = [0,1].map( i => coords.map( c => c[i]));
+            this.geoOrigin = [(Math.min(...lons) + Math.max(...lons)) / 2, (Math.min(...lats) + Math.max(...lats)) / 2];
+            console.info(`IO::importGeoJSON: Set origin of local plane to center of data: [${this.geoOrigin}]. Use setGeoOrigin() to change`);
+        }
+
+        let shapes = new ShapeCollection();
+        features.forEach( feature => 
+        {
+            const featureShapes = this._geoJSONGeometryToShapes(feature?.geometry);
+            const attributes = { ...(feature?.properties || {}), ...((feature?.id !== undefined) ? { id: feature.id } : {}) };
+            featureShapes.forEach( shape => 
+            {
+                shape.attributes = { ...shape.attributes, ...attributes };
+            });
+            shapes.add(featureShapes);
+        });
+
+        return shapes;
+    }
+
+    _geoJSONGeometryToShapes(geometry:any):Array<AnyShape>
+    {
+        if (!geometry)
+        {
+            return [];
+        }
+
+        switch(geometry.type)
+        {
+            case 'Point':
+                return [new Vertex(this._projectGeoCoordinate(geometry.coordinates))];
+            case 'MultiPoint':
+                return geometry.coordinates.map( c => new Vertex(this._projectGeoCoordinate(c)));
+            case 'LineString':
+                return [this._geoJSONLineToWire(geometry.coordinates)].filter( w => w);
+            case 'MultiLineString':
+                return geometry.coordinates.map( line => this._geoJSONLineToWire(line)).filter( w => w);
+            case 'Polygon':
+                return [this._geoJSONPolygonToFace(geometry.coordinates)].filter( f => f);
+            case 'MultiPolygon':
+                return geometry.coordinates.map( rings => this._geoJSONPolygonToFace(rings)).filter( f => f);
+            case 'GeometryCollection':
+                return geometry.geometries.map( g => this._geoJSONGeometryToShapes(g)).flat();
+            default:
+                console.warn(`IO::_geoJSONGeometryToShapes: Skipped unknown geometry type "${geometry.type}"`);
+                return [];
+        }
+    }
+
+    _geoJSONLineToWire(coordinates:Array<Array<number>>, close:boolean=false):Wire
+    {
+        // remove duplicate points (including the closing point of rings): they would create zero length Edges
+        let points = coordinates.map( c => this._projectGeoCoordinate(c))
+                        .filter( (p,i,all) => i === 0 || Math.hypot(p[0] - all[i-1][0], p[1] - all[i-1][1], p[2] - all[i-1][2]) > 0);
+        if (close && points.length > 1 && Math.hypot(...points[0].map((c,i) => c - points[points.length-1][i])) === 0)
+        {
+            points.pop();
+        }
+
+        if (points.length < 2)
+        {
+            console.warn(`IO::_geoJSONLineToWire: Skipped line with less than 2 distinct points`);
+            return null;
+        }
+
+        let wire = new Wire().fromPoints(points);
+        if (close)
+        {
+            wire.close();
+        }
+        return wire;
+    }
+
+    /** Make Face from GeoJSON Polygon: the first ring is the outside, others are holes */
+    _geoJSONPolygonToFace(rings:Array<Array<Array<number>>>):Face
+    {
+        const oc = this._oc;
+        const [outerWire, ...holeWires] = rings.map( ring => this._geoJSONLineToWire(ring, true));
+
+        if (!outerWire)
+        {
+            return null;
+        }
+
+        let ocFaceBuilder = new oc.BRepBuilderAPI_MakeFace_15(outerWire._ocShape, false);
+        holeWires.filter( w => w).forEach( w => ocFaceBuilder.Add(w._ocShape));
+
+        // make sure the holes have the right orientation
+        let ocFaceFixer = new oc.ShapeFix_Face_2(ocFaceBuilder.Face());
+        ocFaceFixer.FixOrientation_1();
+
+        return new Face()._fromOcFace(ocFaceFixer.Face());
+    }
+
+    /** Project [lon,lat,(alt)] to local plane around geoOrigin (equirectangular: accurate for areas of a few kilometers) */
+    _projectGeoCoordinate(coordinate:Array<number>):Array<number>
+    {
+        const [lon, lat, alt] = coordinate;
+        const [originLon, originLat] = this.geoOrigin;
+        const metersToUnits = 1000 / (MODEL_UNITS_TO_MM[this._geom.units()] || 1000);
+        const toRad = Math.PI / 180;
+
+        return [
+            GEO_EARTH_RADIUS * (lon - originLon) * toRad * Math.cos(originLat * toRad) * metersToUnits,
+            GEO_EARTH_RADIUS * (lat - originLat) * toRad * metersToUnits,
+            (alt || 0) * metersToUnits,
+        ];
+    }
+
+    /** Get all [lon,lat] coordinates of GeoJSON geometry */
+    _getGeoJSONCoordinates(geometry:any):Array<Array<number>>
+    {
+        if (!geometry)
+        {
+            return [];
+        }
+        if (geometry.type === 'GeometryCollection')
+        {
+            return geometry.geometries.map( g => this._getGeoJSONCoordinates(g)).flat();
+        }
+
+        const flatten = (coords:any):Array<Array<number>> => (typeof coords[0] === 'number') ? [coords] : coords.map(flatten).flat();
+        return (geometry.coordinates) ? flatten(geometry.coordinates) : [];
+    }
+
+    _importGeoJSON(asset:Asset):ShapeCollection
+    {
+        let shapes = this.importGeoJSON(asset.content);
+        shapes?.name(this._geom.getNextObjName('ImportedGeoJSON'));
+
+        return shapes;
+    }
+
+    /** Import bitmap (PNG, or JPG and GIF in the browser) as heightmap or contours. Image is placed on XY plane from the origin
+     *   - heightmap: gray values become heights of a B-spline Face (white is high) or the top of a relief Solid
+     *   - contour: outlines of regions darker than threshold become closed Wires
+     */
+    async importBitmap(content:ArrayBuffer|Bitmap, options:BitmapImportOptions={}):Promise<AnyShape|ShapeCollection>
+    {
+        if (!this._oc)
+        {
+            throw new Error(`IO::importBitmap: Cannot import bitmap without reference to geom in constructor!`)
+        }
+
+        let parser:BitmapParser;
+        try 
+        {
+            parser = await new BitmapParser().parse(content);
+        }
+        catch(e)
+        {
+            console.error(`IO::importBitmap: Could not decode image: ${e.message}`);
+            return null;
+        }
+
+        const scale = (options.width || parser.bitmap.width) / parser.bitmap.width; // model units per pixel
+
+        return (options.mode === 'contour') ? 
+                    this._bitmapToContours(parser, scale, options) : 
+                    this._bitmapToHeightmap(parser, scale, options);
+    }
+
+    _bitmapToHeightmap(parser:BitmapParser, scale:number, options:BitmapImportOptions):Face|Solid
+    {
+        const oc = this._oc;
+        const { width, height } = parser.bitmap;
+        const [sizeX, sizeY] = [width * scale, height * scale];
+        const maxHeight = options.maxHeight ?? sizeX / 10;
+        const base = (options.solid) ? (options.base ?? maxHeight / 10) : 0;
+        const resolution = Math.max(options.resolution || 32, 2);
+        const [numX, numY] = [width, height].map(n => Math.max(Math.min(n, resolution), 2));
+
+        // points on a regular grid in XY: the rows and columns on the border are straight in XY
+        const ocPoints = new oc.TColgp_Array2OfPnt_2(1, numX, 1, numY);
+        for (let i = 0; i < numX; i++)
+        {
+            for (let j = 0; j < numY; j++)
+            {
+                const gray = parser.grayAt(i / (numX - 1) * width, (1 - j / (numY - 1)) * height); // image rows from the top
+                const z = base + ((options.invert) ? 1 - gray : gray) * maxHeight;
+                ocPoints.SetValue(i + 1, j + 1, new oc.gp_Pnt_3(i / (numX - 1) * sizeX, j / (numY - 1) * sizeY, z));
+            }
+        }
+
+        const ocSurfaceFitter = new oc.GeomAPI_PointsToBSplineSurface_2(ocPoints, 3, 8, oc.GeomAbs_Shape.GeomAbs_C2, maxHeight / 1000); // degree min and max, continuity, tolerance
+        if (!ocSurfaceFitter.IsDone())
+        {
+            console.error(`IO::_bitmapToHeightmap: Could not fit surface. Try a lower resolution`);
+            return null;
+        }
+
+        const ocSurface = new oc.Handle_Geom_Surface_2(ocSurfaceFitter.Surface().get());
+        const face = new Face()._fromOcFace(new oc.BRepBuilderAPI_MakeFace_8(ocSurface, oc.SHAPE_TOLERANCE).Face());
+
+        return (options.solid) ? this._heightmapToSolid(face, sizeX, sizeY) : face;
+    }
+
+    /** Close heightmap Face with vertical sides and a flat bottom on the XY plane */
+    _heightmapToSolid(face:Face, sizeX:number, sizeY:number):Solid
+    {
+        const faces = new ShapeCollection(face);
+        face.edges().forEach( edge => 
+        {
+            const [start, end] = [edge.start(), edge.end()];
+            const [startBottom, endBottom] = [[start.x, start.y, 0], [end.x, end.y, 0]];
+            const sideWire = new Wire().fromEdges([
+                                edge, 
+                                new Edge().makeLine(end, endBottom), 
+                                new Edge().makeLine(endBottom, startBottom), 
+                                new Edge().makeLine(startBottom, start)]);
+            faces.add(new Face().fromWire(sideWire));
+        });
+        faces.add(new Face().makePlaneBetween([0,0,0], [sizeX, sizeY, 0]));
+
+        const shell = faces._sewed();
+        if (shell?.type() !== 'Shell')
+        {
+            console.error(`IO::_heightmapToSolid: Could not close heightmap into a Solid. Try a higher base`);
+            return null;
+        }
+        return (shell as Shell)._toSolid() as Solid;
+    }
+
+    _bitmapToContours(parser:BitmapParser, scale:number, options:BitmapImportOptions):ShapeCollection
+    {
+        const height = parser.bitmap.height;
+        const contours = parser.traceContours(options.threshold ?? 0.5, options.invert, options.tolerance ?? 0.25);
+
+        const wires = new ShapeCollection();
+        contours.forEach( contour => 
+        {
+            // flip Y: bottom left of image at origin. Clamping at the border can give duplicate points
+            const points = contour.map( p => [p[0] * scale, (height - p[1]) * scale, 0])
+                            .filter( (p,i,all) => Math.hypot(p[0] - all[(i + 1) % all.length][0], p[1] - all[(i + 1) % all.length][1]) > 0);
+            if (points.length >= 3)
+            {
+                wires.add(new Wire().fromPoints(points).close());
+            }
+        });
+
+        if (wires.length === 0)
+        {
+            console.warn(`IO::_bitmapToContours: No regions found. Try another threshold or invert`);
+        }
+        return wires;
+    }
+
+    async _importBitmap(asset:Asset, options:BitmapImportOptions={}):Promise<AnyShape|ShapeCollection>
+    {
+        let shapes = await this.importBitmap(asset.content, options);
+        shapes?.name(this._geom.getNextObjName('ImportedBitmap'));
+
+        return shapes;
+    }
+
+    //// FONTS ////
+
+    /** Parse TTF, OTF or WOFF font to get glyph outlines for Geom.Text */
+    importFont(content:ArrayBuffer):FontParser
+    {
+        try {
+            return new FontParser().parse(content);
+        }
+        catch(e)
+        {
+            console.error(`IO::importFont: Could not read font: ${e.message}`);
+            return null;
+        }
+    }
+
+    _importFont(asset:Asset):FontParser
+    {
+        return this.importFont(asset.content);
+    }
+
     _importSVG(asset:Asset)
+    {
+        let shapes = this.importSVG(asset?.content);
+        shapes?.name('importedSVG');
+
+        return shapes;
+    }
+
+    /** Import SVG paths and primitives (rect, circle, ellipse, line, polyline and polygon) 
+     *  Transforms of nodes and groups are applied. Shapes are scaled by viewBox and absolute units (mm, cm, in, pt, pc) of the svg element
+     *  Because the SVG Y-axis points down the drawing is flipped: its bottom left ends up at the origin
+     *  NOTE: BRepBuilderAPI_GTransform is not in the OC build: with transforms that scale differently along X and Y (or skew) 
+     *  curves become Splines through 37 points (see SHAPE_TRANSFORM_APPROX_NUM_POINTS) and Faces throw an Error
+     */
+    importSVG(content:string):ShapeCollection
     {
         // see for overview: https://developer.mozilla.org/en-US/docs/Web/SVG
       
-        if(!asset)
+        if(!content)
         {
-            console.log('IO::_importSVG: Skipped invalid SVG')
+            console.log('IO::importSVG: Skipped invalid SVG')
             return null;
         }
 
         let svgNodesWithTransform;
         try 
         {
-            let svgTree = txml.parse(asset.content);
-            svgNodesWithTransform = this._getSvgNodesRecursive(svgTree); // [{ node: { tagName, attributes }, transform: {x,y}  }]
+            let svgTree = txml.parse(content);
+            const svgRoot = svgTree.find( elem => elem.tagName === 'svg');
+            const rootTransform = (svgRoot) ? this._getSvgRootTransform(svgRoot) : SVG_IDENTITY;
+            svgNodesWithTransform = this._getSvgNodesRecursive((svgRoot) ? [svgRoot] : svgTree, [], rootTransform); // [{ node: { tagName, attributes }, transform: [a,b,c,d,e,f]  }]
         }
         catch(e)
         {
-            console.log(`IO::_importSVG: parse error. Check if valid SVG!`);
+            console.log(`IO::importSVG: parse error. Check if valid SVG!`);
             return null;
         }
 
         if (!this._oc)
         {
-            throw new Error(`IO:_importSVG: Cannot import SVG without reference to geom in constructor!`)
+            throw new Error(`IO:importSVG: Cannot import SVG without reference to geom in constructor!`)
         }
 
         let svgShapeCollection = new ShapeCollection();
-        svgShapeCollection.name('importedSVG');
 
         // parse SVG nodes
         svgNodesWithTransform.forEach( nodeAndTransform => 
         {
             let node = nodeAndTransform.node;
-            let transform = nodeAndTransform.transform;
-            let nodeName = node.tagName;
-            let shapeOrShapes;
+            let shapeOrShapes = this._importSVGNode(node);
 
-            switch(nodeName)
+            if (shapeOrShapes)
             {
-                case 'path':
-                    shapeOrShapes = this._importSVGPath(node.attributes.d, transform);
-                    shapeOrShapes.name(this._geom.getNextObjName('ImportedSVGPath'));
-                    break;
+                // apply all transformations (including the Y flip) in 3D
+                const [a,b,c,d,e,f] = nodeAndTransform.transform;
+                const matrix = [a,c,0,e, b,d,0,f, 0,0,1,0];
+                let transformedShapes = new ShapeCollection(shapeOrShapes).toArray().map( s => s._transformedByMatrix(matrix));
+                let nodeShapes = new ShapeCollection(transformedShapes);
+                const tagName = node.tagName.charAt(0).toUpperCase() + node.tagName.slice(1);
+                nodeShapes.forEach( s => s.name(this._geom.getNextObjName(`ImportedSVG${tagName}`)));
+                svgShapeCollection.add(nodeShapes);
             }
-            svgShapeCollection.add(shapeOrShapes)
         });
 
-        // because SVG has a y-axis that points down we mirror the imcoming shapes
-        //svgShapeCollection = svgShapeCollection._mirroredX(); // mirror around center of ShapeCollection
-
         return svgShapeCollection;
         
     }
 
-    _getSvgNodesRecursive(svgTree, svgNodesWithTransform = [], parentTransform:SvgTransform = { x: 0, y: 0 })
+    /** Make Shapes from SVG node in its own coordinate system */
+    _importSVGNode(node:any):AnyShape|ShapeCollection
+    {
+        const attrs = node.attributes || {};
+        const num = (name:string, defaultValue:number=0) => (attrs[name] !== undefined) ? parseFloat(attrs[name]) : defaultValue;
+
+        switch(node.tagName)
+        {
+            case 'path':
+                return this._importSVGPath(attrs.d);
+            case 'rect':
+                // NOTE: rounded corners (rx, ry) are not supported yet
+                if (num('width') <= 0 || num('height') <= 0){ return null; }
+                return new Wire().fromPoints([[num('x'), num('y')], [num('x') + num('width'), num('y')], 
+                                                [num('x') + num('width'), num('y') + num('height')], [num('x'), num('y') + num('height')]]).close();
+            case 'circle':
+                if (num('r') <= 0){ return null; }
+                return new Edge().makeCircle(num('r'), [num('cx'), num('cy'), 0]);
+            case 'ellipse':
+            {
+                const [rx, ry] = [num('rx'), num('ry')];
+                if (rx <= 0 || ry <= 0){ return null; }
+                // OC needs the major radius first
+                const ocAxis = new this._oc.gp_Ax2_2(new this._oc.gp_Pnt_3(num('cx'), num('cy'), 0), new this._oc.gp_Dir_4(0,0,1), 
+                                    (rx >= ry) ? new this._oc.gp_Dir_4(1,0,0) : new this._oc.gp_Dir_4(0,1,0));
+                const ocEllipse = new this._oc.gp_Elips_2(ocAxis, Math.max(rx,ry), Math.min(rx,ry));
+                return new Edge()._fromOcEdge(new this._oc.BRepBuilderAPI_MakeEdge_12(ocEllipse).Edge());
+            }
+            case 'line':
+                return new Edge().makeLine([num('x1'), num('y1'), 0], [num('x2'), num('y2'), 0]);
+            case 'polyline':
+            case 'polygon':
+            {
+                const coords = (attrs.points || '').trim().split(/[\s,]+/).map( v => parseFloat(v));
+                let points = [];
+                for (let i = 0; i + 1 < coords.length; i += 2)
+                {
+                    points.push([coords[i], coords[i+1], 0]);
+                }
+                if (points.length < 2){ return null; }
+                let wire = new Wire().fromPoints(points);
+                return (node.tagName === 'polygon') ? wire.close() : wire;
+            }
+            default:
+                return null;
+        }
+    }
+
+    _getSvgNodesRecursive(svgTree, svgNodesWithTransform = [], parentTransform:SvgTransform = SVG_IDENTITY)
     {
         /* svgTree structure
             [elem,elem] with elem { tagName, attributes : {}, children: [elem,elem..]}
@@ -272,6 +1289,7 @@ export class IO
             'path',
             'polygon',
             'circle',
+            'ellipse',
             'line',
             'polyline',
             'rect',
@@ -280,41 +1298,141 @@ export class IO
 
         svgTree.forEach(elem => 
         {
-            // traverse deeper
+            if (typeof elem !== 'object')
+            {
+                return; // text content
+            }
+
+            // transforms are composed: parent first
+            const transform = elem.attributes?.transform ? this._multiplySvgTransforms(parentTransform, this._parseTransformString(elem.attributes.transform)) : parentTransform;
+
+            // traverse deeper, but do take transform with
             if (TRAVERSE_DEEPER_TAGS.includes(elem.tagName))
             {
-                // traverse deeper, but do take transform with if in attributes
-                const transform = elem.attributes.transform ? this._parseTransformString(elem.attributes.transform) : parentTransform;
                 svgNodesWithTransform = this._getSvgNodesRecursive(elem.children, svgNodesWithTransform, transform)
             }
             // a valid graphic element
             else if (VALID_SVG_TAGS.includes(elem.tagName))
             {
-                let localNodeTransform = elem.attributes.transform ? this._parseTransformString(elem.attributes.transform) : { x: 0, y: 0 };
-                let nodeTransform = { x : parentTransform.x + localNodeTransform.x, y: parentTransform.y + localNodeTransform.y };
-                svgNodesWithTransform.push( { node: elem, transform: nodeTransform })
+                svgNodesWithTransform.push( { node: elem, transform: transform })
             }
         })
 
         return svgNodesWithTransform;
     }
 
-    _parseTransformString(t:string)
+    /** Transform from root svg element to model: viewBox, units and Y flip */
+    _getSvgRootTransform(svgRoot:any):SvgTransform
     {
-        const PARSE_RE = /translate\(([-\d\.]+),([-\d\.]+)/
-        let m = t.match(PARSE_RE);
-        return m ? { x: parseFloat(m[1]), y: parseFloat(m[2]) } : null;
+        const attrs = svgRoot.attributes || {};
+        const viewBox = (attrs.viewBox) ? attrs.viewBox.trim().split(/[\s,]+/).map( v => parseFloat(v)) : null;
+        const [width, widthUnit] = this._parseSvgLength(attrs.width);
+        const [height, heightUnit] = this._parseSvgLength(attrs.height);
+
+        // viewport size in user units of the viewBox when not given
+        const viewportWidth = width ?? viewBox?.[2];
+        const viewportHeight = height ?? viewBox?.[3];
+
+        let transform = SVG_IDENTITY;
+        if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0)
+        {
+            // default preserveAspectRatio: scale uniformly and center (xMidYMid meet)
+            const scale = Math.min(viewportWidth / viewBox[2], viewportHeight / viewBox[3]);
+            transform = [scale, 0, 0, scale, 
+                            -viewBox[0] * scale + (viewportWidth - viewBox[2] * scale) / 2, 
+                            -viewBox[1] * scale + (viewportHeight - viewBox[3] * scale) / 2];
+        }
+
+        // absolute units to model units
+        const unit = widthUnit || heightUnit;
+        const unitScale = (SVG_UNITS_TO_MM[unit]) ? SVG_UNITS_TO_MM[unit] / (MODEL_UNITS_TO_MM[this._geom.units()] || 1) : 1;
+        
+        // flip Y axis around the middle of the viewport (or the X axis if unknown)
+        const flip = [unitScale, 0, 0, -unitScale, 0, (viewportHeight || 0) * unitScale];
+
+        return this._multiplySvgTransforms(flip, transform);
+    }
+
+    /** Parse SVG length like '100mm' into [value,unit]. Returns [null,null] if not given or a percentage */
+    _parseSvgLength(length:string):[number, string]
+    {
+        const m = (length || '').trim().match(/^([-+\d.eE]+)\s*([a-z]*)$/);
+        return (m) ? [parseFloat(m[1]), m[2] || null] : [null, null];
     }
 
-    _importSVGPath(pathData:string, transform:SvgTransform = { x : 0, y: 0}):AnyShape|ShapeCollection
+    /** Parse the transform attribute: a list of matrix, translate, scale, rotate, skewX and skewY functions */
+    _parseTransformString(t:string):SvgTransform
+    {
+        const PARSE_RE = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+        const toRad = (deg:number) => deg * Math.PI / 180;
+
+        let transform = SVG_IDENTITY;
+        for (const m of Array.from(t.matchAll(PARSE_RE)))
+        {
+            const args = m[2].trim().split(/[\s,]+/).filter( v => v.length).map( v => parseFloat(v));
+            let fnTransform:SvgTransform;
+
+            switch(m[1])
+            {
+                case 'matrix':
+                    fnTransform = (args.length === 6) ? args : SVG_IDENTITY;
+                    break;
+                case 'translate':
+                    fnTransform = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+                    break;
+                case 'scale':
+                    fnTransform = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+                    break;
+                case 'rotate':
+                {
+                    // rotate(angle cx cy) rotates around given point
+                    const [cos, sin] = [Math.cos(toRad(args[0] || 0)), Math.sin(toRad(args[0] || 0))];
+                    const [cx, cy] = [args[1] || 0, args[2] || 0];
+                    fnTransform = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+                    break;
+                }
+                case 'skewX':
+                    fnTransform = [1, 0, Math.tan(toRad(args[0] || 0)), 1, 0, 0];
+                    break;
+                case 'skewY':
+                    fnTransform = [1, Math.tan(toRad(args[0] || 0)), 0, 1, 0, 0];
+                    break;
+            }
+            transform = this._multiplySvgTransforms(transform, fnTransform);
+        }
+
+        return transform;
+    }
+
+    _multiplySvgTransforms(m:SvgTransform, n:SvgTransform):SvgTransform
+    {
+        return [
+            m[0] * n[0] + m[2] * n[1],
+            m[1] * n[0] + m[3] * n[1],
+            m[0] * n[2] + m[2] * n[3],
+            m[1] * n[2] + m[3] * n[3],
+            m[0] * n[4] + m[2] * n[5] + m[4],
+            m[1] * n[4] + m[3] * n[5] + m[5],
+        ];
+    }
+
+    /** Make Shapes from SVG Path data (in its own coordinate system) */
+    _importSVGPath(pathData:string):AnyShape|ShapeCollection
     {
         // path command to sketch command
         const PATH_CMD_TO_SKETCH_CMD = {
-            'moveto' : { func: 'moveTo', args: (cmd) => [ [cmd.x + transform.x, cmd.y + transform.y]] },
-            'lineto' : { func: 'lineTo', args: (cmd) => [ [cmd.x + transform.x, cmd.y + transform.y]] },
+            'moveto' : { func: 'moveTo', args: (cmd) => [ [cmd.x, cmd.y]] },
+            'lineto' : { func: 'lineTo', args: (cmd) => [ [cmd.x, cmd.y]] },
+            'horizontal lineto' : { func: 'lineTo', args: (cmd) => [ [cmd.x, cmd.y]] }, // absolute commands have both x and y
+            'vertical lineto' : { func: 'lineTo', args: (cmd) => [ [cmd.x, cmd.y]] },
             'closepath' : { func: 'close', args: (cmd) => [] },
         }
 
+        if (!pathData)
+        {
+            return null;
+        }
+
         let commands = parseSVG(pathData);
 
         let absCommands = makeAbsolute(commands);
@@ -0,0 +1,492 @@
+/** IOCaches.ts
+ *
+ *  Cache of raw asset content loaded by IO, so repeated loads (also across runs and workers) don't have to fetch again
+ *
+ *   - AssetCache: content hashes, size limit with eviction of least recently used entries
+ *   - MemoryCache: backend that keeps entries in a map in memory (default)
+ *   - IndexedDBCache: backend that keeps entries in IndexedDB (browser)
+ *   - DiskCache: backend that keeps entries as files in a directory (Node)
+ */
+
+import { AssetCacheEntry, AssetCacheBackend, IO_CACHE_MAX_SIZE } from './internal'
+
+import SparkMD5 from 'spark-md5'
+
+/** Keeps raw content of assets in a backend, within a maximum size */
+export class AssetCache
+{
+    backend:AssetCacheBackend;
+    maxSize:number; // in bytes. null for no limit
+    onEvict:(key:string) => void = null; // called for every entry that is removed by eviction
+
+    _index:Map<string, AssetCacheEntry> = null; // entries without content, ordered by last access
+    _indexLoading:Promise<Map<string, AssetCacheEntry>> = null;
+
+    constructor(backend?:AssetCacheBackend, maxSize:number=IO_CACHE_MAX_SIZE)
+    {
+        this.backend = backend || new MemoryCache();
+        this.maxSize = maxSize;
+    }
+
+    /** Get entry with content, or null. Entries of which the content does not match its hash are removed */
+    async get(key:string):Promise<AssetCacheEntry>
+    {
+        const index = await this._getIndex();
+        const entry = await this.backend.get(key);
+
+        if (!entry)
+        {
+            index.delete(key);
+            return null;
+        }
+
+        if (hashContent(entry.content) !== entry.hash)
+        {
+            console.warn(`AssetCache::get: Content of "${key.slice(0,100)}" does not match its hash. Removed it from cache`);
+            await this.delete(key);
+            return null;
+        }
+
+        if (!index.has(key))
+        {
+            index.set(key, { ...entry, content: undefined }); // added by another process
+        }
+        await this.touch(key);
+        return { ...entry, lastAccess: index.get(key).lastAccess };
+    }
+
+    /** Save content under key and evict least recently used entries if cache is full */
+    async set(key:string, content:ArrayBuffer|string, format:string, etag?:string):Promise<AssetCacheEntry>
+    {
+        const index = await this._getIndex();
+        const size = getContentSize(content);
+
+        if (this.maxSize != null && size > this.maxSize)
+        {
+            console.warn(`AssetCache::set: Did not cache "${key.slice(0,100)}" because its size (${size} bytes) is larger than the maximum size of the cache (${this.maxSize} bytes)`);
+            return null;
+        }
+
+        const hash = hashContent(content);
+        const existing = index.get(key);
+        if (existing?.hash === hash && existing?.etag === (etag || null))
+        {
+            await this.touch(key); // same content: no need to write again
+            return existing;
+        }
+
+        const now = Date.now();
+        const entry:AssetCacheEntry = {
+            key: key,
+            hash: hash,
+            size: size,
+            format: format,
+            etag: etag || null,
+            created: now,
+            lastAccess: now,
+        }
+
+        index.delete(key); // place at end of access order
+        index.set(key, entry);
+        await this.backend.set({ ...entry, content: content });
+        await this._evict();
+
+        return entry;
+    }
+
+    /** Mark entry as recently used */
+    async touch(key:string)
+    {
+        const index = await this._getIndex();
+        const entry = index.get(key);
+
+        if (entry)
+        {
+            entry.lastAccess = Math.max(Date.now(), entry.lastAccess + 1); // keep order strict with quick successive calls
+            index.delete(key);
+            index.set(key, entry);
+            await this.backend.touch(key, entry.lastAccess);
+        }
+    }
+
+    has(key:string):boolean
+    {
+        return this._index?.has(key) || false;
+    }
+
+    async delete(key:string)
+    {
+        const index = await this._getIndex();
+        index.delete(key);
+        await this.backend.delete(key);
+    }
+
+    async clear()
+    {
+        const index = await this._getIndex();
+        index.clear();
+        await this.backend.clear();
+    }
+
+    /** Total size of cached content in bytes */
+    async size():Promise<number>
+    {
+        const index = await this._getIndex();
+        let size = 0;
+        index.forEach(entry => size += entry.size);
+
+        return size;
+    }
+
+    /** Load index of entries from backend once, for example when the cache persists across runs */
+    async _getIndex():Promise<Map<string, AssetCacheEntry>>
+    {
+        if (this._index)
+        {
+            return this._index;
+        }
+
+        if (!this._indexLoading)
+        {
+            this._indexLoading = this.backend.list().then(entries =>
+            {
+                this._index = new Map();
+                entries
+                    .sort((a,b) => a.lastAccess - b.lastAccess)
+                    .forEach(entry => this._index.set(entry.key, entry));
+                return this._index;
+            });
+        }
+
+        return this._indexLoading;
+    }
+
+    /** Remove least recently used entries until total size is within max size
+     *  NOTE: Entries added by other processes after loading the index are only known when requested
+     */
+    async _evict()
+    {
+        if (this.maxSize == null)
+        {
+            return;
+        }
+
+        const index = await this._getIndex();
+        let size = await this.size();
+
+        for (const [key, entry] of Array.from(index.entries())) // Map is in order of access
+        {
+            if (size <= this.maxSize)
+            {
+                break;
+            }
+            size -= entry.size;
+            await this.delete(key);
+
+            if (this.onEvict)
+            {
+                this.onEvict(key);
+            }
+        }
+    }
+}
+
+/** Keep entries in memory: fast, but lost when the process ends */
+export class MemoryCache implements AssetCacheBackend
+{
+    entries:Map<string, AssetCacheEntry> = new Map();
+
+    async get(key:string):Promise<AssetCacheEntry>
+    {
+        return this.entries.get(key) || null;
+    }
+
+    async set(entry:AssetCacheEntry)
+    {
+        this.entries.set(entry.key, entry);
+    }
+
+    async touch(key:string, lastAccess:number)
+    {
+        const entry = this.entries.get(key);
+        if (entry)
+        {
+            entry.lastAccess = lastAccess;
+        }
+    }
+
+    async delete(key:string)
+    {
+        this.entries.delete(key);
+    }
+
+    async list():Promise<Array<AssetCacheEntry>>
+    {
+        return Array.from(this.entries.values()).map(entry => ({ ...entry, content: undefined }));
+    }
+
+    async clear()
+    {
+        this.entries.clear();
+    }
+}
+
+/** Keep entries in IndexedDB of the browser (also available in WebWorkers)
+ *  Info and content of entries are kept in separate stores so listing does not load all content
+ */
+export class IndexedDBCache implements AssetCacheBackend
+{
+    dbName:string;
+    _db:Promise<IDBDatabase> = null;
+
+    constructor(dbName:string='archiyou-assets')
+    {
+        if (typeof indexedDB === 'undefined')
+        {
+            throw new Error(`IndexedDBCache::constructor: IndexedDB is not available in this environment. Use MemoryCache or DiskCache`);
+        }
+        this.dbName = dbName;
+    }
+
+    async get(key:string):Promise<AssetCacheEntry>
+    {
+        const [entry, content] = await this._transaction('readonly', (infoStore, contentStore) => [infoStore.get(key), contentStore.get(key)]);
+        return (entry && content !== undefined) ? { ...entry, content: content } : null;
+    }
+
+    async set(entry:AssetCacheEntry)
+    {
+        const { content, ...info } = entry;
+        await this._transaction('readwrite', (infoStore, contentStore) => [infoStore.put(info), contentStore.put(content, entry.key)]);
+    }
+
+    async touch(key:string, lastAccess:number)
+    {
+        const [entry] = await this._transaction('readonly', (infoStore) => [infoStore.get(key)]);
+        if (entry)
+        {
+            await this._transaction('readwrite', (infoStore) => [infoStore.put({ ...entry, lastAccess: lastAccess })]);
+        }
+    }
+
+    async delete(key:string)
+    {
+        await this._transaction('readwrite', (infoStore, contentStore) => [infoStore.delete(key), contentStore.delete(key)]);
+    }
+
+    async list():Promise<Array<AssetCacheEntry>>
+    {
+        const [entries] = await this._transaction('readonly', (infoStore) => [infoStore.getAll()]);
+        return entries || [];
+    }
+
+    async clear()
+    {
+        await this._transaction('readwrite', (infoStore, contentStore) => [infoStore.clear(), contentStore.clear()]);
+    }
+
+    _open():Promise<IDBDatabase>
+    {
+        if (!this._db)
+        {
+            this._db = new Promise((resolve, reject) =>
+            {
+                const request = indexedDB.open(this.dbName, 1);
+                request.onupgradeneeded = () =>
+                {
+                    request.result.createObjectStore('info', { keyPath: 'key' });
+                    request.result.createObjectStore('content');
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(new Error(`IndexedDBCache::_open: Could not open database "${this.dbName}": ${request.error}`));
+            });
+        }
+        return this._db;
+    }
+
+    /** Run requests in one transaction over both stores and return their results when done */
+    async _transaction(mode:IDBTransactionMode, makeRequests:(infoStore:IDBObjectStore, contentStore:IDBObjectStore) => Array<IDBRequest>):Promise<Array<any>>
+    {
+        const db = await this._open();
+        const transaction = db.transaction(['info', 'content'], mode);
+        const requests = makeRequests(transaction.objectStore('info'), transaction.objectStore('content'));
+
+        return new Promise((resolve, reject) =>
+        {
+            transaction.oncomplete = () => resolve(requests.map(r => r.result));
+            transaction.onerror = () => reject(new Error(`IndexedDBCache::_transaction: ${transaction.error}`));
+        });
+    }
+}
+
+/** Keep entries as files in a directory on disk (Node only), for example shared by compute workers
+ *  Every entry has a content file and an info file. Files are written to a temporary file first and then renamed,
+ *  so other processes never read partially written entries
+ */
+export class DiskCache implements AssetCacheBackend
+{
+    directory:string;
+
+    constructor(directory:string='.archiyou-cache')
+    {
+        this.directory = directory;
+    }
+
+    async get(key:string):Promise<AssetCacheEntry>
+    {
+        const { fs } = await this._libs();
+        const info = await this._readInfo(this._getFileName(key));
+
+        if (!info || info.key !== key)
+        {
+            return null;
+        }
+
+        try
+        {
+            const buffer = await fs.readFile(this._getPath(key, 'data'));
+            const content = (info.binary) ? buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) : buffer.toString('utf8');
+            delete info.binary;
+
+            return { ...info, content: content };
+        }
+        catch(e)
+        {
+            return null; // removed in the meantime
+        }
+    }
+
+    async set(entry:AssetCacheEntry)
+    {
+        const { content, ...info } = entry;
+        const binary = typeof content !== 'string';
+
+        // content first: an entry only exists when its info file does
+        await this._writeFile(this._getPath(entry.key, 'data'), binary ? new Uint8Array(content as ArrayBuffer) : content);
+        await this._writeFile(this._getPath(entry.key, 'json'), JSON.stringify({ ...info, binary: binary }));
+    }
+
+    async touch(key:string, lastAccess:number)
+    {
+        const info = await this._readInfo(this._getFileName(key));
+        if (info && info.key === key)
+        {
+            await this._writeFile(this._getPath(key, 'json'), JSON.stringify({ ...info, lastAccess: lastAccess }));
+        }
+    }
+
+    async delete(key:string)
+    {
+        const { fs } = await this._libs();
+        // info first: then the entry does not exist anymore for other processes
+        await fs.rm(this._getPath(key, 'json'), { force: true });
+        await fs.rm(this._getPath(key, 'data'), { force: true });
+    }
+
+    async list():Promise<Array<AssetCacheEntry>>
+    {
+        const { fs } = await this._libs();
+        let fileNames:Array<string> = [];
+
+        try
+        {
+            fileNames = await fs.readdir(this.directory);
+        }
+        catch(e)
+        {
+            return []; // directory not created yet
+        }
+
+        const entries = [];
+        for (const fileName of fileNames.filter(f => f.endsWith('.json')))
+        {
+            const info = await this._readInfo(fileName.replace(/\.json$/, ''));
+            if (info)
+            {
+                delete info.binary;
+                entries.push(info);
+            }
+        }
+
+        return entries;
+    }
+
+    async clear()
+    {
+        const { fs } = await this._libs();
+        await fs.rm(this.directory, { recursive: true, force: true });
+    }
+
+    /** Keys can be long urls or data URIs: name files by a hash of the key */
+    _getFileName(key:string):string
+    {
+        return hashString(key);
+    }
+
+    _getPath(key:string, ext:'json'|'data'):string
+    {
+        return `${this.directory}/${this._getFileName(key)}.${ext}`;
+    }
+
+    async _readInfo(fileName:string):Promise<AssetCacheEntry & { binary?:boolean }>
+    {
+        const { fs } = await this._libs();
+        try
+        {
+            return JSON.parse(await fs.readFile(`${this.directory}/${fileName}.json`, 'utf8'));
+        }
+        catch(e)
+        {
+            return null; // not found or written by another process in the meantime
+        }
+    }
+
+    async _writeFile(filePath:string, content:Uint8Array|string)
+    {
+        const { fs } = await this._libs();
+        const tmpPath = `${filePath}.${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(tmpPath, content);
+        await fs.rename(tmpPath, filePath);
+    }
+
+    async _libs()
+    {
+        // NOTE: dynamic import with variable to keep browser bundlers from resolving Node modules
+        const fsLib = 'fs/promises';
+        return { fs: await import(fsLib) };
+    }
+}
+
+//// UTILS ////
+
+function getContentSize(content:ArrayBuffer|string):number
+{
+    return (typeof content === 'string') ? new TextEncoder().encode(content).byteLength : content.byteLength;
+}
+
+/** MD5 of the (UTF-8) bytes of content: the same in every runtime, so entries can be shared between browser and Node */
+function hashContent(content:ArrayBuffer|string):string
+{
+    const bytes = (typeof content === 'string') ? new TextEncoder().encode(content) : new Uint8Array(content);
+    return SparkMD5.ArrayBuffer.hash(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+}
+
+/** 53-bit hash (cyrb53) as hex string. See: https://github.com/bryc/code/blob/master/jshash/experimental/cyrb53.js */
+function hashString(input:string):string
+{
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+
+    for (let i = 0; i < input.length; i++)
+    {
+        const c = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ c, 2654435761);
+        h2 = Math.imul(h2 ^ c, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
@@ -0,0 +1,122 @@
+import { MeshShape } from './internal'
+
+/* Docs:
+    - OBJ format: https://paulbourke.net/dataformats/obj/
+    - MTL format: https://paulbourke.net/dataformats/mtl/
+*/
+
+export class OBJBuilder
+{
+    name:string; // base name of the files
+    groups:Array<string> = []; // OBJ lines per group
+    materials:Array<string> = []; // MTL lines per material
+    _materialNames:Array<string> = []; // Objs can have the same name: material names need to be unique
+
+    _numVertices:number = 0; // OBJ indices are global over the whole file
+    _numNormals:number = 0;
+
+    constructor(name:string)
+    {
+        this.name = name;
+    }
+
+    /** Add mesh data of Shapes as one OBJ group with its own material */
+    addGroup(name:string, meshShapes:Array<MeshShape>, color?:number, opacity?:number):OBJBuilder
+    {
+        const DEFAULT_COLOR = 0x333333;
+
+        const groupName = this._cleanName(name);
+        const materialName = this._uniqueMaterialName(groupName);
+        let lines:Array<string> = [`o ${groupName}`, `g ${groupName}`, `usemtl ${materialName}`];
+
+        let numTriangles = 0;
+        meshShapes.forEach( meshShape => 
+        {
+            meshShape.faces.forEach( faceMesh => 
+            {
+                const firstVertexIndex = this._numVertices + 1; // NOTE: OBJ index starts at 1
+                const firstNormalIndex = this._numNormals + 1;
+                const numFaceVertices = faceMesh.vertices.length/3;
+                const hasNormals = faceMesh.normals?.length === faceMesh.vertices.length;
+                
+                for(let v = 0; v < numFaceVertices; v++)
+                {
+                    lines.push(`v ${faceMesh.vertices.slice(v*3, v*3+3).map( c => this._formatNumber(c)).join(' ')}`);
+                    if(hasNormals)
+                    {
+                        lines.push(`vn ${faceMesh.normals.slice(v*3, v*3+3).map( c => this._formatNumber(c)).join(' ')}`);
+                    }
+                }
+
+                for(let t = 0; t < faceMesh.triangleIndices.length; t += 3)
+                {
+                    // every vertex of the Face has its own normal: use vertex//normal index pairs
+                    const faceIndices = faceMesh.triangleIndices.slice(t, t+3);
+                    lines.push('f ' + faceIndices.map( i => (hasNormals) ? `${i + firstVertexIndex}//${i + firstNormalIndex}` : `${i + firstVertexIndex}`).join(' '));
+                }
+
+                this._numVertices += numFaceVertices;
+                this._numNormals += (hasNormals) ? numFaceVertices : 0;
+                numTriangles += faceMesh.numTriangles;
+            });
+        });
+
+        if(numTriangles === 0)
+        {
+            console.warn(`OBJBuilder::addGroup: Group "${name}" has no triangles. Skipped!`);
+            return this;
+        }
+
+        this.groups.push(lines.join('\n'));
+        this._materialNames.push(materialName);
+
+        // material
+        const [r,g,b] = [16,8,0].map( shift => ((((typeof color === 'number') ? color : DEFAULT_COLOR) >> shift) & 0xFF) / 255);
+        this.materials.push([
+            `newmtl ${materialName}`,
+            `Ka 0 0 0`,
+            `Kd ${[r,g,b].map( c => this._formatNumber(c)).join(' ')}`,
+            `Ks 0 0 0`,
+            `d ${this._formatNumber((typeof opacity === 'number') ? opacity : 1.0)}`,
+            `illum 1`,
+        ].join('\n'));
+
+        return this;
+    }
+
+    /** Output OBJ and MTL files */
+    toFiles():{[filename:string]:string}
+    {
+        const objFilename = `${this.name}.obj`;
+        const mtlFilename = `${this.name}.mtl`;
+
+        return {
+            [objFilename] : ['# Archiyou OBJ export', `mtllib ${mtlFilename}`, ...this.groups].join('\n') + '\n',
+            [mtlFilename] : ['# Archiyou MTL export', ...this.materials].join('\n\n') + '\n',
+        }
+    }
+
+    //// UTILS ////
+
+    /** OBJ names can't contain whitespace */
+    _cleanName(name:string):string
+    {
+        return (name || 'obj').replace(/\s+/g, '_');
+    }
+
+    /** Add a number to names of materials that are already used (ie. box, box_2, box_3) */
+    _uniqueMaterialName(name:string):string
+    {
+        let uniqueName = name;
+        for (let n = 2; this._materialNames.includes(uniqueName); n++)
+        {
+            uniqueName = `${name}_${n}`;
+        }
+        return uniqueName;
+    }
+
+    _formatNumber(n:number):string
+    {
+        return (Math.round(n * 1e6) / 1e6).toString();
+    }
+}
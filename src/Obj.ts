@@ -16,7 +16,7 @@ import { v4 as uuidv4 } from 'uuid' // fix TS warning with @types/uuid
 import { MeshShape, MeshShapeBuffer } from './internal' // ExportModels.MeshShape
 import { SceneGraphNode, SceneGraphNodeDetails, BaseStyle, ObjStyle } from './internal' // InternalModels
 import { isNumeric, ColorHexToInt } from './internal'
-import { PointLike, isPointLike, AnyShapeOrCollection, MeshingQualitySettings } from './internal';
+import { PointLike, isPointLike, AnyShapeOrCollection, MeshingQualitySettings, Material } from './internal';
 
 
 export class Obj
@@ -33,6 +33,7 @@ export class Obj
     _isLayer:boolean = false;
     _visible:boolean = true;
     _style:ObjStyle = null;
+    _material:string = null; // name of Material in registry of Geom
     
     _shapes:ShapeCollection = new ShapeCollection(); // one or more Shapes: ShapeCollection offers the same API as Shape
     _parent:Obj = null; // parent Obj of this Obj instance
@@ -85,10 +86,14 @@ export class Obj
         return this.style( { color: newColor });
     }
 
-    /** Get current Obj color or the one that is defined by one of the parents up the hierarchy */
+    /** Get current Obj color, the color of its Material or the one that is defined by one of the parents up the hierarchy */
     getColor():number
     {
         let foundColor = (this._style && this._style.fill) ? this._style.fill.color: null;
+        if (!foundColor)
+        {
+            foundColor = this._getMaterialColor();
+        }
 
         if (!foundColor)
         {
@@ -115,6 +120,34 @@ export class Obj
         
     }
 
+    /** Set Material by name (see Geom.material()). Its color is used if this Obj has no color of its own (see getColor()) */
+    material(name:string):Obj
+    {
+        const material = this._geom.material(name);
+        if (material)
+        {
+            this._material = material.name;
+        }
+        return this;
+    }
+
+    /** Color of the Material set on this Obj itself (null if none) */
+    _getMaterialColor():number
+    {
+        const materialColor = (this._material) ? this._geom.material(this._material)?.color : null;
+        return (materialColor !== null && materialColor !== undefined && chroma.valid(materialColor)) ? chroma(materialColor).num() : null;
+    }
+
+    /** Get Material of this Obj or the one that is defined by one of the parents up the hierarchy */
+    getMaterial():Material
+    {
+        if (this._material)
+        {
+            return this._geom.material(this._material);
+        }
+        return (this._parent) ? this._parent.getMaterial() : null;
+    }
+
     /** set Lines dashed */
     dashed()
     {
@@ -519,6 +552,7 @@ export class Obj
             visible : this._visible,
             style : this._style,
             color: (this._style) ? (this._style as any).color : null, // TODO
+            material: this._material,
             parentId: ( this._parent ) ? this._parent._id : null,
             childrenIds: ( this._children ) ? this._children.map(child => child._id) : [],
             shapeIds : [] // TODO
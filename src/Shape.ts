@@ -13,7 +13,7 @@
 
 import { MESHING_MAX_DEVIATION, MESHING_ANGULAR_DEFLECTION, MESHING_MINIMUM_POINTS, MESHING_TOLERANCE, MESHING_EDGE_MIN_LENGTH, 
             DEFAULT_WORKPLANE, SHAPE_ARRAY_DEFAULT_OFFSET, SHAPE_EXTRUDE_DEFAULT_AMOUNT, SHAPE_SWEEP_DEFAULT_SOLID,
-            SHAPE_SWEEP_DEFAULT_AUTOROTATE, SHAPE_SCALE_DEFAULT_FACTOR, SHAPE_ALIGNMENT_DEFAULT, SHAPE_SHELL_AMOUNT} from './internal'
+            SHAPE_SWEEP_DEFAULT_AUTOROTATE, SHAPE_SCALE_DEFAULT_FACTOR, SHAPE_ALIGNMENT_DEFAULT, SHAPE_SHELL_AMOUNT, SHAPE_TRANSFORM_APPROX_NUM_POINTS} from './internal'
 import { isPointLike, SelectionString, isSelectionString, CoordArray, isAnyShape,isAnyShapeOrCollection,isColorInput,isPivot,isAxis,isMainAxis,isAnyShapeCollection, isPointLikeOrAnyShapeOrCollection,isLinearShape, isSide} from './internal' // types
 import { PointLike,PointLikeOrAnyShape,Coord,AnyShape,AnyShapeOrCollection,ColorInput,Pivot,Axis,MainAxis,AnyShapeCollection,PointLikeOrAnyShapeOrCollection,LinearShape, ShapeType, Side } from './internal' // types
 import { Obj, Vector, Point, Bbox, Vertex, Edge, Wire, Face, Shell, Solid, ShapeCollection } from './internal'
@@ -23,16 +23,29 @@ import { ShapeAttributes, isShapeAttributes } from './internal' // attributes
 import { ObjStyle } from './internal'
 import { MeshShape, FaceMesh, EdgeMesh, VertexMesh } from './internal' // see: ExportModels
 import { Selector } from './internal' // see: Selectors
-import { toRad, isNumeric, roundToTolerance } from './internal' // utils
+import { toRad, isNumeric, roundToTolerance, symmetricEigen3 } from './internal' // utils
 import { checkInput, addResultShapesToScene, protectOC } from './decorators'; // Import directly to avoid error in ts-node
 import { Alignment, isAlignment, isShapeType, AnyShapeOrCollectionOrSelectionString, MeshingQualitySettings} from './internal'
 import { Obbox } from './internal'
+import { Material, MassProperties, MODEL_UNITS_TO_MM } from './internal'
+import { ShapeDiagnostic, ShapeDiagnosticKind, SHAPE_VALIDATE_SMALL_EDGE_LENGTH, SHAPE_VALIDATE_MAX_TOLERANCE } from './internal'
+import { HolePositions } from './internal'
 
 // this can disable TS errors when subclasses are not initialized yet
 type IVertex = Vertex
 type IEdge = Edge
 type ISolid = Solid
 type IWire = Wire
+
+const DIAGNOSTIC_KIND_TO_FIXES:{[key:string]:Array<string>} = {
+    'self-intersection': ['Make sure Wires do not cross themselves before making Faces, extruding or lofting', 'Split the Shape into parts that do not intersect'],
+    'orientation': ['Run checkAndFix() to fix the orientation of Faces and Wires', 'Rebuild the Shell from its Faces'],
+    'open': ['Close gaps so every Edge is shared by two Faces', 'Sew the Faces into a Shell before making a Solid'],
+    'small-edge': ['Remove or merge tiny Edges, for example by rebuilding the Wire', 'Avoid fillets and chamfers that leave slivers'],
+    'tolerance': ['Run checkAndFix() to update tolerances', 'Keep coordinates in a sensible range for the model units'],
+    'geometry': ['Run checkAndFix() to rebuild missing or invalid curves', 'Recreate the Shape from simpler geometry'],
+    'topology': ['Remove duplicate Edges, Wires or Faces', 'Run checkAndFix()'],
+}
  
 export class Shape
 {
@@ -119,7 +132,7 @@ export class Shape
     attribute(key?:string, value?:any):any|AnyShape
     {
         // NOTE: this is an awkward repetition of these attributes (see typeguards): TODO: better
-        const SHAPE_ATTRIBUTE_KEYS = ['hidden','outline', 'visible'];
+        const SHAPE_ATTRIBUTE_KEYS = ['hidden','outline', 'visible', 'holes'];
 
         // getter
         if (typeof key === 'string' && value === undefined)
@@ -527,6 +540,158 @@ export class Shape
         }
     }
 
+    /** Check Shape and its sub-Shapes with BRepCheck_Analyzer and for small Edges, large tolerances and free Edges of Solids and Shells
+     *  If invalid, self-intersecting or unconnected Wires and badly oriented Faces and Solids are found with ShapeAnalysis
+     *  Returns diagnostics with the offending sub-Shape, kind of error and suggested fixes (empty if valid)
+     *  With report the diagnostics are sent to the console as errors
+     */
+    validate(report:boolean=true):Array<ShapeDiagnostic>
+    {
+        // OC docs: https://dev.opencascade.org/doc/refman/html/class_b_rep_check___analyzer.html
+        const SUB_SHAPES = { Solid: () => this.solids(), Shell: () => this.shells(), Face: () => this.faces(), 
+                                Wire: () => this.wires(), Edge: () => this.edges(), Vertex: () => this.vertices() };
+        const BRep_Tool = this._oc.BRep_Tool.prototype.constructor;
+
+        const diagnostics:Array<ShapeDiagnostic> = [];
+        const addDiagnostic = (status:string, kind:ShapeDiagnosticKind, shape:AnyShape, index:number) =>
+        {
+            const location = (index === null) ? shape.type() : `${shape.type()} ${index}`;
+            diagnostics.push({ kind: kind, status: status, shape: shape, index: index, 
+                               message: `${location} of ${this.type()}: ${status} (${kind})`, fixes: DIAGNOSTIC_KIND_TO_FIXES[kind] });
+        }
+
+        const ocAnalyzer = new this._oc.BRepCheck_Analyzer(this._ocShape, true, false);
+        const analyzerValid = ocAnalyzer.IsValid_2();
+        ocAnalyzer.delete();
+
+        if (!analyzerValid)
+        {
+            // NOTE: the BRepCheck statuses are not bound in the OC build: find the common causes with ShapeAnalysis
+            this._checkFaceWires(addDiagnostic);
+            this._checkShellOrientations(addDiagnostic);
+            this.solids().forEach((solid:AnyShape, index:number) => 
+            {
+                if (solid._toOcGProps().Mass() < 0) // volume of an inside-out Solid is negative
+                {
+                    addDiagnostic('BadOrientation', 'orientation', solid, index);
+                }
+            });
+        }
+
+        Object.entries(SUB_SHAPES).forEach(([type, getSubShapes]) => 
+        {
+            getSubShapes().toArray().forEach((subShape:AnyShape, index:number) =>
+            {
+                if (!analyzerValid && !diagnostics.some(d => d.shape.same(subShape)) && !this._checkSubShapeValid(subShape))
+                {
+                    // we only know that this sub-Shape is invalid, not why
+                    addDiagnostic('CheckFail', 'topology', subShape, index);
+                }
+                if (type === 'Edge' && !BRep_Tool.Degenerated(subShape._ocShape)) // degenerated Edges like at poles of spheres have no length
+                {
+                    if (subShape.length() < SHAPE_VALIDATE_SMALL_EDGE_LENGTH)
+                    {
+                        addDiagnostic('SmallEdge', 'small-edge', subShape, index);
+                    }
+                    if (BRep_Tool.Tolerance_2(subShape._ocShape) > SHAPE_VALIDATE_MAX_TOLERANCE)
+                    {
+                        addDiagnostic('LargeTolerance', 'tolerance', subShape, index);
+                    }
+                }
+                if (type === 'Vertex' && BRep_Tool.Tolerance_3(subShape._ocShape) > SHAPE_VALIDATE_MAX_TOLERANCE)
+                {
+                    addDiagnostic('LargeTolerance', 'tolerance', subShape, index);
+                }
+            });
+        });
+
+        // Solids and Shells (that can become Solids) should not have boundaries
+        if (this.type() === 'Solid' || this.type() === 'Shell')
+        {
+            const ocFreeBounds = new this._oc.ShapeAnalysis_FreeBounds_2(this._ocShape, this._oc.SHAPE_TOLERANCE, false, false);
+            [ocFreeBounds.GetClosedWires(), ocFreeBounds.GetOpenWires()].forEach(ocCompound => 
+            {
+                const freeWires = new Shape()._fromOcShape(ocCompound);
+                if (freeWires)
+                {
+                    new ShapeCollection(freeWires).forEach(wire => addDiagnostic('FreeEdges', 'open', wire, null));
+                }
+            });
+        }
+
+        if (report)
+        {
+            diagnostics.forEach(d => console.error(`Shape::validate: ${d.message}. Try: ${d.fixes.join(' or ')}`));
+        }
+
+        return diagnostics;
+    }
+
+    /** Check sub-Shape on its own with BRepCheck_Analyzer */
+    _checkSubShapeValid(subShape:AnyShape):boolean
+    {
+        const ocAnalyzer = new this._oc.BRepCheck_Analyzer(subShape._ocShape, true, false);
+        const valid = ocAnalyzer.IsValid_2();
+        ocAnalyzer.delete();
+        return valid;
+    }
+
+    /** Check the Wires of all Faces with ShapeAnalysis_Wire for self-intersections, gaps and a reversed outer Wire */
+    _checkFaceWires(addDiagnostic:(status:string, kind:ShapeDiagnosticKind, shape:AnyShape, index:number) => void)
+    {
+        // OC docs: https://dev.opencascade.org/doc/refman/html/class_shape_analysis___wire.html
+        const wires = this.wires().toArray();
+
+        this.faces().forEach((face:AnyShape) => 
+        {
+            const outerWire = (face as Face).outerWire();
+            face.wires().forEach((wire:AnyShape) => 
+            {
+                const index = wires.findIndex(w => w.same(wire));
+                const ocWireAnalysis = new this._oc.ShapeAnalysis_Wire_2(wire._ocShape, face._ocShape, this._oc.SHAPE_TOLERANCE);
+                if (ocWireAnalysis.CheckSelfIntersection())
+                {
+                    addDiagnostic('SelfIntersectingWire', 'self-intersection', wire, index);
+                }
+                if (ocWireAnalysis.CheckConnected_1(this._oc.SHAPE_TOLERANCE))
+                {
+                    addDiagnostic('NotConnected', 'open', wire, index);
+                }
+                if (wire.same(outerWire) && ocWireAnalysis.CheckOuterBound(true)) // true if the outer Wire does not bound the Face
+                {
+                    addDiagnostic('BadOrientation', 'orientation', wire, index);
+                }
+                ocWireAnalysis.delete();
+            });
+        });
+    }
+
+    /** Check if the Faces of Shells are oriented consistently: an Edge shared by two Faces is used in opposite directions */
+    _checkShellOrientations(addDiagnostic:(status:string, kind:ShapeDiagnosticKind, shape:AnyShape, index:number) => void)
+    {
+        const faces = this.faces().toArray();
+        const badFaceIndices:Array<number> = [];
+
+        this.shells().forEach((shell:AnyShape) => 
+        {
+            const edgeOrientations:{[hash:string]:Array<any>} = {}; // OC orientation of Edge in each Face that uses it
+            shell.faces().forEach((face:AnyShape) => 
+            {
+                const faceIndex = faces.findIndex(f => f.same(face));
+                face.edges().forEach((edge:AnyShape) => 
+                {
+                    const usedOrientations = edgeOrientations[edge._hashcode()] = edgeOrientations[edge._hashcode()] ?? [];
+                    if (usedOrientations.includes(edge._ocShape.Orientation_1()) && !badFaceIndices.includes(faceIndex))
+                    {
+                        addDiagnostic('BadOrientationOfSubshape', 'orientation', face, faceIndex);
+                        badFaceIndices.push(faceIndex);
+                    }
+                    usedOrientations.push(edge._ocShape.Orientation_1());
+                });
+            });
+        });
+    }
+
     /** For compatibility with ShapeCollection */
     count():number
     {
@@ -569,6 +734,131 @@ export class Shape
         return ocSystem.Mass(); 
     }
 
+    /** Geometric properties with density 1: of volume for Solids, area for Faces and Shells and length for Edges and Wires */
+    _toOcGProps():any
+    {
+        /* OC docs:
+            - https://dev.opencascade.org/doc/refman/html/class_b_rep_g_prop.html
+            - https://dev.opencascade.org/doc/refman/html/class_g_prop___g_props.html
+        */
+        let ocProps = new this._oc.GProp_GProps_1();
+        let BRepGProp = this._oc.BRepGProp.prototype.constructor;
+
+        switch(this.type())
+        {
+            case 'Solid':
+                BRepGProp.VolumeProperties_1(this._ocShape, ocProps, false, false, false);
+                break;
+            case 'Face':
+            case 'Shell':
+                BRepGProp.SurfaceProperties_1(this._ocShape, ocProps, false, false);
+                break;
+            case 'Edge':
+            case 'Wire':
+                BRepGProp.LinearProperties(this._ocShape, ocProps, false, false);
+                break;
+            default:
+                return null;
+        }
+        return ocProps;
+    }
+
+    /** Density of Material in kg per cubic model unit. Only Solids have mass */
+    _materialDensity():number
+    {
+        const material = this.getMaterial();
+        if (!material || this.type() !== 'Solid')
+        {
+            return null;
+        }
+        const unitInMeters = MODEL_UNITS_TO_MM[this._geom.units()] / 1000;
+        return material.density * unitInMeters ** 3;
+    }
+
+    /** Center of mass, inertia tensor, principal axes and radii of gyration
+     *  Solids with a Material (see material()) also get their mass in kg and cost. Otherwise density is 1 */
+    massProperties():MassProperties
+    {
+        const ocGProps = this._toOcGProps();
+        if (!ocGProps)
+        {
+            console.warn(`Shape::massProperties: Shape of type "${this.type()}" has no mass properties`);
+            return null;
+        }
+        const material = this.getMaterial();
+        const density = this._materialDensity();
+        if (density === null)
+        {
+            return this._massPropertiesFromOcGProps(ocGProps, { material: null, density: 1, cost: null });
+        }
+
+        const ocMassProps = new this._oc.GProp_GProps_1();
+        ocMassProps.Add(ocGProps, density);
+        const cost = (typeof material.cost === 'number') ? ocMassProps.Mass() * material.cost : null;
+
+        return this._massPropertiesFromOcGProps(ocMassProps, { material: material.name, density: density, cost: cost });
+    }
+
+    /** Turn OC GProp_GProps (with density applied) into MassProperties */
+    _massPropertiesFromOcGProps(ocGProps:any, info:{ material:string, density:number, cost:number }):MassProperties
+    {
+        // NOTE: gp_Mat (returned by MatrixOfInertia()) and GProp_PrincipalProps are not bound in the OC build: use moments around axes through the center of mass
+        const ocCenter = ocGProps.CentreOfMass();
+        const momentAround = (dir:Array<number>) => ocGProps.MomentOfInertia(new this._oc.gp_Ax1_2(ocCenter, new this._oc.gp_Dir_4(...dir)));
+        const axisMoments = [[1,0,0],[0,1,0],[0,0,1]].map(momentAround);
+        // the moment around the diagonal between axis i and j is (Iii + Ijj)/2 + Iij
+        const inertia = [0,1,2].map(i => [0,1,2].map(j => (i === j) ? axisMoments[i] : 
+                            momentAround([0,1,2].map(k => (k === i || k === j) ? Math.SQRT1_2 : 0)) - (axisMoments[i] + axisMoments[j]) / 2));
+        const principal = symmetricEigen3(inertia);
+        const mass = ocGProps.Mass();
+
+        return {
+            ...info,
+            mass: mass,
+            center: new Point()._fromOcPoint(ocCenter),
+            inertia: inertia,
+            principalMoments: principal.values,
+            principalAxes: principal.vectors.map(axis => new Vector(axis)),
+            radiiOfGyration: principal.values.map(moment => Math.sqrt(Math.max(moment, 0) / mass)),
+        }
+    }
+
+    /** Center of mass (not the center of the bounding box) */
+    centerOfMass():Point
+    {
+        return this.massProperties()?.center ?? null;
+    }
+
+    /** Mass in kg of a Solid with a Material */
+    mass():number
+    {
+        const massProps = this.massProperties();
+        if (!massProps?.material)
+        {
+            console.warn(`Shape::mass: Shape has no Material. Set one with material(name) on the Shape or its layer`);
+            return null;
+        }
+        return massProps.mass;
+    }
+
+    /** Cost of a Solid from mass and cost (per kg) of its Material */
+    cost():number
+    {
+        const massProps = this.massProperties();
+        if (massProps?.cost === null || massProps?.cost === undefined)
+        {
+            console.warn(`Shape::cost: Shape has no Material with a cost. See geom.material(name, { cost })`);
+            return null;
+        }
+        return massProps.cost;
+    }
+
+    /** Smallest angle (degrees) to tilt this Shape before it tips over when standing on its lowest points (Z-axis up) */
+    tippingAngle():number
+    {
+        return new ShapeCollection(this).tippingAngle();
+    }
+
     /** Get all Vertices of this Shape */
     vertices(): AnyShapeCollection
     {
@@ -874,6 +1164,79 @@ export class Shape
         return (this.copy() as AnyShape).scale(factor);
     }
 
+    /** Copy of Shape with an affine transformation given as row-major 3x4 matrix [a11,a12,a13,a14,a21,...,a34]
+     *  Scaling that is not the same along all axes (or skewing) converts curves to BSplines
+     *  If the OpenCascade build has no BRepBuilderAPI_GTransform this is approximated for Vertices, Edges and Wires
+     */
+    _transformedByMatrix(matrix:Array<number>):AnyShape
+    {
+        /* OC docs: 
+            - gp_GTrsf: https://dev.opencascade.org/doc/occt-7.5.0/refman/html/classgp___g_trsf.html
+            - BRepBuilderAPI_GTransform: https://dev.opencascade.org/doc/occt-7.5.0/refman/html/class_b_rep_builder_a_p_i___g_transform.html
+        */
+        // check if the linear part scales the same in all directions and keeps angles: then a normal transformation is enough
+        const columns = [0,1,2].map( c => [matrix[c], matrix[4+c], matrix[8+c]]);
+        const lengths = columns.map( col => Math.hypot(...col));
+        const isSimilarity = Math.abs(lengths[0] - lengths[1]) < 1e-9 * lengths[0] && Math.abs(lengths[0] - lengths[2]) < 1e-9 * lengths[0] &&
+                                [[0,1],[1,2],[0,2]].every( ([i,j]) => 
+                                    Math.abs(columns[i][0]*columns[j][0] + columns[i][1]*columns[j][1] + columns[i][2]*columns[j][2]) < 1e-9 * lengths[0] * lengths[0]);
+
+        let newOcShape;
+        if (isSimilarity)
+        {
+            let ocTransform = new this._oc.gp_Trsf_1();
+            ocTransform.SetValues(...matrix);
+            newOcShape = new this._oc.BRepBuilderAPI_Transform_2(this._ocShape, ocTransform, true).Shape();
+        }
+        else if (this._oc.BRepBuilderAPI_GTransform_2 === undefined)
+        {
+            return this._transformedByMatrixApprox(matrix);
+        }
+        else {
+            let ocGeneralTransform = new this._oc.gp_GTrsf_1();
+            matrix.forEach( (v,i) => ocGeneralTransform.SetValue(Math.floor(i / 4) + 1, (i % 4) + 1, v));
+            ocGeneralTransform.SetForm();
+            newOcShape = new this._oc.BRepBuilderAPI_GTransform_2(this._ocShape, ocGeneralTransform, true).Shape();
+        }
+
+        return new Shape()._fromOcShape(newOcShape) as AnyShape;
+    }
+
+    /** Approximate an affine transformation by transforming points on the curves 
+     *  Lines stay Lines, other curves become Splines through the transformed points
+     */
+    _transformedByMatrixApprox(matrix:Array<number>):AnyShape
+    {
+        const transformPoint = (p:Point):Point => new Point(
+                                    ...[0,1,2].map( r => matrix[r*4]*p.x + matrix[r*4+1]*p.y + matrix[r*4+2]*p.z + matrix[r*4+3]));
+
+        const transformEdge = (edge:Edge):Edge =>
+        {
+            if (edge.edgeType() === 'Line')
+            {
+                return new Edge().makeLine(transformPoint(edge.start().toPoint()), transformPoint(edge.end().toPoint()));
+            }
+            let points = [...Array(SHAPE_TRANSFORM_APPROX_NUM_POINTS + 1).keys()].map( i => edge.pointAt(i / SHAPE_TRANSFORM_APPROX_NUM_POINTS));
+            if (!points[0].equals(edge.start().toPoint())) // reversed Edge
+            {
+                points.reverse();
+            }
+            return new Edge().makeSpline(points.map( p => transformPoint(p)));
+        }
+
+        switch (this.type())
+        {
+            case 'Vertex':
+                return new Vertex(transformPoint((this as any as Vertex).toPoint()));
+            case 'Edge':
+                return transformEdge(this as any as Edge);
+            case 'Wire':
+                return new Wire().fromEdges(this.edges().toArray().map( e => transformEdge(e as Edge)));
+            default:
+                throw new Error(`Shape::_transformedByMatrixApprox: Cannot scale a ${this.type()} differently along the axes: OpenCascade build has no BRepBuilderAPI_GTransform!`);
+        }
+    }
+
     /** 
      *   Rotation around X,Y,Z axis with a given pivot (default: center) 
      *   NOTE: because the order of these rotations if very important we don't call it just rotate. 
@@ -3135,6 +3498,22 @@ export class Shape
         return selectedShapes.checkSingle(); // return either ShapeCollection or single Shape
     }
 
+    /** Get Points to place holes at from PointLikes, Shapes or a selection string on this Shape (Vertices or centers of other Shapes) */
+    _holePoints(at:HolePositions):Array<Point>
+    {
+        if (isPointLike(at))
+        {
+            return [Point.fromPointLike(at)];
+        }
+        else if (Array.isArray(at) && at.every(p => isPointLike(p)))
+        {
+            return (at as Array<PointLike>).map(p => Point.fromPointLike(p));
+        }
+
+        const shapes = (typeof at === 'string') ? new ShapeCollection(this.select(at)) : new ShapeCollection(at as AnyShapeOrCollection);
+        return shapes.toArray().map(shape => (shape.type() === 'Vertex') ? (shape as Vertex).toPoint() : shape.center());
+    }
+
     _axisAndPlanesToVector(axis:string):Vector
     {
         const AXIS_TO_VEC = {
@@ -3760,6 +4139,19 @@ export class Shape
         return this._obj;
     }
 
+    /** Set Material by name on the Object of this Shape. See Geom.material() */
+    material(name:string):Shape
+    {
+        this.checkObj().material(name);
+        return this;
+    }
+
+    /** Get Material of the Object of this Shape or of its layer */
+    getMaterial():Material
+    {
+        return this?._obj?.getMaterial() ?? null;
+    }
+
     _getObjStyle():ObjStyle
     {
         // TODO: we can avoid copying the style by refering to another Obj that is its parent layer
@@ -17,7 +17,8 @@
  import { MeshShape, MeshShapeBuffer, MeshShapeBufferStats } from './internal' // types
  import { addResultShapesToScene, checkInput } from './decorators'; // Import directly to avoid error in ts-node/jest
  import type { ObjStyle } from './internal'; // NOTE: Vite does not allow re-importing interfaces and types
- import { flattenEntitiesToArray, flattenEntities } from './internal'  // utils
+ import { flattenEntitiesToArray, flattenEntities, convexHull2D, distanceInConvexPolygon2D, toDeg } from './internal'  // utils
+ import type { MassProperties, InterferenceOptions, InterferencePair, InterferenceReport } from './internal';
  import { Layout, LayoutOrderType, LayoutOptions } from './internal'
 
  import { SHAPE_EXTRUDE_DEFAULT_AMOUNT } from './internal';
@@ -798,6 +799,120 @@
          return combinedBbox;
       }
 
+      /** Shape API - Combined mass properties of the Solids in Collection with their Materials (for example of an assembly)
+       *    Solids without Material are left out, unless none has one: then mass is the total volume
+       */
+      massProperties():MassProperties
+      {
+         const solids = this.getShapesByType('Solid').toArray() as Array<Solid>;
+         if (solids.length === 0)
+         {
+            console.warn(`ShapeCollection::massProperties: No Solids in Collection to calculate mass properties of`);
+            return null;
+         }
+         const solidsWithMaterial = solids.filter(solid => solid._materialDensity() !== null);
+         if (solidsWithMaterial.length > 0 && solidsWithMaterial.length < solids.length)
+         {
+            console.warn(`ShapeCollection::massProperties: Left out ${solids.length - solidsWithMaterial.length} Solid(s) without Material`);
+         }
+         const massSolids = (solidsWithMaterial.length > 0) ? solidsWithMaterial : solids;
+
+         const ocMassProps = new this._oc.GProp_GProps_1();
+         let volume = 0;
+         let cost = 0;
+         massSolids.forEach(solid => 
+         {
+            const ocGProps = solid._toOcGProps();
+            const density = solid._materialDensity() ?? 1;
+            ocMassProps.Add(ocGProps, density);
+            volume += ocGProps.Mass();
+            const materialCost = solid.getMaterial()?.cost;
+            cost = (typeof materialCost === 'number' && cost !== null) ? cost + ocGProps.Mass() * density * materialCost : null;
+         });
+
+         const materialNames = Array.from(new Set(solidsWithMaterial.map(solid => solid.getMaterial().name)));
+         return massSolids[0]._massPropertiesFromOcGProps(ocMassProps, {
+            material: (materialNames.length > 1) ? 'mixed' : (materialNames[0] ?? null),
+            density: (materialNames.length > 0) ? ocMassProps.Mass() / volume : 1, // average
+            cost: (materialNames.length > 0) ? cost : null,
+         });
+      }
+
+      /** Shape API */
+      centerOfMass():Point
+      {
+         return this.massProperties()?.center ?? null;
+      }
+
+      /** Shape API - Total mass in kg of Solids with a Material */
+      mass():number
+      {
+         const massProps = this.massProperties();
+         if (!massProps?.material)
+         {
+            console.warn(`ShapeCollection::mass: No Solids with a Material. Set one with material(name) on the Shapes or their layer`);
+            return null;
+         }
+         return massProps.mass;
+      }
+
+      /** Shape API - Total cost of Solids from their mass and Materials */
+      cost():number
+      {
+         const massProps = this.massProperties();
+         if (massProps?.cost === null || massProps?.cost === undefined)
+         {
+            console.warn(`ShapeCollection::cost: Not all Solids have a Material with a cost. See geom.material(name, { cost })`);
+            return null;
+         }
+         return massProps.cost;
+      }
+
+      /** Shape API - Smallest angle (degrees) to tilt the Shapes before they tip over, standing on their lowest Vertices and Edges (Z-axis up)
+       *    Negative if the center of mass is already outside of the support area
+       */
+      tippingAngle():number
+      {
+         const EDGE_SAMPLES = 16; // per Edge on the ground: curved Edges need more than their Vertices
+         const center = this.centerOfMass();
+         if (!center)
+         {
+            return null;
+         }
+         const groundZ = this.bbox().min().z;
+         const tolerance = this._oc.SHAPE_TOLERANCE;
+         
+         const supportPoints:Array<Array<number>> = [];
+         this.vertices().forEach(v => 
+         {
+            if (Math.abs((v as Vertex).z - groundZ) <= tolerance)
+            {
+               supportPoints.push([(v as Vertex).x, (v as Vertex).y]);
+            }
+         });
+         this.edges().forEach(edge =>
+         {
+            if (edge.bbox().max().z - groundZ <= tolerance)
+            {
+               for (let i = 0; i <= EDGE_SAMPLES; i++)
+               {
+                  const point = (edge as Edge).pointAt(i / EDGE_SAMPLES);
+                  supportPoints.push([point.x, point.y]);
+               }
+            }
+         });
+
+         const supportArea = convexHull2D(supportPoints);
+         if (supportArea.length < 3)
+         {
+            console.warn(`ShapeCollection::tippingAngle: Shapes stand on a point or line: they tip over at any angle`);
+            return 0;
+         }
+         const distance = distanceInConvexPolygon2D([center.x, center.y], supportArea);
+
+         return toDeg(Math.atan2(distance, center.z - groundZ));
+      }
+
       /** Shape API */
       _hashcode():string
       {
@@ -1623,6 +1738,14 @@
 
          return this;
       }
+
+      /** Shape API - Set Material on all Shapes in Collection. See Geom.material() */
+      material(name:string):ShapeCollection
+      {
+         this.forEach( shape => shape.material(name));
+
+         return this;
+      }
       
       /** Shape API - Style all Shapes in Collection */
       @checkInput('ObjStyle', 'auto')
@@ -1676,6 +1799,103 @@
 
       // TODO: .color, .
 
+      //// INTERFERENCE CHECKS ////
+
+      /** Check all pairs of Solids for overlapping volumes, touching contacts and gaps smaller than options.clearance
+       *    Candidate pairs are found quickly with bounding boxes. The overlaps in the report are not added to the Scene
+       */
+      interferences(options:InterferenceOptions={}):InterferenceReport
+      {
+         const clearance = options.clearance ?? 0;
+         const tolerance = this._oc.SHAPE_TOLERANCE;
+         const TYPE_TO_COUNT = { interference: 'interferences', contact: 'contacts', clearance: 'clearances' };
+
+         const solids = this.getShapesByType('Solid').toArray() as Array<Solid>;
+         const report:InterferenceReport = { checked: 0, pairs: [], interferences: 0, contacts: 0, clearances: 0 };
+
+         this._bboxCandidatePairs(solids, Math.max(clearance, tolerance)).forEach(([solid, other]) =>
+         {
+            report.checked++;
+            const pair = this._checkInterferencePair(solid as Solid, other as Solid, clearance, tolerance);
+            if (pair && (pair.type !== 'contact' || options.contacts !== false))
+            {
+               report.pairs.push(pair);
+               report[TYPE_TO_COUNT[pair.type]]++;
+            }
+         });
+
+         if (report.pairs.length > 0)
+         {
+            console.warn(`ShapeCollection::interferences: Found ${report.interferences} interference(s), ${report.contacts} contact(s) and ${report.clearances} clearance(s) smaller than ${clearance} in ${report.checked} candidate pairs`);
+         }
+
+         return report;
+      }
+
+      /** Sweep along x-axis to get pairs of Shapes with bounding boxes closer than margin */
+      _bboxCandidatePairs(shapes:Array<AnyShape>, margin:number):Array<Array<AnyShape>>
+      {
+         const entries = shapes.map(shape => ({ shape: shape, bbox: shape.bbox().enlarged(margin / 2) }))
+                                 .sort((a, b) => a.bbox.bounds[0] - b.bbox.bounds[0]);
+         const pairs = [];
+
+         entries.forEach((entry, i) =>
+         {
+            // sorted by min x: stop at first entry that starts after this one ends
+            for (let j = i + 1; j < entries.length && entries[j].bbox.bounds[0] <= entry.bbox.bounds[1]; j++)
+            {
+               if (entry.bbox._intersectsBbox(entries[j].bbox))
+               {
+                  pairs.push([entry.shape, entries[j].shape]);
+               }
+            }
+         });
+
+         return pairs;
+      }
+
+      /** Exact check of two Solids. Returns null if they are further apart than clearance */
+      _checkInterferencePair(solid:Solid, other:Solid, clearance:number, tolerance:number):InterferencePair
+      {
+         const distance = solid._distanceToShape(other);
+         if (distance === null || distance > Math.max(clearance, tolerance))
+         {
+            return null;
+         }
+
+         const pair:InterferencePair = { type: 'clearance', shapes: [solid, other], names: [solid.getName() as string, other.getName() as string], 
+                                          distance: distance, volume: 0, overlap: new ShapeCollection() };
+
+         if (distance > tolerance)
+         {
+            const link = solid.distanceLink(other);
+            if (link)
+            {
+               pair.overlap.add(new Edge().makeLine(link.from, link.to));
+            }
+            return pair;
+         }
+
+         const intersections = solid._intersections(other) ?? new ShapeCollection();
+         const overlappingSolids = intersections.getShapesByType('Solid');
+         pair.volume = overlappingSolids.toArray().reduce((sum, s) => sum + s.volume(), 0);
+         pair.distance = 0;
+
+         if (pair.volume > tolerance ** 3)
+         {
+            pair.type = 'interference';
+            pair.overlap = overlappingSolids;
+         }
+         else {
+            // only Faces, Edges or Vertices in common. The Common of touching Solids is empty: use a section to get the contact
+            pair.type = 'contact'; 
+            pair.volume = 0;
+            pair.overlap = solid._intersectionsSection(other) ?? new ShapeCollection();
+         }
+
+         return pair;
+      }
+
       //// LAYOUTING ALGORITHMS ////
 
       /** Layout Shapes on XY plane within a given Layout order */
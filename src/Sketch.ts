@@ -7,14 +7,16 @@
  *          - Use one or more cursors as starting points for powerful and fast drawing 
  *                 (for example: corners() sets cursors at corner and allows to draw at those)
  *          - Use selectors and selection stack to apply operations to specific parts
+ *          - Constrain Edges geometrically (horizontal, tangent, distance etc). See SketchSolver.ts
  */
 
-import { Point, Vector, PointLike, isPointLike, ShapeCollection, Shape, Vertex, Edge, Wire, Face, Geom } from './internal'
+import { Point, Vector, PointLike, isPointLike, ShapeCollection, Shape, Vertex, Edge, Wire, Face, Shell, Geom } from './internal'
 import { Cursor, AnyShape, isAnyShape, SketchPlaneName, PointLikeSequence, 
     isPointLikeSequence, AnyShapeCollection, VertexCollection, isSketchPlaneName, ShapeType, AnyShapeOrCollection, SelectionString,
     isSelectionString, AnyShapeOrCollectionOrSelectionString } from './internal'
 import { gp_Ax3, gp_Trsf } from '../libs/archiyou-opencascade/archiyou-opencascade'
 import { checkInput } from './decorators' // NOTE: needs to be direct
+import { SketchSolver, SolverEntity, SolverConstraint, SolverResult, SketchConstraintType, SketchEdgePoint } from './SketchSolver'
 
 import { FACE_CIRCLE_RADIUS, FACE_PLANE_WIDTH, FACE_PLANE_DEPTH } from './internal' // Face
 
@@ -22,6 +24,7 @@ import { FACE_CIRCLE_RADIUS, FACE_PLANE_WIDTH, FACE_PLANE_DEPTH } from './intern
 export const SKETCH_FILLET_SIZE = 5;
 export const SKETCH_CHAMFER_DISTANCE = 10;
 export const SKETCH_CHAMFER_ANGLE = 45;
+export const SKETCH_CONSTRAINT_TOLERANCE = 1e-3; // Edge endpoints closer than this are connected when solving constraints
 
 export interface SketchPlane
 {
@@ -38,6 +41,19 @@ interface Operation
     params?: Object // Object
 }
 
+/** Geometric constraint on one or two Edges of the Sketch */
+export interface SketchConstraint
+{
+    type:SketchConstraintType
+    edges:Array<Edge>
+    points?:Array<SketchEdgePoint> // for coincident, tangent and fix
+    value?:number // distance, radius or angle (radians)
+    target?:Array<number> // local [x,y] for fix
+}
+
+/** Edge or index of Edge in Sketch. Negative indices count back from the last Edge */
+export type SketchEdgeRef = Edge|number
+
 const OPERATION_TYPE_ON_SHAPE_TYPES: {[key:string]:Array<ShapeType>} = {
     union: ['Face'],
     subtract: ['Face'],
@@ -82,12 +98,18 @@ export class Sketch
     pendingSelections = new ShapeCollection(); // Current selected Sub Shapes used in arguments of operations
 
     _autoOp:boolean = true; // smart automatic operations
+
+    constraints:Array<SketchConstraint> = []; // geometric constraints on Edges in this.shapes
+    constraintState:SolverResult = null; // result of last solve
     
     ocLcs:gp_Ax3;
     ocGcs:gp_Ax3;
     ocLocalToWorldTransform:gp_Trsf = null;
     ocWorldToLocalTransform:gp_Trsf = null;
 
+    surface:Face = null; // Face to draw on in surface mode
+    ocSurface:any = null; // handle to Geom_Surface of surface
+
     /** Start a 2D sketch on specific Plane */
     constructor(plane?:SketchPlaneName|Face|PointLike, yAxis?:PointLike)
     {   
@@ -110,7 +132,7 @@ export class Sketch
         }
         else if(isAnyShape(plane) && (plane as AnyShape).type() == 'Face') 
         {
-            this._faceToWorkplane(plane as AnyShape)
+            this.on(plane as Face); // draw with UV coordinates on surface of Face
         }
         else if(isSketchPlaneName(plane))
         {
@@ -176,11 +198,25 @@ export class Sketch
         console.warn(`Sketch::_faceToWorkplane: TODO`);
     }
 
-    /** Drawing directly on a curved surface with UV coords */
-    on(surface:Face)
+    /** Drawing directly on a curved surface with UV coords 
+     *  The cursor starts at the minimum UV coordinates of the Face. See Face.uvBounds() */
+    @checkInput('AnyShape', 'auto')
+    on(surface:Face):Sketch
     {
-        // TODO
+        if (surface?.type() !== 'Face')
+        {
+            throw new Error(`Sketch::on: Please supply a Face to draw on. Got "${surface}"`);
+        }
+        
         this.mode = 'surface';
+        this.surface = surface;
+        this.ocSurface = surface._toOcSurface(); // keep one handle: Edges and Faces need to share the same surface
+        
+        const [umin,umax,vmin,vmax] = surface.uvBounds();
+        this._setCursor(new Point(umin, vmin, 0));
+        this._setActiveCursor(this.cursors[0]);
+
+        return this;
     }
 
     /** Prepare transformations needed for turning local coords into world ones */
@@ -264,6 +300,18 @@ export class Sketch
         }
     }
 
+    /** Update cursor to end of new Edge. In surface mode that end is given in UV coordinates */
+    _setCursorByEdge(edge:Edge, uvEnd:Point)
+    {
+        if (this.mode === 'surface')
+        {
+            this._setCursor(uvEnd);
+        }
+        else {
+            this._setCursorByShape(edge);
+        }
+    }
+
     /** Used for relative coordinates between arguments. 
      *  Like arcTo([100,100],['+100','+100']) - second Point is relative to [100,100], so we need to set it!
      *  NOTE: problem with using relative polar coordinates because we don't know arc tangent yet!
@@ -298,6 +346,10 @@ export class Sketch
     /** Transform local coordinate Point to world coordinates */
     _toWorld(point:Point):Point
     {        
+        if (this.mode === 'surface')
+        {
+            return point; // in surface mode cursors stay in UV coordinates
+        }
         let transformedPoint = new Point()._fromOcPoint( point._toOcPoint().Transformed(this.ocLocalToWorldTransform));
 
         return transformedPoint;
@@ -307,6 +359,10 @@ export class Sketch
     _toLocal(p:PointLike):Point
     {
         let point = p as Point; // auto converted
+        if (this.mode === 'surface')
+        {
+            return point;
+        }
         let transformedPoint = new Point()._fromOcPoint( point._toOcPoint().Transformed(this.ocWorldToLocalTransform));
 
         return transformedPoint;
@@ -329,6 +385,7 @@ export class Sketch
         }
         // add it to this.shapes
         this.shapes.add(newEdge);
+        this._solveConstraints(); // before operations like fillets combine Edges into Wires
         this._doPendingOps(newEdge);
         this._setPendingShapes(newEdge);
     }
@@ -479,12 +536,12 @@ export class Sketch
             this._setActiveCursor(c);
             localPoint = this._resolvePointLikeToLocalPoint(point, ...args)
             worldPoint = this._transformPointToWorld(localPoint);
-            line = new Edge(c.point, worldPoint);
+            line = (this.mode === 'surface') ? this._lineOnSurface(c.point, worldPoint) : new Edge(c.point, worldPoint);
             this._processNewEdge(line)
         });
 
         // update cursor with line Edge
-        this._setCursorByShape(line);
+        this._setCursorByEdge(line, worldPoint);
 
         console.log(`Sketch::lineTo: Created line from "${line.start().toArray()}" to "${line.end().toArray()}"`);
 
@@ -496,6 +553,7 @@ export class Sketch
     arcTo(mid:PointLike, end:PointLike):Sketch
     {  
         let arc:Edge;
+        let endPoint:Point;
         this.cursors.forEach( c => 
             {
                 this._setActiveCursor(c);
@@ -503,11 +561,12 @@ export class Sketch
                 this._setPrevLocalPoint(midPointLocal);
                 let midPointWorld = this._transformPointToWorld(midPointLocal);
                 let endPointWorld = this._transformPointToWorld(this._resolvePointLikeToLocalPoint(end)); // IMPORTANT: given relative coordinates are resolved in relationship to the last given Point
-                arc = new Edge().makeArc(c.point, midPointWorld, endPointWorld);
+                arc = (this.mode === 'surface') ? this._arcOnSurface(c.point, midPointWorld, endPointWorld) : new Edge().makeArc(c.point, midPointWorld, endPointWorld);
+                endPoint = endPointWorld;
                 this.shapes.push(arc);
             });
 
-        this._setCursorByShape(arc);
+        this._setCursorByEdge(arc, endPoint);
 
         return this;
     }
@@ -517,6 +576,12 @@ export class Sketch
     @checkInput('PointLikeSequence', 'auto') 
     splineTo(points:PointLikeSequence, ...args):Sketch
     {
+        if (this.mode === 'surface')
+        {
+            console.error(`Sketch::splineTo: Splines are not supported in surface mode (yet). Use lineTo() or arcTo()`);
+            return this;
+        }
+
         let spline;
         this.cursors.forEach( c => 
         {
@@ -578,7 +643,7 @@ export class Sketch
             if(s.type() == 'Wire')
             { 
                 oldWires.add(s);
-                let closedWireFace = (s as Wire)._toFace()
+                let closedWireFace = (this.mode === 'surface') ? this._faceOnSurface(s as Wire) : (s as Wire)._toFace();
                 if(closedWireFace)
                 {
                     newFaces.add( closedWireFace );
@@ -619,8 +684,14 @@ export class Sketch
         {
             this._setActiveCursor(c);
             resolvedPoint = new Point().cursor(c).fromPointLike(point); // IMPORTANT: resolve relative Point coordinates with cursor
-            face = new Face().makePlaneBetween(c.point, resolvedPoint); 
-            this._rotateFaceToWorkplane(face);
+            if (this.mode === 'surface')
+            {
+                face = this._rectOnSurface(c.point, resolvedPoint);
+            }
+            else {
+                face = new Face().makePlaneBetween(c.point, resolvedPoint); 
+                this._rotateFaceToWorkplane(face);
+            }
             this._processNewFace(face);
         })
 
@@ -639,13 +710,22 @@ export class Sketch
         this.cursors.forEach( c => 
         {
             this._setActiveCursor(c);
-            face = new Face().makePlane(width, height, c.point, [0,0,1]);
-            this._rotateFaceToWorkplane(face);
+            if (this.mode === 'surface')
+            {
+                face = this._rectOnSurface(new Point(c.point.x - width/2, c.point.y - height/2, 0), new Point(c.point.x + width/2, c.point.y + height/2, 0));
+            }
+            else {
+                face = new Face().makePlane(width, height, c.point, [0,0,1]);
+                this._rotateFaceToWorkplane(face);
+            }
             this._processNewFace(face);
         })
 
-        // set cursor to position of last Face
-        this._setCursorByShape(face);
+        // set cursor to position of last Face (in surface mode the cursor is already at its center)
+        if (this.mode !== 'surface')
+        {
+            this._setCursorByShape(face);
+        }
 
         return this;
     }
@@ -659,8 +739,14 @@ export class Sketch
             this._setActiveCursor(c);
             let resolvedPoint = new Point().cursor(c).fromPointLike(point); // IMPORTANT: resolve relative Point coordinates with cursor
             let radius = c.point.distance(resolvedPoint);
-            face = new Face().makeCircle(radius, c.point); // cursor is already world coordinate
-            this._rotateFaceToWorkplane(face);
+            if (this.mode === 'surface')
+            {
+                face = this._circleOnSurface(c.point, radius);
+            }
+            else {
+                face = new Face().makeCircle(radius, c.point); // cursor is already world coordinate
+                this._rotateFaceToWorkplane(face);
+            }
             this._processNewFace(face);
         })
 
@@ -677,8 +763,14 @@ export class Sketch
         this.cursors.forEach( c => 
         {
             this._setActiveCursor(c); // cursor world position is already resolved by for example moveTo()
-            face = new Face().makeCircle(radius, c.point);
-            this._rotateFaceToWorkplane(face);
+            if (this.mode === 'surface')
+            {
+                face = this._circleOnSurface(c.point, radius);
+            }
+            else {
+                face = new Face().makeCircle(radius, c.point);
+                this._rotateFaceToWorkplane(face);
+            }
             this._processNewFace(face);    
         })
 
@@ -688,6 +780,80 @@ export class Sketch
         return this;
     }
 
+    //// SURFACE MODE ////
+
+    /*
+        With sketch(face) or on(face) all coordinates are UV parameters of the surface of the Face (see Face.uvBounds())
+        Edges are made from 2D curves in UV space, so they follow the surface: a line in UV becomes a helix on a cylinder
+    */
+
+    _toOcPoint2d(point:Point):any
+    {
+        return new this._oc.gp_Pnt2d_3(point.x, point.y);
+    }
+
+    /** Make Edge on surface from handle to 2D curve in UV space */
+    _edgeOnSurface(ocCurve2d:any):Edge
+    {
+        const ocEdgeBuilder = new this._oc.BRepBuilderAPI_MakeEdge_30(new this._oc.Handle_Geom2d_Curve_2(ocCurve2d.get()), this.ocSurface);
+        if (!ocEdgeBuilder.IsDone())
+        {
+            throw new Error(`Sketch::_edgeOnSurface: Could not make Edge on surface. Check if UV coordinates are within ${this.surface.uvBounds()}`);
+        }
+        const ocEdge = ocEdgeBuilder.Edge();
+        this._oc.BRepLib.BuildCurves3d_2(ocEdge); // Edge only has a curve in UV space: add the 3D one
+        
+        return new Edge()._fromOcEdge(ocEdge);
+    }
+
+    _lineOnSurface(from:Point, to:Point):Edge
+    {
+        return this._edgeOnSurface(new this._oc.GCE2d_MakeSegment_1(this._toOcPoint2d(from), this._toOcPoint2d(to)).Value());
+    }
+
+    _arcOnSurface(start:Point, mid:Point, end:Point):Edge
+    {
+        return this._edgeOnSurface(new this._oc.GCE2d_MakeArcOfCircle_4(this._toOcPoint2d(start), this._toOcPoint2d(mid), this._toOcPoint2d(end)).Value());
+    }
+
+    /** Make Face on surface bounded by a closed Wire of Edges on that surface */
+    _faceOnSurface(wire:Wire):Face
+    {
+        if (!wire.closed())
+        {
+            return null;
+        }
+        const ocFaceBuilder = new this._oc.BRepBuilderAPI_MakeFace_21(this.ocSurface, wire._ocShape, true);
+        if (!ocFaceBuilder.IsDone())
+        {
+            console.error(`Sketch::_faceOnSurface: Could not make Face on surface from Wire "${wire}"`);
+            return null;
+        }
+        // the Wire can run clockwise in UV space: fix orientation to get the region inside it
+        const ocFaceFixer = new this._oc.ShapeFix_Face_2(ocFaceBuilder.Face());
+        ocFaceFixer.FixOrientation_1();
+
+        return new Face()._fromOcFace(ocFaceFixer.Face());
+    }
+
+    /** Rectangle between two UV corners */
+    _rectOnSurface(from:Point, to:Point):Face
+    {
+        const corners = [[from.x, from.y], [to.x, from.y], [to.x, to.y], [from.x, to.y]].map(([u,v]) => new Point(u, v, 0));
+        const edges = corners.map((corner, i) => this._lineOnSurface(corner, corners[(i + 1) % corners.length]));
+        
+        return this._faceOnSurface(new Wire().fromEdges(edges));
+    }
+
+    /** Circle in UV space made of two half arcs */
+    _circleOnSurface(center:Point, radius:number):Face
+    {
+        const [left, top, right, bottom] = [[-radius,0],[0,radius],[radius,0],[0,-radius]].map(([du,dv]) => new Point(center.x + du, center.y + dv, 0));
+        const edges = [this._arcOnSurface(left, top, right), this._arcOnSurface(right, bottom, left)];
+        
+        return this._faceOnSurface(new Wire().fromEdges(edges));
+    }
+
     //// EDGE AND FACE OPERATIONS ////
 
     /** Make all shapes pending */
@@ -1088,6 +1254,301 @@ export class Sketch
     }
 
 
+    //// CONSTRAINTS ////
+
+    /*
+        Geometric constraints on Edges (lines and arcs) of the Sketch
+        Without edge argument constraints apply to the last created Edge. Others are given by Edge or index (-2 is the one before last)
+        After adding a constraint the Sketch is solved directly: The start of the first Edge stays in place 
+        and the newest Edges are moved first. Connected Edges stay connected.
+        
+        For example: sketch('xy').lineTo(100,10).horizontal().lineTo(50,80).perpendicular(-2).distance(100)
+    */
+
+    /** Place a point (start, end or center) of the Edge on a point of another Edge */
+    coincident(other:SketchEdgeRef, point:SketchEdgePoint='start', otherPoint:SketchEdgePoint='end', edge?:SketchEdgeRef):Sketch
+    {
+        return this._addConstraint({ type: 'coincident', edges: [this._getConstraintEdge(edge), this._getConstraintEdge(other)], points: [point, otherPoint] });
+    }
+
+    /** Make Edge horizontal (along x-axis of Sketch workplane) */
+    horizontal(edge?:SketchEdgeRef):Sketch
+    {
+        return this._addConstraint({ type: 'horizontal', edges: [this._getConstraintEdge(edge)] });
+    }
+
+    /** Make Edge vertical (along y-axis of Sketch workplane) */
+    vertical(edge?:SketchEdgeRef):Sketch
+    {
+        return this._addConstraint({ type: 'vertical', edges: [this._getConstraintEdge(edge)] });
+    }
+
+    parallel(other:SketchEdgeRef, edge?:SketchEdgeRef):Sketch
+    {
+        return this._addConstraint({ type: 'parallel', edges: [this._getConstraintEdge(edge), this._getConstraintEdge(other)] });
+    }
+
+    perpendicular(other:SketchEdgeRef, edge?:SketchEdgeRef):Sketch
+    {
+        return this._addConstraint({ type: 'perpendicular', edges: [this._getConstraintEdge(edge), this._getConstraintEdge(other)] });
+    }
+
+    /** Make Edges tangent: at their shared endpoint or else touching (line and arc, or two arcs) */
+    tangent(other:SketchEdgeRef, edge?:SketchEdgeRef):Sketch
+    {
+        const constraint:SketchConstraint = { type: 'tangent', edges: [this._getConstraintEdge(edge), this._getConstraintEdge(other)] };
+        
+        // determine shared points with current geometry
+        const solverConstraint:SolverConstraint = { type: 'tangent', entities: [0,1] };
+        new SketchSolver(constraint.edges.map(e => this._edgeToSolverEntity(e)), []).prepareTangent(solverConstraint, SKETCH_CONSTRAINT_TOLERANCE);
+        
+        return this._addConstraint({ ...constraint, points: solverConstraint.points, value: solverConstraint.value });
+    }
+
+    /** Give Edges equal length (or equal radius for two arcs) */
+    equal(other:SketchEdgeRef, edge?:SketchEdgeRef):Sketch
+    {
+        return this._addConstraint({ type: 'equal', edges: [this._getConstraintEdge(edge), this._getConstraintEdge(other)] });
+    }
+
+    /** Set length of Edge. Or with other Edge: the distance from middle of line (or center of arc) to other Edge */
+    distance(value:number, other?:SketchEdgeRef, edge?:SketchEdgeRef):Sketch
+    {
+        const edges = [this._getConstraintEdge(edge)];
+        if (other !== null && other !== undefined)
+        {
+            edges.push(this._getConstraintEdge(other));
+        }
+        return this._addConstraint({ type: 'distance', edges: edges, points: ['center'], value: value });
+    }
+
+    /** Set angle (in degrees) of Edge with x-axis of Sketch workplane or with other Edge */
+    angle(degrees:number, other?:SketchEdgeRef, edge?:SketchEdgeRef):Sketch
+    {
+        const edges = [this._getConstraintEdge(edge)];
+        if (other !== null && other !== undefined)
+        {
+            edges.push(this._getConstraintEdge(other));
+        }
+        return this._addConstraint({ type: 'angle', edges: edges, value: degrees / 180 * Math.PI });
+    }
+
+    /** Set radius of arc */
+    radius(value:number, edge?:SketchEdgeRef):Sketch
+    {
+        const arc = this._getConstraintEdge(edge);
+        if (arc.edgeType() !== 'Arc')
+        {
+            console.error(`Sketch::radius: Edge is not an arc but a "${arc.edgeType()}". No constraint added!`);
+            return this;
+        }
+        return this._addConstraint({ type: 'radius', edges: [arc], value: value });
+    }
+
+    /** Keep a point (start, end or center) of Edge at its current place */
+    fix(point:SketchEdgePoint='start', edge?:SketchEdgeRef):Sketch
+    {
+        const fixedEdge = this._getConstraintEdge(edge);
+        const entity = this._edgeToSolverEntity(fixedEdge);
+        const target = new SketchSolver([entity], []).point(entity, point);
+        
+        return this._addConstraint({ type: 'fix', edges: [fixedEdge], points: [point], target: target });
+    }
+
+    /** Solve all constraints of the Sketch. Solving is automatic, but you can use this to get the state */
+    solve():SolverResult
+    {
+        return this._solveConstraints();
+    }
+
+    _addConstraint(constraint:SketchConstraint):Sketch
+    {
+        if (this.mode === 'surface')
+        {
+            console.warn(`Sketch::_addConstraint: Constraints are not supported when sketching on a surface. Skipped "${constraint.type}"`);
+            return this;
+        }
+        this.constraints.push(constraint);
+        this._solveConstraints();
+
+        return this;
+    }
+
+    _getConstraintEdge(ref:SketchEdgeRef=-1):Edge
+    {
+        const edges = this.shapes.getShapesByType('Edge').toArray() as Array<Edge>;
+        const edge = (typeof ref === 'number') ? edges[(ref < 0) ? edges.length + ref : ref] : edges.find(e => e === ref || e.same(ref));
+
+        if (!edge)
+        {
+            throw new Error(`Sketch::_getConstraintEdge: Could not find Edge "${ref}" in Sketch. Edges that are combined into Wires (for example by fillets) can not be constrained`);
+        }
+        return edge;
+    }
+
+    /** Local 2D geometry of Edge for SketchSolver: lines and arcs can change, other Edges are fixed */
+    _edgeToSolverEntity(edge:Edge):SolverEntity
+    {
+        const [start, end] = [this._toLocal(edge.start()), this._toLocal(edge.end())];
+        const edgeType = edge.edgeType();
+
+        if (edgeType === 'Arc')
+        {
+            // circle through start, middle and end
+            const mid = this._toLocal(edge.middle());
+            const [a, b, c] = [start, mid, end].map(p => [p.x, p.y, p.x * p.x + p.y * p.y]);
+            const d = 2 * (a[0] * (b[1] - c[1]) + b[0] * (c[1] - a[1]) + c[0] * (a[1] - b[1]));
+            const cx = (a[2] * (b[1] - c[1]) + b[2] * (c[1] - a[1]) + c[2] * (a[1] - b[1])) / d;
+            const cy = (a[2] * (c[0] - b[0]) + b[2] * (a[0] - c[0]) + c[2] * (b[0] - a[0])) / d;
+
+            return {
+                type: 'arc',
+                params: [cx, cy, Math.hypot(start.x - cx, start.y - cy), Math.atan2(start.y - cy, start.x - cx), Math.atan2(end.y - cy, end.x - cx)],
+                ccw: (mid.x - start.x) * (end.y - mid.y) - (mid.y - start.y) * (end.x - mid.x) > 0,
+            };
+        }
+
+        return { type: (edgeType === 'Line') ? 'line' : 'fixed', params: [start.x, start.y, end.x, end.y] };
+    }
+
+    /** Solve constraints and update the Edges in place. Returns null if there are no constraints */
+    _solveConstraints():SolverResult
+    {
+        const edges = this.shapes.getShapesByType('Edge').toArray() as Array<Edge>;
+        const edgeIndex = (edge:Edge) => edges.findIndex(e => e === edge || e.same(edge));
+
+        // Edges can be removed or combined into Wires by operations
+        const validConstraints = this.constraints.filter(c => c.edges.every(e => edgeIndex(e) >= 0));
+        if (validConstraints.length < this.constraints.length)
+        {
+            console.warn(`Sketch::_solveConstraints: Removed ${this.constraints.length - validConstraints.length} constraint(s) on Edges that are no longer in the Sketch`);
+            this.constraints = validConstraints;
+        }
+        if (this.constraints.length === 0)
+        {
+            return null;
+        }
+
+        const entities = edges.map(e => this._edgeToSolverEntity(e));
+        const solver = new SketchSolver(entities, []);
+        const userConstraints = this.constraints.map(c => ({ type: c.type, entities: c.edges.map(e => edgeIndex(e)), points: c.points, value: c.value, target: c.target }));
+        const firstStart = solver.point(entities[0], 'start');
+        
+        solver.constraints = [
+            { type: 'fix', entities: [0], points: ['start'], target: firstStart }, // otherwise the Sketch can move freely
+            ...this._getConnections(solver, userConstraints),
+            ...userConstraints,
+        ] as Array<SolverConstraint>;
+
+        const before = entities.map(e => e.params.slice());
+        const result = solver.solve();
+
+        entities.forEach((entity, i) =>
+        {
+            if (entity.params.some((v, p) => Math.abs(v - before[i][p]) > SKETCH_CONSTRAINT_TOLERANCE / 1000))
+            {
+                this._updateEdgeFromSolverEntity(edges[i], entity, solver);
+            }
+        });
+
+        this._reportConstraintState(result);
+
+        return result;
+    }
+
+    /** Keep Edges that are connected now connected while solving: one coincident constraint per connection */
+    _getConnections(solver:SketchSolver, userConstraints:Array<SolverConstraint>):Array<SolverConstraint>
+    {
+        const ends:Array<SketchEdgePoint> = ['start', 'end'];
+        const points = [].concat(...solver.entities.map((entity, e) => ends.map(end => ({ entity: e, end: end, point: solver.point(entity, end) }))));
+        const key = (entity:number, end:SketchEdgePoint) => `${entity}-${end}`;
+
+        // union-find to avoid redundant coincident constraints (like three Edges in one point)
+        const parents = {};
+        const find = (k:string) => (parents[k] && parents[k] !== k) ? (parents[k] = find(parents[k])) : k;
+        const union = (k1:string, k2:string) =>
+        {
+            const [r1, r2] = [find(k1), find(k2)];
+            if (r1 === r2) { return false; }
+            parents[r1] = r2;
+            return true;
+        }
+
+        userConstraints.filter(c => c.type === 'coincident' && ends.includes(c.points[0]) && ends.includes(c.points[1]))
+                        .forEach(c => union(key(c.entities[0], c.points[0]), key(c.entities[1], c.points[1])));
+
+        const connections:Array<SolverConstraint> = [];
+        points.forEach((p1, i) => points.slice(i + 1).forEach(p2 =>
+        {
+            const isClose = p1.entity !== p2.entity && Math.hypot(p1.point[0] - p2.point[0], p1.point[1] - p2.point[1]) <= SKETCH_CONSTRAINT_TOLERANCE;
+            if (isClose && union(key(p1.entity, p1.end), key(p2.entity, p2.end)))
+            {
+                connections.push({ type: 'coincident', entities: [p1.entity, p2.entity], points: [p1.end, p2.end] });
+            }
+        }));
+
+        return connections;
+    }
+
+    /** Replace geometry of Edge with solved one: the Edge instance stays the same for constraints and cursors */
+    _updateEdgeFromSolverEntity(edge:Edge, entity:SolverEntity, solver:SketchSolver)
+    {
+        const toWorld = (p:Array<number>) => this._toWorld(new Point(p[0], p[1], 0));
+        const [oldStart, oldEnd] = [edge.start().toPoint(), edge.end().toPoint()];
+        const [start, end] = [toWorld(solver.point(entity, 'start')), toWorld(solver.point(entity, 'end'))];
+
+        let solvedEdge:Edge;
+        if (entity.type === 'arc')
+        {
+            const [cx, cy, radius, startAngle] = entity.params;
+            const midAngle = startAngle + ((entity.ccw) ? 1 : -1) * solver.sweep(entity) / 2;
+            solvedEdge = new Edge().makeArc(start, toWorld([cx + radius * Math.cos(midAngle), cy + radius * Math.sin(midAngle)]), end);
+        }
+        else {
+            solvedEdge = new Edge().makeLine(start, end);
+        }
+        edge._ocShape = solvedEdge._ocShape;
+
+        // move cursors that were at the old endpoints
+        this.cursors = this.cursors.map(cursor =>
+        {
+            if (cursor.point.equals(oldEnd))
+            {
+                return edge.getCursor();
+            }
+            return (cursor.point.equals(oldStart)) ? { ...cursor, point: start } : cursor;
+        });
+        this._setActiveCursor();
+    }
+
+    /** Log changes in constraint state */
+    _reportConstraintState(result:SolverResult)
+    {
+        const prevState = this.constraintState;
+        this.constraintState = result;
+
+        if (prevState && prevState.solved === result.solved && prevState.dof === result.dof && prevState.redundant === result.redundant)
+        {
+            return;
+        }
+
+        if (!result.solved)
+        {
+            console.warn(`Sketch::solve: Sketch is over-constrained: constraints conflict. Largest remaining error: ${result.error.toFixed(6)}`);
+        }
+        else if (result.redundant > 0)
+        {
+            console.warn(`Sketch::solve: Sketch is over-constrained: ${result.redundant} redundant constraint(s). Remove them to avoid conflicts`);
+        }
+        else if (result.dof > 0)
+        {
+            console.info(`Sketch::solve: Sketch is under-constrained: ${result.dof} degree(s) of freedom left`);
+        }
+        else {
+            console.info(`Sketch::solve: Sketch is fully constrained`);
+        }
+    }
+
     //// FINISHING SKETCHES ////
 
     /** Just get Shapes without adding to Scene (used by IO) */
@@ -1133,6 +1594,53 @@ export class Sketch
 
     //// OPERATIONS THAT TURN SKETCH INTO A SHAPE ////
 
+    /** Split the Face of a Sketch on a surface with the sketched Edges, Wires and outlines of Faces
+     *  The Face is replaced by the resulting parts, which are returned */
+    splitSurface():AnyShapeOrCollection
+    {
+        if (this.mode !== 'surface')
+        {
+            throw new Error(`Sketch::splitSurface: Sketch is not on a surface. Use sketch(face) to draw on the surface of a Face`);
+        }
+        this.combine();
+        const tools = this.shapes.filter(s => !s._isTmp).edges();
+        
+        this._removeSketchLayer();
+        
+        return this.surface.split(tools);
+    }
+
+    /** Turn the sketched regions on a surface into Solids that follow the surface
+     *  A positive height raises them along the normal of the Face. Union them with the Solid of the Face to emboss 
+     *  or subtract the Solids made with a negative height to engrave */
+    @checkInput(Number, 'auto')
+    emboss(height:number):ShapeCollection
+    {
+        if (this.mode !== 'surface')
+        {
+            throw new Error(`Sketch::emboss: Sketch is not on a surface. Use sketch(face) to draw on the surface of a Face`);
+        }
+        this.close(); // closed Wires to Faces
+        
+        const solids = new ShapeCollection();
+        this.shapes.filter(s => !s._isTmp).getShapesByType('Face').forEach(face =>
+        {
+            const solid = ((face as Face).toShell() as Shell)._bridgeThickened(height);
+            if (solid)
+            {
+                solids.add(solid);
+            }
+        });
+        if (solids.length === 0)
+        {
+            console.warn(`Sketch::emboss: No Solids made. Make sure the Sketch contains closed regions`);
+        }
+
+        this._removeSketchLayer();
+        
+        return solids.addToScene();
+    }
+
     
 
 
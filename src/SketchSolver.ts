@@ -0,0 +1,389 @@
+/**
+ *  SketchSolver.ts
+ *      Solve geometric constraints between Edges of a Sketch in local 2D coordinates
+ *      The geometry is changed as little as possible, preferring to move the newest Edges
+ *
+ *      Method: Gauss-Newton with minimal (weighted) norm steps: dx = -W⁻¹Jᵀ(JW⁻¹Jᵀ)⁻¹r
+ *      The rank of the Jacobian at the solution gives the degrees of freedom and redundant constraints
+ */
+
+export type SketchConstraintType = 'coincident'|'horizontal'|'vertical'|'parallel'|'perpendicular'|'tangent'|'equal'|'distance'|'angle'|'radius'|'fix'
+export type SketchEdgePoint = 'start'|'end'|'center'
+
+/** Geometry of Edge in local 2D coordinates. Fixed entities (like splines) are not changed by the solver */
+export interface SolverEntity
+{
+    type:'line'|'arc'|'fixed'
+    params:Array<number> // line and fixed: [x1,y1,x2,y2], arc: [cx,cy,radius,startAngle,endAngle]
+    ccw?:boolean // arc runs counter clockwise from start to end
+}
+
+export interface SolverConstraint
+{
+    type:SketchConstraintType
+    entities:Array<number> // indices of entities
+    points?:Array<SketchEdgePoint> // points of entities, for coincident, tangent at shared point, distance and fix
+    value?:number // distance, radius or angle (radians)
+    target?:Array<number> // [x,y] for fix
+}
+
+export interface SolverResult
+{
+    status:'wellconstrained'|'underconstrained'|'overconstrained'
+    solved:boolean // all constraints are satisfied
+    dof:number // degrees of freedom left
+    redundant:number // number of constraint equations that are redundant or conflicting
+    error:number // largest remaining residual
+}
+
+const SOLVER_TOLERANCE = 1e-7;
+const SOLVER_MAX_ITERATIONS = 100;
+const SOLVER_RANK_TOLERANCE = 1e-6;
+const SOLVER_WEIGHT_PER_AGE = 4; // older entities are this many times harder to move than the next
+const SOLVER_MAX_WEIGHT = 1e6;
+
+export class SketchSolver
+{
+    entities:Array<SolverEntity> = [];
+    constraints:Array<SolverConstraint> = [];
+
+    constructor(entities:Array<SolverEntity>, constraints:Array<SolverConstraint>)
+    {
+        this.entities = entities;
+        this.constraints = constraints;
+    }
+
+    /** Change params of entities so all constraints are met */
+    solve():SolverResult
+    {
+        const variables = this._variables();
+        let x = variables.map(v => this.entities[v.entity].params[v.param]);
+        const weights = variables.map(v => Math.min(SOLVER_MAX_WEIGHT, Math.pow(SOLVER_WEIGHT_PER_AGE, this.entities.length - 1 - v.entity)));
+
+        let r = this._residuals(x, variables);
+        let error = this._squaredSum(r);
+
+        for (let i = 0; i < SOLVER_MAX_ITERATIONS && this._maxAbs(r) > SOLVER_TOLERANCE; i++)
+        {
+            const J = this._jacobian(x, variables, r);
+            const JW = J.map(row => row.map((v, c) => v / weights[c]));
+            const M = JW.map(rowA => J.map(rowB => rowA.reduce((sum, v, c) => sum + v * rowB[c], 0)));
+            const regularization = 1e-10 * (1 + Math.max(0, ...M.map((row, i) => row[i])));
+            M.forEach((row, i) => row[i] += regularization); // for redundant constraints
+
+            const y = this._solveLinear(M, r);
+            const dx = x.map((v, c) => -JW.reduce((sum, row, i) => sum + row[c] * y[i], 0));
+
+            // line search: only take steps that decrease the error
+            let t = 1;
+            let newX, newR, newError;
+            do {
+                newX = x.map((v, c) => v + t * dx[c]);
+                newR = this._residuals(newX, variables);
+                newError = this._squaredSum(newR);
+                t /= 2;
+            }
+            while (newError >= error && t > 1e-6);
+
+            if (newError >= error)
+            {
+                break; // no progress: conflicting constraints
+            }
+            [x, r, error] = [newX, newR, newError];
+        }
+
+        this._setVariables(x, variables);
+
+        const rank = this._rank(this._jacobian(x, variables, r));
+        const dof = variables.length - rank;
+        const redundant = r.length - rank;
+        const solved = this._maxAbs(r) <= SOLVER_TOLERANCE * 100;
+
+        return {
+            status: (!solved || redundant > 0) ? 'overconstrained' : (dof > 0) ? 'underconstrained' : 'wellconstrained',
+            solved: solved,
+            dof: dof,
+            redundant: redundant,
+            error: this._maxAbs(r),
+        };
+    }
+
+    //// GEOMETRY ////
+
+    /** Point of entity with given params */
+    point(entity:SolverEntity, which:SketchEdgePoint, p:Array<number>=entity.params):Array<number>
+    {
+        if (entity.type === 'arc')
+        {
+            const [cx, cy, radius, startAngle, endAngle] = p;
+            if (which === 'center')
+            {
+                return [cx, cy];
+            }
+            const angle = (which === 'start') ? startAngle : endAngle;
+            return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+        }
+        const [x1, y1, x2, y2] = p;
+        return { start: [x1, y1], end: [x2, y2], center: [(x1 + x2) / 2, (y1 + y2) / 2] }[which];
+    }
+
+    /** Normalized direction at a point of entity (start, end or chord direction) */
+    tangent(entity:SolverEntity, which:SketchEdgePoint|null, p:Array<number>=entity.params):Array<number>
+    {
+        if (entity.type === 'arc' && (which === 'start' || which === 'end'))
+        {
+            const angle = (which === 'start') ? p[3] : p[4];
+            const sign = (entity.ccw) ? 1 : -1;
+            return [-Math.sin(angle) * sign, Math.cos(angle) * sign];
+        }
+        const [start, end] = [this.point(entity, 'start', p), this.point(entity, 'end', p)];
+        const length = Math.hypot(end[0] - start[0], end[1] - start[1]) || 1;
+        return [(end[0] - start[0]) / length, (end[1] - start[1]) / length];
+    }
+
+    length(entity:SolverEntity, p:Array<number>=entity.params):number
+    {
+        if (entity.type === 'arc')
+        {
+            return Math.abs(p[2]) * this.sweep(entity, p);
+        }
+        return Math.hypot(p[2] - p[0], p[3] - p[1]);
+    }
+
+    /** Angle (radians) that arc runs through */
+    sweep(entity:SolverEntity, p:Array<number>=entity.params):number
+    {
+        const delta = (entity.ccw) ? p[4] - p[3] : p[3] - p[4];
+        const sweep = ((delta % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+        return (sweep < SOLVER_TOLERANCE) ? 2 * Math.PI : sweep;
+    }
+
+    /** Shortest distance from point to entity: to the infinite line or the circle of an arc */
+    distanceToEntity(point:Array<number>, entity:SolverEntity, p:Array<number>=entity.params):number
+    {
+        if (entity.type === 'arc')
+        {
+            return Math.abs(Math.hypot(point[0] - p[0], point[1] - p[1]) - Math.abs(p[2]));
+        }
+        const [dx, dy] = this.tangent(entity, null, p);
+        return Math.abs((point[0] - p[0]) * dy - (point[1] - p[1]) * dx);
+    }
+
+    /** Set points for tangency: at the endpoints that the entities share (if any) */
+    prepareTangent(constraint:SolverConstraint, tolerance:number)
+    {
+        const [a, b] = constraint.entities.map(e => this.entities[e]);
+        const ends:Array<SketchEdgePoint> = ['start', 'end'];
+        let closest = null;
+
+        ends.forEach(endA => ends.forEach(endB =>
+        {
+            const [pa, pb] = [this.point(a, endA), this.point(b, endB)];
+            const distance = Math.hypot(pa[0] - pb[0], pa[1] - pb[1]);
+            if (distance <= tolerance && (!closest || distance < closest.distance))
+            {
+                closest = { distance: distance, points: [endA, endB] };
+            }
+        }));
+
+        if (closest)
+        {
+            constraint.points = closest.points;
+        }
+        else if (a.type === 'arc' && b.type === 'arc')
+        {
+            // touching from outside (0) or inside (1): keep the one that is closest now
+            const centerDistance = Math.hypot(a.params[0] - b.params[0], a.params[1] - b.params[1]);
+            const [ra, rb] = [Math.abs(a.params[2]), Math.abs(b.params[2])];
+            constraint.value = (Math.abs(centerDistance - (ra + rb)) <= Math.abs(centerDistance - Math.abs(ra - rb))) ? 0 : 1;
+        }
+    }
+
+    //// RESIDUALS ////
+
+    _residuals(x:Array<number>, variables:Array<{ entity:number, param:number }>):Array<number>
+    {
+        const params = this.entities.map(e => e.params.slice());
+        variables.forEach((v, i) => params[v.entity][v.param] = x[i]);
+
+        const residuals = [];
+        this.constraints.forEach(c => residuals.push(...this._constraintResiduals(c, params)));
+        return residuals;
+    }
+
+    _constraintResiduals(c:SolverConstraint, params:Array<Array<number>>):Array<number>
+    {
+        const [a, b] = c.entities.map(e => this.entities[e]);
+        const [pa, pb] = c.entities.map(e => params[e]);
+        const cross = (u:Array<number>, v:Array<number>) => u[0] * v[1] - u[1] * v[0];
+        const dot = (u:Array<number>, v:Array<number>) => u[0] * v[0] + u[1] * v[1];
+
+        switch(c.type)
+        {
+            case 'fix':
+            {
+                const point = this.point(a, c.points[0], pa);
+                return [point[0] - c.target[0], point[1] - c.target[1]];
+            }
+            case 'coincident':
+            {
+                const [pointA, pointB] = [this.point(a, c.points[0], pa), this.point(b, c.points[1], pb)];
+                return [pointA[0] - pointB[0], pointA[1] - pointB[1]];
+            }
+            case 'horizontal':
+                return [this.point(a, 'end', pa)[1] - this.point(a, 'start', pa)[1]];
+            case 'vertical':
+                return [this.point(a, 'end', pa)[0] - this.point(a, 'start', pa)[0]];
+            case 'parallel':
+                return [cross(this.tangent(a, null, pa), this.tangent(b, null, pb))];
+            case 'perpendicular':
+                return [dot(this.tangent(a, null, pa), this.tangent(b, null, pb))];
+            case 'tangent':
+            {
+                if (c.points)
+                {
+                    return [cross(this.tangent(a, c.points[0], pa), this.tangent(b, c.points[1], pb))];
+                }
+                if (a.type === 'arc' && b.type === 'arc')
+                {
+                    const centerDistance = Math.hypot(pa[0] - pb[0], pa[1] - pb[1]);
+                    const [ra, rb] = [Math.abs(pa[2]), Math.abs(pb[2])];
+                    return [centerDistance - ((c.value === 1) ? Math.abs(ra - rb) : ra + rb)];
+                }
+                if (a.type === 'arc' || b.type === 'arc')
+                {
+                    const [arc, arcParams, line, lineParams] = (a.type === 'arc') ? [a, pa, b, pb] : [b, pb, a, pa];
+                    return [this.distanceToEntity(this.point(arc, 'center', arcParams), line, lineParams) - Math.abs(arcParams[2])];
+                }
+                return [cross(this.tangent(a, null, pa), this.tangent(b, null, pb))];
+            }
+            case 'equal':
+                return (a.type === 'arc' && b.type === 'arc') ? [Math.abs(pa[2]) - Math.abs(pb[2])] : [this.length(a, pa) - this.length(b, pb)];
+            case 'distance':
+                return (b) ? [this.distanceToEntity(this.point(a, c.points?.[0] || 'center', pa), b, pb) - c.value] : [this.length(a, pa) - c.value];
+            case 'angle':
+            {
+                const angleOf = (entity:SolverEntity, p:Array<number>) =>
+                {
+                    const [dx, dy] = this.tangent(entity, null, p);
+                    return Math.atan2(dy, dx);
+                }
+                const delta = angleOf(a, pa) - ((b) ? angleOf(b, pb) : 0) - c.value;
+                return [Math.atan2(Math.sin(delta), Math.cos(delta))];
+            }
+            case 'radius':
+                return [Math.abs(pa[2]) - c.value];
+            default:
+                return [];
+        }
+    }
+
+    //// NUMERICS ////
+
+    _variables():Array<{ entity:number, param:number }>
+    {
+        const variables = [];
+        this.entities.forEach((e, entity) =>
+        {
+            if (e.type !== 'fixed')
+            {
+                e.params.forEach((v, param) => variables.push({ entity: entity, param: param }));
+            }
+        });
+        return variables;
+    }
+
+    _setVariables(x:Array<number>, variables:Array<{ entity:number, param:number }>)
+    {
+        variables.forEach((v, i) => this.entities[v.entity].params[v.param] = x[i]);
+    }
+
+    /** Numerical derivatives of residuals to variables (rows: residuals, columns: variables) */
+    _jacobian(x:Array<number>, variables:Array<{ entity:number, param:number }>, r:Array<number>):Array<Array<number>>
+    {
+        const J = r.map(() => new Array(x.length).fill(0));
+        x.forEach((v, c) =>
+        {
+            const h = 1e-7 * Math.max(1, Math.abs(v));
+            const shifted = x.slice();
+            shifted[c] += h;
+            this._residuals(shifted, variables).forEach((value, i) => J[i][c] = (value - r[i]) / h);
+        });
+        return J;
+    }
+
+    /** Gaussian elimination with partial pivoting */
+    _solveLinear(A:Array<Array<number>>, b:Array<number>):Array<number>
+    {
+        const n = b.length;
+        const M = A.map((row, i) => [...row, b[i]]);
+
+        for (let col = 0; col < n; col++)
+        {
+            let pivot = col;
+            for (let row = col + 1; row < n; row++)
+            {
+                if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) { pivot = row; }
+            }
+            [M[col], M[pivot]] = [M[pivot], M[col]];
+            if (Math.abs(M[col][col]) < 1e-300)
+            {
+                continue;
+            }
+            for (let row = col + 1; row < n; row++)
+            {
+                const factor = M[row][col] / M[col][col];
+                for (let k = col; k <= n; k++) { M[row][k] -= factor * M[col][k]; }
+            }
+        }
+
+        const solution = new Array(n).fill(0);
+        for (let row = n - 1; row >= 0; row--)
+        {
+            let sum = M[row][n];
+            for (let k = row + 1; k < n; k++) { sum -= M[row][k] * solution[k]; }
+            solution[row] = (Math.abs(M[row][row]) < 1e-300) ? 0 : sum / M[row][row];
+        }
+        return solution;
+    }
+
+    /** Rank by elimination with tolerance relative to the largest value */
+    _rank(A:Array<Array<number>>):number
+    {
+        const M = A.map(row => row.slice());
+        const columns = (M.length) ? M[0].length : 0;
+        const tolerance = SOLVER_RANK_TOLERANCE * Math.max(1, ...M.map(row => this._maxAbs(row)));
+        let rank = 0;
+
+        for (let col = 0; col < columns && rank < M.length; col++)
+        {
+            let pivot = rank;
+            for (let row = rank + 1; row < M.length; row++)
+            {
+                if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) { pivot = row; }
+            }
+            if (Math.abs(M[pivot][col]) <= tolerance)
+            {
+                continue;
+            }
+            [M[rank], M[pivot]] = [M[pivot], M[rank]];
+            for (let row = rank + 1; row < M.length; row++)
+            {
+                const factor = M[row][col] / M[rank][col];
+                for (let k = col; k < columns; k++) { M[row][k] -= factor * M[rank][k]; }
+            }
+            rank++;
+        }
+        return rank;
+    }
+
+    _squaredSum(v:Array<number>):number
+    {
+        return v.reduce((sum, value) => sum + value * value, 0);
+    }
+
+    _maxAbs(v:Array<number>):number
+    {
+        return v.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+    }
+}
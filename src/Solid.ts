@@ -14,6 +14,9 @@ import { toRad } from './internal';
 import { AnyShapeSequence, AnyShapeOrCollection, PointLike, isPointLike, AnyShape, isThickenDirection, ThickenDirection } from './internal';
 import { addResultShapesToScene, checkInput, protectOC } from './decorators'; //  Direct import to avoid error in ts-node/jest
 import { MakeSolidInput, isMakeSolidInput, AnyShapeOrCollectionOrSelectionString, isSelectionString, SelectionString } from './internal'; // types
+import { FilletRadius, FilletRadiusMap, ChamferDistance, ChamferDistanceMap, isFilletRadiusMap, isChamferDistanceMap, isNumeric } from './internal';
+import { HolePositions, HoleOptions, HoleInfo, HoleType } from './internal';
+import { SOLID_HOLE_DIAMETER, SOLID_HOLE_COUNTERBORE_DIAMETER_FACTOR, SOLID_HOLE_COUNTERSINK_DIAMETER_FACTOR, SOLID_HOLE_COUNTERSINK_ANGLE, METRIC_THREAD_PITCHES } from './internal';
 
 export class Solid extends Shape
 {   
@@ -26,6 +29,7 @@ export class Solid extends Shape
     + _position:Vector
     + _oc
     */
+    _failedEdges:ShapeCollection = null; // Edges that failed in last fillet or chamfer
 
     constructor(o?:any, ...args)
     {   
@@ -308,10 +312,14 @@ export class Solid extends Shape
         return this;
     }
 
-    /** Give the Solid rounded corners at its Edges with a given radius */
+    /** Give the Solid rounded corners at its Edges
+     *  radius can be a constant, [startRadius,endRadius] or stations [[relativeParam,radius],..] along the Edge
+     *  or a map of selection strings with radius for multiple Edges at once: { 'E|Z': 5, 'E||top': 2 }
+     *  Edges that can't be filleted are skipped and reported (see failedEdges())
+     */
     @protectOC(['Fillet size cannot be bigger then length of filleted Edge'])
-    @checkInput([[Number,SOLID_FILLET_RADIUS], ['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
-    fillet(radius?:number, edges?:AnyShapeOrCollectionOrSelectionString):Solid
+    @checkInput([['FilletRadiusOrMap',SOLID_FILLET_RADIUS], ['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
+    fillet(radius?:FilletRadius|FilletRadiusMap, edges?:AnyShapeOrCollectionOrSelectionString):Solid
     {
         /* OC Docs: 
             - https://dev.opencascade.org/doc/occt-7.5.0/refman/html/class_b_rep_fillet_a_p_i___make_fillet.html
@@ -320,13 +328,90 @@ export class Solid extends Shape
             NOTE: interesting custom Shapes possible as fillet
         */
 
+        const edgeValues = isFilletRadiusMap(radius) ? this._edgeValuesFromMap('fillet', radius, edges) : this._edgeValues('fillet', radius, edges);
+        const ocShape = this._buildEdgeOperation('fillet', edgeValues);
+        if (ocShape)
+        {
+            let newSolid = this._fromOcShape(ocShape) as Solid; // automatically converts the returned Compound with only one Solid Shape to that Solid
+            this._fromOcSolid(newSolid._ocShape); // replace old Solid with new one            
+            
+            return this;
+        }
+        else {
+            throw new Error(`Solid::fillet: ERROR\nError generating filleted Solid. Check given Edge. Do the belong to Solid?`);
+        }   
+    }
+
+    /** Alias for filleted but with making copy  */
+    @checkInput([['FilletRadiusOrMap',SOLID_FILLET_RADIUS], ['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
+    filleted(radius?:FilletRadius|FilletRadiusMap, edges?:AnyShapeOrCollectionOrSelectionString):Solid
+    {
+        return (this.copy() as Solid).fillet(radius, edges);
+    }
+
+    /** Chamfer Solid at given Edges 
+     *  distance can be a number, two distances [d1,d2] or a distance and angle { distance: 5, angle: 30 }
+     *  or a map of selection strings with distances: { 'E|Z': 5, 'E||top': [2,4] }
+     *  Edges that can't be chamfered are skipped and reported (see failedEdges())
+     */
+    @checkInput([['ChamferDistanceOrMap', SOLID_CHAMFER_DISTANCE],['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
+    chamfer(distance?:ChamferDistance|ChamferDistanceMap, edges?:AnyShapeOrCollectionOrSelectionString, ):Solid
+    {
+        /* OC Docs: 
+            - https://dev.opencascade.org/doc/occt-7.5.0/refman/html/class_b_rep_fillet_a_p_i___make_chamfer.html
+        */
+        const edgeValues = isChamferDistanceMap(distance) ? this._edgeValuesFromMap('chamfer', distance, edges) : this._edgeValues('chamfer', distance, edges);
+        const ocShape = this._buildEdgeOperation('chamfer', edgeValues);
+        if (ocShape)
+        {
+            let newSolid = this._fromOcShape(ocShape) as Solid; // automatically converts the returned Compound with only one Solid Shape to that Solid
+            this._fromOcSolid(newSolid._ocShape); // replace old Solid with new one
+            
+            return this;
+        }
+        else {
+            throw new Error(`Solid::chamfer: ERROR\n Error generating chamfered Solid`);
+        }   
+
+    }
+
+    /** Same of chamfer but with a copied Shape */
+    @checkInput([['ChamferDistanceOrMap', SOLID_CHAMFER_DISTANCE],['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
+    chamfered(distance?:ChamferDistance|ChamferDistanceMap, edges?:AnyShapeOrCollectionOrSelectionString, ):Solid
+    {
+        return (this.copy() as Solid).chamfer(distance, edges);
+    }
+
+    /** Alias for chamfer */
+    @checkInput([['ChamferDistanceOrMap', SOLID_CHAMFER_DISTANCE],'AnyShapeOrCollection'], ['auto','ShapeCollection'])
+    bevel(distance?:ChamferDistance|ChamferDistanceMap, edges?:AnyShapeOrCollection):Solid
+    {
+        return this.chamfer(distance, edges);
+    }
+
+    /** Alias for chamfered */
+    @checkInput([['ChamferDistanceOrMap', SOLID_CHAMFER_DISTANCE],'AnyShapeOrCollection'], ['auto','ShapeCollection'])
+    beveled(distance?:ChamferDistance|ChamferDistanceMap, edges?:AnyShapeOrCollection):Solid
+    {
+        return this.chamfered(distance, edges);
+    }
+
+    /** Edges that were skipped in the last fillet or chamfer operation because they failed */
+    failedEdges():ShapeCollection
+    {
+        return this._failedEdges || new ShapeCollection();
+    }
+
+    /** Get Edges of this Solid from given Shapes or selection string (null means all) for fillet or chamfer */
+    _operationEdges(operation:string, edges:AnyShapeOrCollectionOrSelectionString):ShapeCollection
+    {
         // make an effort to check and include Edges
-        let filletEdges = new ShapeCollection();
+        let operationEdges = new ShapeCollection();
         let solidEdges = this.edges();
 
-        if (edges === null)
+        if (edges === null || edges === undefined)
         {
-            filletEdges = solidEdges; // all
+            operationEdges = solidEdges; // all
         }
         else if(isSelectionString(edges))
         {
@@ -335,38 +420,38 @@ export class Solid extends Shape
             let selectedShapes = new ShapeCollection(this.select(selectionString)); // select might return Shape or ShapeCollection
             if (selectedShapes == null)
             {
-                throw new Error(`Solid::fillet: ERROR\n Could not get any Shapes with selection string: ${selectionString}!`)
+                throw new Error(`Solid::${operation}: ERROR\n Could not get any Shapes with selection string: ${selectionString}!`)
             }
             else {
                 // we got some Shapes
                 // if Vertices we need to convert to Edges
                 if(selectedShapes.every(shape => shape.type() === 'Vertex'))
                 {
-                    filletEdges = this._intersections(selectedShapes);
+                    operationEdges = this._intersections(selectedShapes);
                 }
                 else {
-                    filletEdges = selectedShapes.getSubShapes('Edge');
+                    operationEdges = selectedShapes.getSubShapes('Edge');
                 }
             }
         }
         else {
-            // just a collection
-            filletEdges = new ShapeCollection(edges);
+            // just a Shape or Collection
+            operationEdges = new ShapeCollection(edges);
         }
 
         // now check
-        let checkedFilletEdges = new ShapeCollection();
+        let checkedEdges = new ShapeCollection();
 
-        filletEdges.forEach(shape =>
+        operationEdges.forEach(shape =>
         {
             let shapeType = shape.type();
             if (shapeType == 'Edge')
             {
-                checkedFilletEdges.add(shape as Edge);
+                checkedEdges.add(shape as Edge);
             }
             else if (['Face','Shell','Solid'].includes(shapeType))
             {
-                checkedFilletEdges.add(shape.edges());
+                checkedEdges.add(shape.edges());
             }
             else if (shapeType == 'Vertex')
             {
@@ -374,26 +459,26 @@ export class Solid extends Shape
                 let intersectingEdges = solidEdges.intersecting(shape as Vertex);
                 if (intersectingEdges.length > 0)
                 {
-                    checkedFilletEdges.add(intersectingEdges);
+                    checkedEdges.add(intersectingEdges);
                 }
             }
         })
-        checkedFilletEdges = checkedFilletEdges.unique(); // filter out double geometries
+        checkedEdges = checkedEdges.unique(); // filter out double geometries
 
-        let checkedOfShapeFilletEdges = new ShapeCollection();
+        let checkedOfShapeEdges = new ShapeCollection();
         
         // make sure all edges are directly actually part of Solid or equal (in that case convert to the Edge of Solid)
-        checkedFilletEdges.forEach(edge => 
+        checkedEdges.forEach(edge => 
         {
             if (solidEdges.has(edge))
             {
-                checkedOfShapeFilletEdges.add(edge)
+                checkedOfShapeEdges.add(edge)
             }
             else {
                 let equalEdges = solidEdges.getEquals(edge)
                 if(equalEdges.length > 0)
                 {
-                    checkedOfShapeFilletEdges.add(equalEdges.first());
+                    checkedOfShapeEdges.add(equalEdges.first());
                 }
                 else {
                     console.warn(`Skipped edge ${edge} that is not part of Solid or equal to a Edge in it!`)
@@ -401,165 +486,280 @@ export class Solid extends Shape
             } 
         });
 
-        checkedOfShapeFilletEdges = checkedOfShapeFilletEdges.unique(); // again make sure we don't get doubles
-        if (checkedOfShapeFilletEdges.length == 0)
+        checkedOfShapeEdges = checkedOfShapeEdges.unique(); // again make sure we don't get doubles
+        if (checkedOfShapeEdges.length == 0)
+        {
+            throw new Error(`Solid::${operation}: ERROR\nCould not get any valid Edges for ${operation}. Check given edges!`)
+        }
+
+        return checkedOfShapeEdges;
+    }
+
+    /** Same radius or distance for all given Edges */
+    _edgeValues(operation:string, value:FilletRadius|ChamferDistance, edges:AnyShapeOrCollectionOrSelectionString):Array<{ edge:Edge, value:FilletRadius|ChamferDistance }>
+    {
+        return this._operationEdges(operation, edges).toArray().map(edge => ({ edge: edge as Edge, value: value }));
+    }
+
+    /** Radius or distance per selection string. Edges selected by a later selection string get its value */
+    _edgeValuesFromMap(operation:string, valueMap:FilletRadiusMap|ChamferDistanceMap, edges:AnyShapeOrCollectionOrSelectionString):Array<{ edge:Edge, value:FilletRadius|ChamferDistance }>
+    {
+        if (edges)
+        {
+            console.warn(`Solid::${operation}: Given Edges are ignored because selection strings are given with values!`);
+        }
+
+        let edgeValues:Array<{ edge:Edge, value:FilletRadius|ChamferDistance }> = [];
+        Object.entries(valueMap).forEach(([selection, value]) => 
+        {
+            this._operationEdges(operation, selection).forEach(edge => 
+            {
+                edgeValues = edgeValues.filter(ev => !ev.edge.same(edge));
+                edgeValues.push({ edge: edge as Edge, value: value });
+            });
+        });
+
+        return edgeValues;
+    }
+
+    /** Run fillet or chamfer with Edges and their values. 
+     *  If that fails, test the Edges one by one, report the ones that fail on their own and retry without them
+     *  Returns the new OC Shape or null if nothing could be made
+     */
+    _buildEdgeOperation(operation:'fillet'|'chamfer', edgeValues:Array<{ edge:Edge, value:FilletRadius|ChamferDistance }>):any
+    {
+        this._failedEdges = new ShapeCollection();
+
+        let ocShape = this._tryEdgeOperation(operation, edgeValues);
+        if (!ocShape && edgeValues.length > 1)
         {
-            throw new Error(`Solid::fillet: ERROR\nCould not get any valid Edges for filleting. Check given edges!`)
+            const workingEdgeValues = edgeValues.filter(ev => 
+            {
+                if (this._tryEdgeOperation(operation, [ev]))
+                {
+                    return true;
+                }
+                this._failedEdges.add(ev.edge);
+                console.warn(`Solid::${operation}: Could not ${operation} Edge ${ev.edge} with ${JSON.stringify(ev.value)}. Skipped it!`);
+                return false;
+            });
+
+            if (workingEdgeValues.length > 0 && workingEdgeValues.length < edgeValues.length)
+            {
+                ocShape = this._tryEdgeOperation(operation, workingEdgeValues);
+            }
         }
+
+        return ocShape;
+    }
+
+    /** Try to make fillet or chamfer. Returns OC Shape or null if it failed */
+    _tryEdgeOperation(operation:'fillet'|'chamfer', edgeValues:Array<{ edge:Edge, value:FilletRadius|ChamferDistance }>):any
+    {
+        const ocMaker = (operation === 'fillet') 
+                            ? new this._oc.BRepFilletAPI_MakeFillet(this._ocShape, this._oc.ChFi3d_FilletShape.ChFi3d_Rational) 
+                            : new this._oc.BRepFilletAPI_MakeChamfer(this._ocShape);
         
-        let ocMakeFillet = new this._oc.BRepFilletAPI_MakeFillet(this._ocShape, this._oc.ChFi3d_FilletShape.ChFi3d_Rational );
-        checkedOfShapeFilletEdges.forEach( edge => ocMakeFillet.Add_2(radius, edge._ocShape) );
-        ocMakeFillet.Build(new this._oc.Message_ProgressRange_1());
-        if (ocMakeFillet.IsDone())
+        try 
         {
-            let ocShape = ocMakeFillet.Shape();
-            let newSolid = this._fromOcShape(ocShape) as Solid; // automatically converts the returned Compound with only one Solid Shape to that Solid
-            this._fromOcSolid(newSolid._ocShape); // replace old Solid with new one            
-            
-            return this;
+            edgeValues.forEach(ev => (operation === 'fillet') 
+                                        ? this._addFilletEdge(ocMaker, ev.edge, ev.value as FilletRadius) 
+                                        : this._addChamferEdge(ocMaker, ev.edge, ev.value as ChamferDistance));
+            ocMaker.Build(new this._oc.Message_ProgressRange_1());
+            return (ocMaker.IsDone()) ? ocMaker.Shape() : null;
+        }
+        catch(e)
+        {
+            return null; // OC errors are thrown as numbers
         }
-        else {
-            throw new Error(`Solid::fillet: ERROR\nError generating filleted Solid. Check given Edge. Do the belong to Solid?`);
-        }   
     }
 
-    /** Alias for filleted but with making copy  */
-    @checkInput([[Number,SOLID_FILLET_RADIUS], ['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
-    filleted(radius?:number, edges?:AnyShapeOrCollectionOrSelectionString):Solid
+    _addFilletEdge(ocMakeFillet:any, edge:Edge, radius:FilletRadius)
     {
-        return (this.copy() as Solid).fillet(radius, edges);
+        if (isNumeric(radius))
+        {
+            ocMakeFillet.Add_2(Number(radius), edge._ocShape);
+        }
+        else if (!Array.isArray(radius[0]))
+        {
+            // linear from start to end
+            const [startRadius, endRadius] = (radius as [number,number]).map(r => Number(r));
+            ocMakeFillet.Add_3(startRadius, endRadius, edge._ocShape);
+        }
+        else {
+            // stations with relative parameter (0-1) along Edge: make sure we have start and end
+            let stations = (radius as Array<[number,number]>).map(s => [Number(s[0]), Number(s[1])]).sort((a,b) => a[0] - b[0]);
+            if (stations[0][0] > 0){ stations.unshift([0, stations[0][1]]); }
+            if (stations[stations.length-1][0] < 1){ stations.push([1, stations[stations.length-1][1]]); }
+
+            const ocStations = new this._oc.TColgp_Array1OfPnt2d_2(1, stations.length);
+            stations.forEach(([param, r], i) => ocStations.SetValue(i+1, new this._oc.gp_Pnt2d_3(param, r)));
+            ocMakeFillet.Add_5(ocStations, edge._ocShape);
+        }
     }
 
-    /** Chamfer Solid at given Edges with given size */
-    @checkInput([[Number, SOLID_CHAMFER_DISTANCE],['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
-    chamfer(distance?:number, edges?:AnyShapeOrCollectionOrSelectionString, ):Solid
+    _addChamferEdge(ocMakeChamfer:any, edge:Edge, distance:ChamferDistance)
     {
-         /* OC Docs: 
-            - https://dev.opencascade.org/doc/occt-7.5.0/refman/html/class_b_rep_fillet_a_p_i___make_chamfer.html
-        */
-         // make an effort to check and include Edges
-         let chamferEdges = new ShapeCollection();
-         let solidEdges = this.edges();
- 
-         if (edges === null)
-         {
-            chamferEdges = solidEdges; // all
-         }
-         else if(isSelectionString(edges))
-         {
-             let selectionString = edges as SelectionString;
- 
-             let selectedShapes = new ShapeCollection(this.select(selectionString));
-             if (selectedShapes == null)
-             {
-                 throw new Error(`Solid::chamfer: ERROR\n Could not get any Shapes with selection string: ${selectionString}!`)
-             }
-             else {
-                 // we got some Shapes
-                 // if Vertices we need to convert to Edges
-                 if(selectedShapes.every(shape => shape.type() === 'Vertex'))
-                 {
-                    chamferEdges = this._intersections(selectedShapes);
-                 }
-                 else {
-                    chamferEdges = selectedShapes.getSubShapes('Edge');
-                 }
-             }
-         }
-         else {
-             // just a Shape or Collection
-             chamferEdges = new ShapeCollection(edges);
-         }
- 
-         // now check
-         let checkedChamferEdges = new ShapeCollection();
- 
-         chamferEdges.forEach(shape =>
-         {
-             let shapeType = shape.type();
-             if (shapeType == 'Edge')
-             {
-                checkedChamferEdges.add(shape as Edge);
-             }
-             else if (['Face','Shell','Solid'].includes(shapeType))
-             {
-                checkedChamferEdges.add(shape.edges());
-             }
-             else if (shapeType == 'Vertex')
-             {
-                 // even make Vertex work
-                 let intersectingEdges = solidEdges.intersecting(shape as Vertex);
-                 if (intersectingEdges.length > 0)
-                 {
-                    checkedChamferEdges.add(intersectingEdges);
-                 }
-             }
-         })
-         checkedChamferEdges = checkedChamferEdges.unique(); // filter out double geometries
- 
-         let checkedOfShapeChamferEdges = new ShapeCollection();
-         
-         // make sure all edges are directly actually part of Solid or equal (in that case convert to the Edge of Solid)
-         checkedChamferEdges.forEach(edge => 
-         {
-             if (solidEdges.has(edge))
-             {
-                checkedOfShapeChamferEdges.add(edge)
-             }
-             else {
-                 let equalEdges = solidEdges.getEquals(edge)
-                 if(equalEdges.length > 0)
-                 {
-                    checkedOfShapeChamferEdges.add(equalEdges.first());
-                 }
-                 else {
-                     console.warn(`Skipped edge ${edge} that is not part of Solid or equal to a Edge in it!`)
-                 }
-             } 
-         });
- 
-         checkedOfShapeChamferEdges = checkedOfShapeChamferEdges.unique(); // again make sure we don't get doubles
-         if (checkedOfShapeChamferEdges.length == 0)
-         {
-             throw new Error(`Solid::chamfer: ERROR\nCould not get any valid Edges for filleting. Check given edges!`)
-         }
-         
-        let ocMakeChamfer = new this._oc.BRepFilletAPI_MakeChamfer(this._ocShape );
-        checkedOfShapeChamferEdges.forEach( edge => ocMakeChamfer.Add_2(distance, edge._ocShape) );
-        ocMakeChamfer.Build(new this._oc.Message_ProgressRange_1());
-        if (ocMakeChamfer.IsDone())
-        {
-            let ocShape = ocMakeChamfer.Shape();
-            let newSolid = this._fromOcShape(ocShape) as Solid; // automatically converts the returned Compound with only one Solid Shape to that Solid
-            this._fromOcSolid(newSolid._ocShape); // replace old Solid with new one
-            
-            return this;
+        if (isNumeric(distance))
+        {
+            ocMakeChamfer.Add_2(Number(distance), edge._ocShape);
+            return;
+        }
+
+        // asymmetric chamfers are measured from a Face next to the Edge
+        const face = this.faces().find(f => f.edges().has(edge)) as Face;
+        if (!face)
+        {
+            throw new Error(`Solid::chamfer: Could not find Face of Edge ${edge}`);
+        }
+
+        if (Array.isArray(distance))
+        {
+            ocMakeChamfer.Add_3(Number(distance[0]), Number(distance[1]), edge._ocShape, face._ocShape);
         }
         else {
-            throw new Error(`Solid::chamfer: ERROR\n Error generating chamfered Solid`);
-        }   
+            const distanceAngle = distance as { distance:number, angle:number };
+            ocMakeChamfer.AddDA(Number(distanceAngle.distance), toRad(Number(distanceAngle.angle)), edge._ocShape, face._ocShape);
+        }
+    }
+
+    //// HOLES ////
+
+    /** Drill holes at given positions or selected Vertices along the normal of the Face at that position
+     *  options is the diameter of a simple through hole or HoleOptions for blind, counterbored, countersunk and threaded holes
+     *  Every hole is recorded in attribute 'holes' (see holes())
+     */
+    @checkInput(['HolePositions', ['HoleOptions', SOLID_HOLE_DIAMETER]], ['auto','auto'])
+    hole(at:HolePositions, options?:number|HoleOptions):Solid
+    {
+        const holeOptions:HoleOptions = (typeof options === 'object') ? options : { diameter: Number(options) };
+        const bbox = this.bbox();
+        const throughDepth = Math.hypot(bbox.width(), bbox.depth(), bbox.height()); // always enough to get through
+
+        const holes:Array<HoleInfo> = [];
+        const tools = new ShapeCollection();
+        this._holePoints(at).forEach(point => 
+        {
+            const direction = (holeOptions.direction) ? new Vector(holeOptions.direction).normalized() : this._holeDirection(point);
+            if (direction)
+            {
+                const hole = this._holeInfo(holeOptions, point, direction);
+                tools.add(this._holeTools(hole, throughDepth));
+                holes.push(hole);
+            }
+        });
+
+        if (holes.length === 0)
+        {
+            throw new Error(`Solid::hole: Could not get any positions on Solid to drill holes. Check given positions or selection!`);
+        }
 
+        this.subtract(tools);
+        this.attribute('holes', (this.attribute('holes') || []).concat(holes));
+
+        return this;
     }
 
-    /** Same of chamfer but with a copied Shape */
-    @checkInput([[Number, SOLID_CHAMFER_DISTANCE],['AnyShapeOrCollectionOrSelectionString',null]], ['auto','auto'])
-    chamfered(distance?:number, edges?:AnyShapeOrCollectionOrSelectionString, ):Solid
+    /** Same as hole but on a copy */
+    @checkInput(['HolePositions', ['HoleOptions', SOLID_HOLE_DIAMETER]], ['auto','auto'])
+    holed(at:HolePositions, options?:number|HoleOptions):Solid
     {
-        return (this.copy() as Solid).chamfer(distance, edges);
+        return (this.copy() as Solid).hole(at, options);
     }
 
-    /** Alias for chamfer */
-    @checkInput([[Number, SOLID_CHAMFER_DISTANCE],'AnyShapeOrCollection'], ['auto','ShapeCollection'])
-    bevel(distance?:number, edges?:AnyShapeOrCollection):Solid
+    /** Holes drilled in this Solid */
+    holes():Array<HoleInfo>
     {
-        return this.chamfer(distance, edges);
+        return this.attribute('holes') || [];
     }
 
-    /** Alias for chamfered */
-    @checkInput([[Number, SOLID_CHAMFER_DISTANCE],'AnyShapeOrCollection'], ['auto','ShapeCollection'])
-    beveled(distance?:number, edges?:AnyShapeOrCollection):Solid
+    /** Drill direction into the Solid at a Point on its surface. On Edges and corners the biggest Face decides */
+    _holeDirection(point:Point):Vector
     {
-        return this.chamfered(distance, edges);
+        const faces = (this.faces().toArray() as Array<Face>)
+                            .filter(face => face.intersects(point._toVertex()))
+                            .sort((a,b) => b.area() - a.area());
+        if (faces.length === 0)
+        {
+            console.warn(`Solid::hole: Position ${point} is not on the surface of Solid. Skipped!`);
+            return null;
+        }
+
+        return faces[0].normalAt(point).reversed();
+    }
+
+    /** Complete given options with defaults into the record of a hole */
+    _holeInfo(options:HoleOptions, point:Point, direction:Vector):HoleInfo
+    {
+        const type:HoleType = options.type ?? ((options.thread) ? 'threaded' : 'simple');
+        const pitch = options.pitch ?? METRIC_THREAD_PITCHES[options.thread?.toUpperCase()] ?? null;
+        const nominalDiameter = parseFloat(options.thread?.replace(/^M/i, '')); // NaN if not metric
+        const diameter = options.diameter ?? ((type === 'threaded' && pitch && nominalDiameter) ? nominalDiameter - pitch : SOLID_HOLE_DIAMETER);
+
+        if (!(diameter > 0))
+        {
+            throw new Error(`Solid::hole: Please supply a positive diameter!`);
+        }
+
+        const hole:HoleInfo = {
+            type: type,
+            position: point.toArray(),
+            direction: direction.normalized().toArray(),
+            diameter: diameter,
+            depth: options.depth ?? 'through',
+        };
+
+        if (type === 'counterbore')
+        {
+            hole.counterboreDiameter = options.counterboreDiameter ?? diameter * SOLID_HOLE_COUNTERBORE_DIAMETER_FACTOR;
+            hole.counterboreDepth = options.counterboreDepth ?? diameter;
+            if (hole.counterboreDiameter <= diameter)
+            {
+                throw new Error(`Solid::hole: Counterbore diameter should be bigger than hole diameter (${diameter})!`);
+            }
+        }
+        else if (type === 'countersink')
+        {
+            hole.countersinkDiameter = options.countersinkDiameter ?? diameter * SOLID_HOLE_COUNTERSINK_DIAMETER_FACTOR;
+            hole.countersinkAngle = options.countersinkAngle ?? SOLID_HOLE_COUNTERSINK_ANGLE;
+            if (hole.countersinkDiameter <= diameter)
+            {
+                throw new Error(`Solid::hole: Countersink diameter should be bigger than hole diameter (${diameter})!`);
+            }
+        }
+        else if (type === 'threaded')
+        {
+            hole.thread = options.thread ?? null;
+            hole.pitch = pitch;
+        }
+
+        return hole;
+    }
+
+    /** Make Solids to subtract for given hole. They start a little above the surface to get clean cuts */
+    _holeTools(hole:HoleInfo, throughDepth:number):Array<Solid>
+    {
+        const overshoot = hole.diameter;
+        const direction = new Vector(hole.direction);
+        const position = new Point(hole.position);
+        const start = position.toVector().subtracted(direction.scaled(overshoot));
+        const depth = (hole.depth === 'through') ? throughDepth : hole.depth as number;
+
+        const ocAxisAt = (p:Point) => new this._oc.gp_Ax2_3(p._toOcPoint(), direction._toOcDir());
+        const ocShapes = [ new this._oc.BRepPrimAPI_MakeCylinder_3(ocAxisAt(start), hole.diameter/2, overshoot + depth).Shape() ];
+
+        if (hole.type === 'counterbore')
+        {
+            ocShapes.push(new this._oc.BRepPrimAPI_MakeCylinder_3(ocAxisAt(start), hole.counterboreDiameter/2, overshoot + hole.counterboreDepth).Shape());
+        }
+        else if (hole.type === 'countersink')
+        {
+            const countersinkDepth = (hole.countersinkDiameter - hole.diameter) / 2 / Math.tan(toRad(hole.countersinkAngle / 2));
+            ocShapes.push(new this._oc.BRepPrimAPI_MakeCylinder_3(ocAxisAt(start), hole.countersinkDiameter/2, overshoot).Shape());
+            ocShapes.push(new this._oc.BRepPrimAPI_MakeCone_3(ocAxisAt(position), hole.countersinkDiameter/2, hole.diameter/2, countersinkDepth).Shape());
+        }
+
+        return ocShapes.map(ocShape => new Solid()._fromOcSolid(ocShape));
     }
 
     /** Alias for shelled with same API as thicken in Wire/Edge and Shell */
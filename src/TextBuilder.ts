@@ -0,0 +1,214 @@
+/**
+ *  TextBuilder.ts
+ *      Turn text into Shapes using glyph outlines of a font (see FontParser.ts)
+ *      Glyphs are laid out on the XY plane with the baseline of the first line at y=0
+ *      Optionally these are placed on the workplane of a Sketch
+ */
+
+import { Point, Edge, Wire, Face, ShapeCollection, Geom, TextShapeOptions } from './internal'
+import { FontParser, FontContour } from './FontParser'
+
+const TEXT_DEFAULT_SIZE = 10;
+const TEXT_CURVE_SAMPLES = 8; // number of points per curve to test containment of contours
+
+/** Contour of glyph in model units with polygon approximation */
+interface TextContour
+{
+    contour:FontContour
+    polygon:Array<Array<number>>
+    area:number // absolute
+    depth?:number // number of contours it is in: even is outer, odd is hole
+}
+
+export class TextBuilder
+{
+    _oc:any; // set on prototype by Geom
+    _geom:Geom;
+
+    /** Make Faces (or Wires with option faces = false) for all glyphs in text */
+    build(text:string, font:FontParser, options:TextShapeOptions={}):ShapeCollection
+    {
+        const size = options.size ?? TEXT_DEFAULT_SIZE;
+        const scale = size / font.unitsPerEm;
+        const letterSpacing = options.letterSpacing ?? 0;
+        const lineHeight = (options.lineHeight ?? (font.ascender - font.descender + font.lineGap) / font.unitsPerEm) * size;
+        const [offsetX, offsetY] = [options.position?.[0] ?? 0, options.position?.[1] ?? 0];
+        const sketch = options.sketch;
+        if (sketch?.mode === 'surface')
+        {
+            throw new Error(`TextBuilder::build: Cannot place text on a Sketch in surface mode (UV coordinates). Use a Sketch on a plane`);
+        }
+
+        const shapes = new ShapeCollection();
+
+        text.split('\n').forEach((line, lineIndex) =>
+        {
+            const placedGlyphs = this._layoutLine(line, font, options.kerning ?? true, letterSpacing / scale);
+            const lineWidth = (placedGlyphs.length) ? placedGlyphs[placedGlyphs.length - 1].end : 0;
+            const alignOffset = { left: 0, center: -lineWidth / 2, right: -lineWidth }[options.align || 'left'] ?? 0;
+
+            placedGlyphs.forEach(placed =>
+            {
+                const toModel = ([x, y]:Array<number>):Point =>
+                {
+                    const point = new Point(offsetX + (alignOffset + placed.x + x) * scale, offsetY - lineIndex * lineHeight + y * scale, 0);
+                    return (sketch) ? sketch._toWorld(point) : point;
+                }
+                shapes.add(this._glyphToShapes(font.glyph(placed.glyphIndex).contours, toModel, options.faces ?? true));
+            });
+        });
+
+        return shapes;
+    }
+
+    /** Horizontal positions (in font units) of glyphs in line. Spacing is given in font units */
+    _layoutLine(line:string, font:FontParser, kerning:boolean, letterSpacing:number):Array<{ glyphIndex:number, x:number, end:number }>
+    {
+        const placedGlyphs = [];
+        let x = 0;
+        let prevGlyphIndex = null;
+
+        Array.from(line).forEach(char => // by code point, not UTF-16 unit
+        {
+            const glyphIndex = font.glyphIndex(char.codePointAt(0));
+            if (glyphIndex === 0)
+            {
+                console.warn(`TextBuilder::_layoutLine: Font has no glyph for character "${char}". Skipped`);
+                return;
+            }
+            if (prevGlyphIndex !== null)
+            {
+                x += letterSpacing + ((kerning) ? font.kerning(prevGlyphIndex, glyphIndex) : 0);
+            }
+            const advanceWidth = font.glyph(glyphIndex).advanceWidth;
+            placedGlyphs.push({ glyphIndex: glyphIndex, x: x, end: x + advanceWidth });
+            x += advanceWidth;
+            prevGlyphIndex = glyphIndex;
+        });
+
+        return placedGlyphs;
+    }
+
+    /** Outer contours become Faces with the contours directly inside them as holes (like the counters of 'o' and 'B') */
+    _glyphToShapes(contours:Array<FontContour>, toModel:(p:Array<number>) => Point, makeFaces:boolean):ShapeCollection
+    {
+        const shapes = new ShapeCollection();
+        const textContours = contours.map(contour => this._toTextContour(contour));
+
+        // nesting depth by testing if first point of contour is inside others
+        textContours.forEach(c =>
+        {
+            c.depth = textContours.filter(other => other !== c && this._pointInPolygon(c.polygon[0], other.polygon)).length;
+        });
+
+        textContours.filter(c => c.depth % 2 === 0).forEach(outer =>
+        {
+            const outerWire = this._contourToWire(outer.contour, toModel);
+            if (!outerWire)
+            {
+                return;
+            }
+            const holes = textContours.filter(hole => hole.depth === outer.depth + 1 && this._pointInPolygon(hole.polygon[0], outer.polygon)
+                                                    // only direct parent: the smallest outer contour that contains the hole
+                                                    && !textContours.some(other => other.depth === outer.depth && other !== outer && other.area < outer.area
+                                                                                    && this._pointInPolygon(hole.polygon[0], other.polygon)));
+            const holeWires = holes.map(hole => this._contourToWire(hole.contour, toModel)).filter(w => w);
+
+            if (!makeFaces)
+            {
+                shapes.add(outerWire);
+                holeWires.forEach(w => shapes.add(w));
+                return;
+            }
+
+            const ocFaceBuilder = new this._oc.BRepBuilderAPI_MakeFace_15(outerWire._ocShape, true); // OnlyPlane = true
+            if (!ocFaceBuilder.IsDone())
+            {
+                console.warn(`TextBuilder::_glyphToShapes: Could not make Face of glyph contour. Added Wire instead`);
+                shapes.add(outerWire);
+                return;
+            }
+            holeWires.forEach(w => ocFaceBuilder.Add(w._ocShape));
+
+            // TrueType and CFF contours run in opposite directions: fix orientation of holes
+            const ocFaceFixer = new this._oc.ShapeFix_Face_2(ocFaceBuilder.Face());
+            ocFaceFixer.FixOrientation_1();
+
+            shapes.add(new Face()._fromOcFace(ocFaceFixer.Face()));
+        });
+
+        return shapes;
+    }
+
+    _toTextContour(contour:FontContour):TextContour
+    {
+        const polygon = [];
+        contour.forEach(segment =>
+        {
+            if (segment.type === 'line')
+            {
+                polygon.push(segment.points[0]);
+            }
+            else {
+                for (let s = 0; s < TEXT_CURVE_SAMPLES; s++)
+                {
+                    polygon.push(this._bezierPoint(segment.points, s / TEXT_CURVE_SAMPLES));
+                }
+            }
+        });
+
+        let area = 0;
+        polygon.forEach(([x1, y1], i) =>
+        {
+            const [x2, y2] = polygon[(i + 1) % polygon.length];
+            area += x1 * y2 - x2 * y1;
+        });
+
+        return { contour: contour, polygon: polygon, area: Math.abs(area / 2) };
+    }
+
+    /** Point on Bezier curve of any degree with De Casteljau */
+    _bezierPoint(points:Array<Array<number>>, t:number):Array<number>
+    {
+        let current = points;
+        while (current.length > 1)
+        {
+            current = current.slice(1).map((p, i) => [current[i][0] + (p[0] - current[i][0]) * t, current[i][1] + (p[1] - current[i][1]) * t]);
+        }
+        return current[0];
+    }
+
+    /** Even-odd rule */
+    _pointInPolygon([x, y]:Array<number>, polygon:Array<Array<number>>):boolean
+    {
+        let inside = false;
+        for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++)
+        {
+            const [xi, yi] = polygon[i];
+            const [xj, yj] = polygon[j];
+            if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi)
+            {
+                inside = !inside;
+            }
+        }
+        return inside;
+    }
+
+    _contourToWire(contour:FontContour, toModel:(p:Array<number>) => Point):Wire
+    {
+        const edges = contour.map(segment =>
+        {
+            const points = segment.points.map(p => toModel(p));
+            return (segment.type === 'line') ? new Edge().makeLine(points[0], points[1]) : new Edge().makeBezier(points);
+        });
+
+        try {
+            return new Wire().fromEdges(edges);
+        }
+        catch(e)
+        {
+            console.warn(`TextBuilder::_contourToWire: Could not make Wire of glyph contour: ${e.message}`);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,191 @@
+import { ModelUnits, MeshShape, MODEL_UNITS_TO_MM } from './internal'
+import { zipSync, strToU8 } from 'fflate'
+
+/* Docs:
+    - 3MF core specification: https://github.com/3MFConsortium/spec_core/blob/master/3MF%20Core%20Specification.md
+    - Materials extension (basematerials): https://github.com/3MFConsortium/spec_materials/blob/master/3MF%20Materials%20Extension.md
+
+    A 3MF file is a OPC (zip) package with a 3D model XML file and some package metadata
+*/
+
+/** 3MF units. Other ModelUnits are converted to millimeters */
+const MODEL_UNITS_TO_3MF_UNITS = {
+    'mm' : 'millimeter',
+    'cm' : 'centimeter',
+    'm' : 'meter',
+    'inch' : 'inch',
+    'feet' : 'foot',
+}
+
+interface ThreeMFObject
+{
+    id:number,
+    name:string,
+    vertices:Array<number>, // flat list of welded coords
+    triangles:Array<number>, // flat list of vertex indices
+    materialIndex:number, // index in base materials or null
+}
+
+export class ThreeMFBuilder
+{
+    units:ModelUnits;
+    objects:Array<ThreeMFObject> = [];
+    materials:Array<{ name:string, color:string }> = []; // color as #RRGGBBAA
+
+    constructor(units?:ModelUnits)
+    {
+        this.units = units || 'mm';
+    }
+
+    /** Add mesh data of Shapes as one 3MF object. Shared vertices of Faces are welded to make a proper connected mesh */
+    addObject(name:string, meshShapes:Array<MeshShape>, color?:number, opacity?:number):ThreeMFBuilder
+    {
+        const WELD_PRECISION = 1e6; // round coords to this to find equal vertices
+
+        let vertices:Array<number> = [];
+        let triangles:Array<number> = [];
+        let vertexKeyToIndex:{[key:string]:number} = {};
+
+        meshShapes.forEach( meshShape => 
+        {
+            meshShape.faces.forEach( faceMesh => 
+            {
+                // map Face vertex indices to welded object vertex indices
+                let faceToObjectIndex:Array<number> = [];
+                for(let v = 0; v < faceMesh.vertices.length/3; v++)
+                {
+                    const coords = faceMesh.vertices.slice(v*3, v*3+3);
+                    const key = coords.map( c => Math.round(c*WELD_PRECISION)).join(',');
+                    if(vertexKeyToIndex[key] === undefined)
+                    {
+                        vertexKeyToIndex[key] = vertices.length/3;
+                        vertices.push(...coords);
+                    }
+                    faceToObjectIndex.push(vertexKeyToIndex[key]);
+                }
+
+                for(let t = 0; t < faceMesh.triangleIndices.length; t += 3)
+                {
+                    const [v1,v2,v3] = faceMesh.triangleIndices.slice(t, t+3).map( i => faceToObjectIndex[i]);
+                    if(v1 !== v2 && v2 !== v3 && v1 !== v3) // skip degenerated triangles
+                    {
+                        triangles.push(v1,v2,v3);
+                    }
+                }
+            });
+        });
+
+        if(triangles.length === 0)
+        {
+            console.warn(`ThreeMFBuilder::addObject: Object "${name}" has no triangles. Skipped!`);
+            return this;
+        }
+
+        let materialIndex = null;
+        if(typeof color === 'number')
+        {
+            materialIndex = this.materials.length;
+            const alpha = Math.round(((typeof opacity === 'number') ? opacity : 1.0) * 255);
+            const colorHex = color.toString(16).padStart(6, '0') + alpha.toString(16).padStart(2, '0');
+            this.materials.push({ name: name, color: `#${colorHex.toUpperCase()}` });
+        }
+
+        this.objects.push({ id: this.objects.length + 2, name: name, vertices: vertices, triangles: triangles, materialIndex: materialIndex }); // id 1 is for materials
+
+        return this;
+    }
+
+    /** Output 3MF package as zip file buffer */
+    to3MF():ArrayBuffer
+    {
+        const files = {
+            '[Content_Types].xml' : strToU8(this._getContentTypesXml()),
+            '_rels/.rels' : strToU8(this._getRelsXml()),
+            '3D/3dmodel.model' : strToU8(this._getModelXml()),
+        }
+
+        return zipSync(files).buffer;
+    }
+
+    //// XML ////
+
+    _getContentTypesXml():string
+    {
+        return '<?xml version="1.0" encoding="UTF-8"?>\n'
+            + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">\n'
+            + '  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>\n'
+            + '  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>\n'
+            + '</Types>\n';
+    }
+
+    _getRelsXml():string
+    {
+        return '<?xml version="1.0" encoding="UTF-8"?>\n'
+            + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n'
+            + '  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>\n'
+            + '</Relationships>\n';
+    }
+
+    _getModelXml():string
+    {
+        const MATERIALS_ID = 1;
+
+        // 3MF only knows a few units: scale the others to millimeters
+        const unit = MODEL_UNITS_TO_3MF_UNITS[this.units] || 'millimeter';
+        const scale = (MODEL_UNITS_TO_3MF_UNITS[this.units]) ? 1 : MODEL_UNITS_TO_MM[this.units];
+
+        let lines:Array<string> = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<model unit="${unit}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">`,
+            '  <metadata name="Application">Archiyou</metadata>',
+            '  <resources>',
+        ];
+
+        if(this.materials.length > 0)
+        {
+            lines.push(`    <basematerials id="${MATERIALS_ID}">`);
+            this.materials.forEach( m => lines.push(`      <base name="${this._escapeXml(m.name)}" displaycolor="${m.color}"/>`));
+            lines.push('    </basematerials>');
+        }
+
+        this.objects.forEach( obj => 
+        {
+            const materialAttrs = (obj.materialIndex !== null) ? ` pid="${MATERIALS_ID}" pindex="${obj.materialIndex}"` : '';
+            lines.push(`    <object id="${obj.id}" name="${this._escapeXml(obj.name)}" type="model"${materialAttrs}>`);
+            lines.push('      <mesh>');
+            lines.push('        <vertices>');
+            for(let v = 0; v < obj.vertices.length; v += 3)
+            {
+                const [x,y,z] = obj.vertices.slice(v, v+3).map( c => this._formatNumber(c*scale));
+                lines.push(`          <vertex x="${x}" y="${y}" z="${z}"/>`);
+            }
+            lines.push('        </vertices>');
+            lines.push('        <triangles>');
+            for(let t = 0; t < obj.triangles.length; t += 3)
+            {
+                lines.push(`          <triangle v1="${obj.triangles[t]}" v2="${obj.triangles[t+1]}" v3="${obj.triangles[t+2]}"/>`);
+            }
+            lines.push('        </triangles>');
+            lines.push('      </mesh>');
+            lines.push('    </object>');
+        });
+
+        lines.push('  </resources>');
+        lines.push('  <build>');
+        this.objects.forEach( obj => lines.push(`    <item objectid="${obj.id}"/>`));
+        lines.push('  </build>');
+        lines.push('</model>');
+
+        return lines.join('\n') + '\n';
+    }
+
+    _escapeXml(s:string):string
+    {
+        return (s || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    _formatNumber(n:number):string
+    {
+        return (Math.round(n * 1e6) / 1e6).toString();
+    }
+}
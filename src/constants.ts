@@ -18,6 +18,9 @@ export const SHAPE_SWEEP_DEFAULT_ALIGNMENT_TO_PATH = 'center';
 export const SHAPE_SCALE_DEFAULT_FACTOR = 2;
 export const SHAPE_ALIGNMENT_DEFAULT = 'center'
 export const SHAPE_SHELL_AMOUNT = 5;
+export const SHAPE_VALIDATE_SMALL_EDGE_LENGTH = 0.01; // in model units
+export const SHAPE_VALIDATE_MAX_TOLERANCE = 0.1; // tolerances of Vertices and Edges above this are reported
+export const SHAPE_TRANSFORM_APPROX_NUM_POINTS = 36; // points on curves used to approximate non-uniform transformations
 
 export const EDGE_DEFAULT_START = [0,0,0];
 export const EDGE_DEFAULT_END = [1,0,0];
@@ -63,6 +66,12 @@ export const SOLID_FILLET_RADIUS = 5;
 export const SOLID_CHAMFER_DISTANCE = 5;
 export const SOLID_THICKEN_AMOUNT = 5;
 export const SOLID_THICKEN_DIRECTION = 'center';
+export const SOLID_HOLE_DIAMETER = 5;
+export const SOLID_HOLE_COUNTERBORE_DIAMETER_FACTOR = 1.8; // default counterbore diameter relative to hole diameter
+export const SOLID_HOLE_COUNTERSINK_DIAMETER_FACTOR = 2;
+export const SOLID_HOLE_COUNTERSINK_ANGLE = 90;
+export const METRIC_THREAD_PITCHES:{[key:string]:number} = { // ISO coarse pitches to get tap drill diameters of threaded holes
+    M2: 0.4, 'M2.5': 0.45, M3: 0.5, M4: 0.7, M5: 0.8, M6: 1, M8: 1.25, M10: 1.5, M12: 1.75, M14: 2, M16: 2, M20: 2.5, M24: 3 };
 
 export const FACE_PLANE_WIDTH = 50;
 export const FACE_PLANE_DEPTH = 50;
@@ -87,8 +96,8 @@ export const GEOM_METHODS_INTO_GLOBAL = [
     'Vertex', 'Edge', 'Line', 'Arc', 'Spline', 
     'Wire', 'Polyline', 'Spiral', 'Helix',
     'Face', 'Plane', 'PlaneBetween', 'Rect', 'RectBetween', 'BasePlane', 'Circle',
-    'Shell', 'Solid', 'Box', 'BoxBetween', 'Sphere', 'Cone', 'Cylinder',
-    'group', 'layer', 'collection',
+    'Shell', 'Solid', 'Box', 'BoxBetween', 'Sphere', 'Cone', 'Cylinder', 'Text',
+    'group', 'layer', 'collection', 'material',
     'sketch', 'all', 'isTemp', 'select', 'atVertices', 'moveTo', 'lineTo', 'splineTo', 'arcTo', 
     'rectTo', 'rect', 'circleTo', 'circle', 'mirror', 'offset', 'offsetted', 'fillet', 'chamfer', 'thicken', 'thickened','combine',
     'close', 'importSketch'
@@ -100,3 +109,35 @@ export const MESH_QUALITY_PRESETS = {
     'medium' : { linearDeflection: 1.0, angularDeflection: 0.3, tolerance: 0.001, edgeMinimalPoints: 2, edgeMinimalLength: 0.001 },
     'high' : { linearDeflection: 0.4, angularDeflection: 0.1, tolerance: 0.001, edgeMinimalPoints: 2, edgeMinimalLength: 0.001 },
 }
+
+export const MODEL_UNITS_TO_MM = {
+    'mm' : 1,
+    'cm' : 10,
+    'dm' : 100,
+    'm' : 1000,
+    'km' : 1000000,
+    'inch' : 25.4,
+    'feet' : 304.8,
+    'yd' : 914.4,
+    'mi' : 1609344,
+}
+
+//// MATERIALS ////
+// default registry of Geom: density in kg/m3. Add costs (per kg) with geom.material(name, { cost })
+export const MATERIALS_DEFAULT = [
+    { name: 'oak', density: 700, color: '#C8A165' },
+    { name: 'pine', density: 500, color: '#E3C58D' },
+    { name: 'birch plywood', density: 680, color: '#E8CFA3' },
+    { name: 'mdf', density: 750, color: '#B89B72' },
+    { name: 'particleboard', density: 650, color: '#CDB38B' },
+    { name: 'steel', density: 7850, color: '#8A8D91' },
+    { name: 'stainless steel', density: 8000, color: '#B4B8BC' },
+    { name: 'aluminium', density: 2700, color: '#D0D5D9' },
+    { name: 'glass', density: 2500, color: '#C5E3E8' },
+    { name: 'concrete', density: 2400, color: '#A3A3A0' },
+    { name: 'pla', density: 1240, color: '#F2F2F2' },
+];
+
+export const GEO_EARTH_RADIUS = 6378137; // WGS84 equatorial radius in meters
+
+export const IO_CACHE_MAX_SIZE = 100*1024*1024; // default max size of asset cache in bytes
@@ -13,7 +13,8 @@ import { isPointLike, isPivot, isAxis, isColorInput, isMainAxis, isSide, isCurso
             isAnyShape, isPointLikeOrVertexCollection, isPointLikeSequence,isPointLikeOrAnyShape,  isAnyShapeSequence, isAnyShapeCollection, isMakeShapeCollectionInput, isAnyShapeOrCollection, isPointLikeOrAnyShapeOrCollection,
             isMakeWireInput, isMakeFaceInput, isAlignment, isMakeShellInput, isThickenDirection, isAnyShapeOrCollectionOrSelectionString,
             isSelectionString, isPointLikeOrAnyShapeOrCollectionOrSelectionString, isSelectorPointRange,
-            isLayoutOptions, isDimensionLineData, ModelUnits, isModelUnits } from './internal'
+            isLayoutOptions, isDimensionLineData, ModelUnits, isModelUnits, isFilletRadiusOrMap, isChamferDistanceOrMap,
+            isHolePositions, isHoleOptions } from './internal'
 import { isNumeric } from './internal'
 import { ALL_SHAPE_NAMES, SIDES, ALIGNMENTS_ADD_TO_SIDES } from './internal'
 
@@ -371,6 +372,38 @@ function _getDecoratorTargetInfo(decoratorTarget:any):DecoratorCheckInfo
             errorMessage: { possible: ['all/center', 'PointLike'].concat(SIDES) },
             transformInput: null, // no target
         },
+        'isFilletRadiusOrMap':
+        {
+            name: 'FilletRadiusOrMap',
+            obj: isFilletRadiusOrMap,
+            check: isFilletRadiusOrMap,
+            errorMessage: { possible: ['Number', '[startRadius,endRadius]', '[[relativeParam,radius],...]', "{ 'E|Z': 5, 'E||top': 2 }"] },
+            transformInput: null, // no target
+        },
+        'isChamferDistanceOrMap':
+        {
+            name: 'ChamferDistanceOrMap',
+            obj: isChamferDistanceOrMap,
+            check: isChamferDistanceOrMap,
+            errorMessage: { possible: ['Number', '[distance1,distance2]', '{ distance, angle }', "{ 'E|Z': 5, 'E||top': [2,4] }"] },
+            transformInput: null, // no target
+        },
+        'isHolePositions':
+        {
+            name: 'HolePositions',
+            obj: isHolePositions,
+            check: isHolePositions,
+            errorMessage: { possible: ['PointLike', 'Array<PointLike>', 'AnyShape', 'ShapeCollection', 'SelectorString (ex: "V||top")'] },
+            transformInput: null, // no target
+        },
+        'isHoleOptions':
+        {
+            name: 'HoleOptions',
+            obj: isHoleOptions,
+            check: isHoleOptions,
+            errorMessage: { possible: ['Number (diameter)', "HoleOptions: { type: 'simple'|'counterbore'|'countersink'|'threaded', diameter, depth, thread, ... }"] },
+            transformInput: null, // no target
+        },
         'isAnyShapeOrCollectionOrSelectionString': 
         {
             name: 'AnyShapeOrCollectionOrSelectionString',
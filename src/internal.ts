@@ -30,6 +30,7 @@ export * from './Exporter'
 
 export * from './Geom'
 export * from './Annotator'
+export * from './TextBuilder'
 export * from './IO'
 
 export * from './typeguards'
@@ -8,7 +8,9 @@ import { Side, Plane, CoordArray, Coord, Cursor, MainAxis, Axis, SketchPlaneName
           LayoutOptions,
           PointLikeOrVertexCollection,
           ModelUnits,
-          ShapeAttributes
+          ShapeAttributes,
+          FilletRadius, FilletRadiusMap, ChamferDistance, ChamferDistanceMap,
+          HolePositions, HoleOptions
         } from './internal' // types
 
 import { SIDES, ALL_SHAPE_NAMES, AXIS_TO_VECS, ALIGNMENTS_ADD_TO_SIDES, SIDE_TO_AXIS } from './internal' // types
@@ -164,9 +166,58 @@ export function isThickenDirection(o:any): o is ThickenDirection
     return o == 'center' || isPointLike(o) || isSide(o);
 }
 
+export function isFilletRadius(o:any): o is FilletRadius
+{
+    return isNumeric(o) 
+            || (Array.isArray(o) && o.length === 2 && o.every(r => isNumeric(r))) // [startRadius,endRadius]
+            || (Array.isArray(o) && o.length >= 2 && o.every(s => Array.isArray(s) && s.length === 2 && s.every(v => isNumeric(v)))); // stations
+}
+
+export function isFilletRadiusMap(o:any): o is FilletRadiusMap
+{
+    return (typeof o === 'object') && o !== null && !Array.isArray(o) && Object.keys(o).length > 0 
+            && Object.values(o).every(r => isFilletRadius(r));
+}
+
+export function isFilletRadiusOrMap(o:any): o is FilletRadius|FilletRadiusMap
+{
+    return isFilletRadius(o) || isFilletRadiusMap(o);
+}
+
+export function isChamferDistance(o:any): o is ChamferDistance
+{
+    return isNumeric(o) 
+            || (Array.isArray(o) && o.length === 2 && o.every(d => isNumeric(d))) // two distances
+            || ((typeof o === 'object') && isNumeric(o?.distance) && isNumeric(o?.angle));
+}
+
+export function isChamferDistanceMap(o:any): o is ChamferDistanceMap
+{
+    return (typeof o === 'object') && o !== null && !Array.isArray(o) && !isChamferDistance(o) && Object.keys(o).length > 0 
+            && Object.values(o).every(d => isChamferDistance(d));
+}
+
+export function isChamferDistanceOrMap(o:any): o is ChamferDistance|ChamferDistanceMap
+{
+    return isChamferDistance(o) || isChamferDistanceMap(o);
+}
+
+export function isHolePositions(o:any): o is HolePositions
+{
+    return isPointLikeOrAnyShapeOrCollectionOrSelectionString(o) 
+            || (Array.isArray(o) && o.length > 0 && o.every(p => isPointLike(p)));
+}
+
+export function isHoleOptions(o:any): o is HoleOptions|number
+{
+    return isNumeric(o) 
+            || ((typeof o === 'object') && o !== null && !Array.isArray(o) 
+                && (o.diameter === undefined || isNumeric(o.diameter)));
+}
+
 export  function isShapeAttributes(o:any): o is ShapeAttributes
 {
-    const SHAPE_ATTRIBUTE_KEYS = ['hidden','outline', 'visible'];
+    const SHAPE_ATTRIBUTE_KEYS = ['hidden','outline', 'visible', 'holes'];
 
     return typeof o === 'object'
         && Object.keys(o).every(key => SHAPE_ATTRIBUTE_KEYS.includes(key))
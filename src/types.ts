@@ -1,4 +1,5 @@
-import { Point, Vector, Shape, Vertex, Edge, Wire, Face, Shell, Solid, ShapeCollection, VertexCollection  } from './internal'
+import { Point, Vector, Shape, Vertex, Edge, Wire, Face, Shell, Solid, ShapeCollection, VertexCollection, Obj, Sketch } from './internal'
+import { FontParser } from './FontParser'
 import { Geom, Doc, CodeParser, Exporter} from './internal'
 
 //// SETTINGS ////
@@ -56,6 +57,10 @@ export type Alignment = string|PointLike // 'leftbottomtop' or [0,0.5,1.0]
 export type BboxAlignment = Array<number>|Alignment // [bbox_offset_perc_x,bbox_offset_perc_y] or combinations of left, top, front
 export type LinearShapeTail = 'start'|'end'
 export type ThickenDirection = 'all'|'center'|PointLike|Side
+export type FilletRadius = number|[number,number]|Array<[number,number]> // constant, [startRadius,endRadius] or stations [[relativeParam,radius],..] along Edge
+export type FilletRadiusMap = {[selection:string]:FilletRadius} // { 'E|Z': 5, 'E||top': 2 }
+export type ChamferDistance = number|[number,number]|{ distance:number, angle:number } // symmetric, two distances or distance and angle (degrees)
+export type ChamferDistanceMap = {[selection:string]:ChamferDistance}
 
 export type SelectionString = string;
 export type AnyShapeOrCollectionOrSelectionString = AnyShape|AnyShapeCollection|SelectionString;
@@ -88,6 +93,7 @@ export interface ShapeAttributes
     hidden?:boolean // lines that are hidden behind other shapes in projection
     outline?:boolean // outlines after projection
     visible?:boolean
+    holes?:Array<HoleInfo> // drilled holes (see Solid.hole())
 }
 
 /** A cursor in a coordinate system. Used in Sketcher and others in the future */
@@ -353,3 +359,190 @@ export interface Layout
     options: LayoutOptions // TODO: type
     flatten:boolean // flatten to 2D
 }
+
+//// EXPORTS ////
+
+export type ExportFormat = 'step'|'stl'|'gltf'|'glb'|'svg'|'dxf'|'3mf'|'obj'|'brep'
+export type ExportFileSet = {[filename:string]:ArrayBuffer|string} // for formats with multiple files
+export type ExportTarget = ShapeCollection|Obj|string // ShapeCollection, Obj or name of a layer
+
+/** Per call settings of exports. All are optional */
+export interface ExportOptions
+{
+    target?:ExportTarget, // what to export. Default: all visible Shapes in the scene
+    quality?:MeshingQualitySettings|string, // meshing settings or one of MESH_QUALITY_PRESETS ('low', 'medium', 'high')
+    units?:ModelUnits, // output units: Shapes are scaled from the units of Geom
+    upAxis?:'z'|'y', // Archiyou is Z-up: use 'y' to convert to a Y-up coordinate system
+}
+
+/** Destination of exported files, for example a directory on disk (see ExporterOutputs.ts) */
+export interface ExporterOutput
+{
+    write(filename:string, content:ArrayBuffer|string, mime?:string):Promise<string> // returns location of written file
+}
+
+//// IO ////
+
+/** Raw content of a loaded asset with info for revalidation and eviction (see IOCaches.ts) */
+export interface AssetCacheEntry
+{
+    key:string // source of the asset
+    hash:string // hash of content
+    size:number // in bytes
+    format:string
+    etag?:string // from server, to revalidate
+    created:number // timestamps in ms
+    lastAccess:number
+    content?:ArrayBuffer|string // not included when listing entries
+}
+
+/** Storage of cached assets, for example in memory, IndexedDB or a directory on disk (see IOCaches.ts) */
+export interface AssetCacheBackend
+{
+    get(key:string):Promise<AssetCacheEntry> // null if not found
+    set(entry:AssetCacheEntry):Promise<void>
+    touch(key:string, lastAccess:number):Promise<void> // only update last access time
+    delete(key:string):Promise<void>
+    list():Promise<Array<AssetCacheEntry>> // all entries without content
+    clear():Promise<void>
+}
+
+/** Settings for importing bitmaps (see IO.importBitmap). All are optional */
+export interface BitmapImportOptions
+{
+    mode?:'heightmap'|'contour', // gray values to heights or outlines of dark regions. Default: heightmap
+    width?:number, // size in model units, depth follows aspect ratio. Default: 1 unit per pixel
+    invert?:boolean, // heightmap: black is high. contour: trace light regions
+    // heightmap
+    maxHeight?:number, // height of white. Default: 10% of width
+    solid?:boolean, // make relief Solid instead of Face
+    base?:number, // thickness of Solid below the lowest point. Default: 10% of maxHeight
+    resolution?:number, // maximum number of samples in each direction. Default: 32
+    // contour
+    threshold?:number, // gray value (0-1) that divides regions. Default: 0.5
+    tolerance?:number, // simplify outlines within distance (in pixels). Default: 0.25
+}
+
+//// TEXT ////
+
+/** Settings for Geom.Text. All are optional, except font */
+export interface TextShapeOptions
+{
+    font?:string|FontParser, // source of TTF/OTF/WOFF font loaded with $load() or a parsed font
+    size?:number, // height of the em square in model units. Default: 10
+    align?:'left'|'center'|'right', // relative to position. Default: left
+    letterSpacing?:number, // extra space between characters in model units
+    lineHeight?:number, // distance between lines relative to size. Default: from font
+    kerning?:boolean, // use kerning pairs of font. Default: true
+    position?:Array<number>, // [x,y] of start of first baseline (on the Sketch workplane)
+    sketch?:Sketch, // place on workplane of Sketch. Default: the active Sketch if it is on a plane
+    faces?:boolean, // Faces with counters as holes, or only closed Wires. Default: true
+}
+
+//// MATERIALS AND MASS PROPERTIES ////
+
+/** Material in the registry of Geom (see Geom.material()) that can be assigned to Objs and layers */
+export interface Material
+{
+    name:string,
+    density:number, // in kg/m3
+    cost?:number, // per kg
+    color?:string|number, // default color of Objs with this Material
+}
+
+/** Mass properties of a Shape or a combination of Shapes with their Materials */
+export interface MassProperties
+{
+    material:string, // name of Material, 'mixed' for Shapes with different ones or null if none
+    density:number, // in kg per cubic model unit. Without Material this is 1 and mass is the volume (or area or length)
+    mass:number, // kg if Material is given
+    center:Point, // center of mass
+    inertia:Array<Array<number>>, // 3x3 inertia tensor at center of mass in mass * units²
+    principalMoments:Array<number>, // moments of inertia around principal axes
+    principalAxes:Array<Vector>,
+    radiiOfGyration:Array<number>, // around principal axes in model units
+    cost:number, // null if Material has no cost
+}
+
+//// INTERFERENCE CHECKS ////
+
+export type InterferenceType = 'interference'|'contact'|'clearance'
+
+/** Settings for interference checks of Solids. See ShapeCollection.interferences() */
+export interface InterferenceOptions
+{
+    clearance?:number, // also report gaps between Solids smaller than this. Default: 0
+    contacts?:boolean, // report touching Solids. Default: true
+    highlight?:boolean, // add overlaps to layer 'interferences' (only Geom.interferences). Default: false
+}
+
+/** Two Solids that overlap, touch or are too close */
+export interface InterferencePair
+{
+    type:InterferenceType,
+    shapes:Array<AnyShape>,
+    names:Array<string>, // of Objs of the Shapes (if any)
+    distance:number, // 0 for interference and contact
+    volume:number, // of overlap (only for interference)
+    overlap:ShapeCollection, // overlapping Solids, touching Edges or Vertices or the shortest line between the Shapes for clearance. Not in Scene
+}
+
+export interface InterferenceReport
+{
+    checked:number, // candidate pairs with nearby bounding boxes that were checked exactly
+    pairs:Array<InterferencePair>,
+    interferences:number,
+    contacts:number,
+    clearances:number,
+}
+
+//// VALIDATION ////
+
+export type ShapeDiagnosticKind = 'self-intersection'|'orientation'|'open'|'small-edge'|'tolerance'|'geometry'|'topology'
+
+/** Problem found by Shape.validate() */
+export interface ShapeDiagnostic
+{
+    kind:ShapeDiagnosticKind,
+    status:string, // BRepCheck status (like 'SelfIntersectingWire') or of extra checks: 'SmallEdge', 'LargeTolerance' and 'FreeEdges'
+    shape:AnyShape, // offending sub-Shape: Vertex, Edge, Wire, Face, Shell or Solid
+    index:number, // of sub-Shape in vertices(), edges(), wires() etc of validated Shape. Null if not a sub-Shape (like free edges)
+    message:string,
+    fixes:Array<string>, // suggestions
+}
+
+//// HOLES ////
+
+export type HoleType = 'simple'|'counterbore'|'countersink'|'threaded'
+export type HolePositions = PointLike|Array<PointLike>|AnyShapeOrCollectionOrSelectionString // points or Shapes (Vertices) to drill at
+
+/** Settings of holes. Depth is 'through' or a blind depth measured from the surface */
+export interface HoleOptions
+{
+    type?:HoleType // default 'simple' or 'threaded' if thread is given
+    diameter?:number // for threaded holes the default is the tap drill diameter of thread
+    depth?:number|'through' // default 'through'
+    direction?:PointLike // drill direction, default into the Solid along the normal of the Face at position
+    counterboreDiameter?:number
+    counterboreDepth?:number
+    countersinkDiameter?:number // at the surface
+    countersinkAngle?:number // included angle in degrees
+    thread?:string // designation like 'M6'. Threads are not modelled, only recorded
+    pitch?:number
+}
+
+/** Hole as recorded in attribute 'holes' of a Shape, for drawings and BOMs */
+export interface HoleInfo
+{
+    type:HoleType
+    position:Array<number> // [x,y,z] on surface
+    direction:Array<number> // unit vector into the material
+    diameter:number
+    depth:number|'through'
+    counterboreDiameter?:number
+    counterboreDepth?:number
+    countersinkDiameter?:number
+    countersinkAngle?:number
+    thread?:string
+    pitch?:number
+}
@@ -225,3 +225,101 @@ export function convertValueFromToUnit(v:number, from:DocUnits, to:DocUnits):num
     console.warn(`Doc::_convertValueFromToUnit(): Could not convert. Check values for from ("${from}") and to ("${to}")!`);
     return null;
 }
+
+//// Linear algebra ////
+
+/** Eigenvalues (ascending) and unit eigenvectors of a symmetric 3x3 matrix (cyclic Jacobi rotations) */
+export function symmetricEigen3(matrix:Array<Array<number>>):{ values:Array<number>, vectors:Array<Array<number>> }
+{
+    const a = matrix.map(row => [...row]);
+    const v = [[1,0,0],[0,1,0],[0,0,1]]; // eigenvectors in columns
+
+    for (let sweep = 0; sweep < 50; sweep++)
+    {
+        const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+        if (offDiagonal <= 1e-15 * (Math.abs(a[0][0]) + Math.abs(a[1][1]) + Math.abs(a[2][2])))
+        {
+            break;
+        }
+        [[0,1],[0,2],[1,2]].forEach(([p,q]) =>
+        {
+            if (a[p][q] === 0)
+            {
+                return;
+            }
+            // rotation that makes a[p][q] zero
+            const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+            const t = ((theta >= 0) ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+            const c = 1 / Math.sqrt(t * t + 1);
+            const s = t * c;
+            const rotate = (m:Array<Array<number>>, k:number, byRow:boolean) =>
+            {
+                const [kp, kq] = (byRow) ? [m[p][k], m[q][k]] : [m[k][p], m[k][q]];
+                const [newKp, newKq] = [c * kp - s * kq, s * kp + c * kq];
+                if (byRow){ [m[p][k], m[q][k]] = [newKp, newKq]; }
+                else { [m[k][p], m[k][q]] = [newKp, newKq]; }
+            }
+            [0,1,2].forEach(k => rotate(a, k, false));
+            [0,1,2].forEach(k => rotate(a, k, true));
+            [0,1,2].forEach(k => rotate(v, k, false));
+        });
+    }
+
+    const order = [0,1,2].sort((i, j) => a[i][i] - a[j][j]);
+    return {
+        values: order.map(i => a[i][i]),
+        vectors: order.map(i => [v[0][i], v[1][i], v[2][i]]),
+    }
+}
+
+//// 2D geometry ////
+
+/** Convex hull of 2D points [x,y] in counter-clockwise order (monotone chain) */
+export function convexHull2D(points:Array<Array<number>>):Array<Array<number>>
+{
+    const sorted = [...points].sort((a, b) => (a[0] - b[0]) || (a[1] - b[1]));
+    const cross = (o:Array<number>, a:Array<number>, b:Array<number>) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+    const lower = [];
+    sorted.forEach(p =>
+    {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0)
+        {
+            lower.pop();
+        }
+        lower.push(p);
+    });
+    const upper = [];
+    sorted.reverse().forEach(p =>
+    {
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0)
+        {
+            upper.pop();
+        }
+        upper.push(p);
+    });
+
+    return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/** Distance of 2D point to the boundary of a convex polygon (counter-clockwise): positive inside, negative outside */
+export function distanceInConvexPolygon2D([x, y]:Array<number>, polygon:Array<Array<number>>):number
+{
+    let inside = true;
+    let minDistance = Infinity;
+
+    polygon.forEach(([x1, y1], i) =>
+    {
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        const [dx, dy] = [x2 - x1, y2 - y1];
+        const lengthSq = dx * dx + dy * dy;
+        if ((dx * (y - y1) - dy * (x - x1)) < 0)
+        {
+            inside = false; // right of edge
+        }
+        const t = (lengthSq === 0) ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSq));
+        minDistance = Math.min(minDistance, Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy)));
+    });
+
+    return (inside) ? minDistance : -minDistance;
+}
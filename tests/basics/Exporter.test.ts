@@ -0,0 +1,166 @@
+import { Geom, Edge, Exporter, ShapeCollection } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import { MemoryOutput } from '../../src/ExporterOutputs'
+import { GLTFBuilder } from '../../src/GLTFBuilder'
+import { unzipSync, strFromU8 } from 'fflate'
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () => 
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Export DXF", () => 
+{
+    geom.layer('walls').color('red');
+    geom.Line([0,0],[100,0]);
+    geom.Arc([0,0],[50,50],[100,0]);
+    geom.resetLayers();
+    new Edge().makeCircle(50).addToScene();
+
+    const dxf = new Exporter({ geom: geom }).exportToDXF();
+    
+    expect(dxf.startsWith('0\nSECTION\n2\nHEADER')).toEqual(true);
+    expect(dxf.endsWith('0\nEOF\n')).toEqual(true);
+    expect(dxf).toContain('\nLINE\n');
+    expect(dxf).toContain('\nARC\n');
+    expect(dxf).toContain('\nCIRCLE\n');
+    expect(dxf).toContain('\n2\nwalls\n'); // layer table entry
+    expect(dxf).toContain('\n8\nwalls\n'); // entity on layer
+});
+
+test("Export target with options", () => 
+{
+    // only the walls layer of the DXF test, converted from mm to cm
+    const dxf = new Exporter({ geom: geom }).exportToDXF({ target: 'walls', units: 'cm' });
+
+    expect(dxf).toContain('\n$INSUNITS\n70\n5\n');
+    expect(dxf).toContain('\nLINE\n');
+    expect(dxf).toContain('\n11\n10\n'); // end of line at x = 10 cm
+    expect(dxf).not.toContain('\nCIRCLE\n');
+
+    expect(() => new Exporter({ geom: geom }).exportToDXF({ target: 'unknown' })).toThrow();
+});
+
+test("Export to output", async () => 
+{
+    const output = new MemoryOutput();
+    const exporter = new Exporter({ geom: geom }, output);
+    exporter.setScript('My Bracket', { width: 100, height: 50 });
+
+    // names only depend on the param values, not on their order
+    const filename = exporter._getFileName();
+    expect(filename.startsWith('my_bracket-')).toEqual(true);
+    expect(new Exporter({ geom: geom }).setScript('My Bracket', { height: 50, width: 100 })._getFileName()).toEqual(filename);
+    expect(new Exporter({ geom: geom })._getFileName()).toEqual('exportmodel');
+
+    const location = await exporter.exportToOutput('dxf');
+    expect(location).toEqual(`${filename}.dxf`);
+    expect(output.get(location)).toContain('EOF');
+});
+
+test("Export 3MF", () => 
+{
+    geom.Box(100).color('blue');
+    
+    const zipped = new Exporter({ geom: geom }).exportTo3MF('low');
+    const files = unzipSync(new Uint8Array(zipped));
+
+    expect(Object.keys(files)).toContain('3D/3dmodel.model');
+    expect(Object.keys(files)).toContain('[Content_Types].xml');
+    
+    const model = strFromU8(files['3D/3dmodel.model']);
+    expect(model).toContain('unit="millimeter"');
+    expect(model).toContain('<object id=');
+    expect(model).toContain('displaycolor="#0000FFFF"');
+});
+
+test("Export OBJ", () => 
+{
+    const blueBox = geom.Box(100).color('blue').name('box');
+    const redBox = geom.Box(50).move(200).color('red').name('box');
+    const files = new Exporter({ geom: geom }).exportToOBJ(null, { target: new ShapeCollection(blueBox, redBox) });
+
+    expect(Object.keys(files)).toEqual(['exportmodel.obj', 'exportmodel.mtl']);
+    expect(files['exportmodel.obj']).toContain('mtllib exportmodel.mtl');
+    expect(files['exportmodel.obj']).toContain('\nvn ');
+    expect(files['exportmodel.obj']).toContain('usemtl box\n');
+    expect(files['exportmodel.obj']).toContain('usemtl box_2\n');
+    expect(files['exportmodel.mtl']).toContain('newmtl box\nKa 0 0 0\nKd 0 0 1'); // same names but unique materials
+    expect(files['exportmodel.mtl']).toContain('newmtl box_2\nKa 0 0 0\nKd 1 0 0');
+
+    // quality presets like 3MF
+    const sphere = new ShapeCollection(geom.Sphere(50));
+    const countVertices = (files) => files['exportmodel.obj'].split('\n').filter(l => l.startsWith('v ')).length;
+    const low = new Exporter({ geom: geom }).exportToOBJ('low', { target: sphere });
+    const high = new Exporter({ geom: geom }).exportToOBJ('high', { target: sphere });
+    expect(countVertices(low)).toBeLessThan(countVertices(high));
+});
+
+test("Export STEP with names and colors", () => 
+{
+    const box = geom.Box(50).color('red').name('bracket');
+    const step = new Exporter({ geom: geom }).exportToStep({ target: new ShapeCollection(box) });
+
+    expect(step).toContain('ISO-10303-21');
+    expect(step).toContain('MANIFOLD_SOLID_BREP');
+    
+    // names and colors need the XCAF bindings of newer builds of archiyou-opencascade
+    if (geom._oc.STEPCAFControl_Writer_1 !== undefined)
+    {
+        expect(step).toContain("'bracket'");
+        expect(step).toContain('COLOUR_RGB');
+    }
+});
+
+test("Export GLTF with a node per Obj", () => 
+{
+    geom.layer('furniture');
+    geom.Box(100).name('table').color('red');
+    geom.Box(50, 50, 50, [200,0,0]).name('chair').color('blue');
+    geom.resetLayers();
+
+    const gltf = JSON.parse(new Exporter({ geom: geom }).exportToGLTF(null, false, false, { target: 'furniture' }) as string);
+    
+    const meshNodes = gltf.nodes.filter(n => n.mesh !== undefined);
+    expect(meshNodes.length).toEqual(2); // one per Obj
+    expect(gltf.nodes.some(n => n.children?.length === 2)).toEqual(true); // the layer
+
+    // names and materials need the XCAF bindings of newer builds of archiyou-opencascade
+    if (geom._oc.TDataStd_Name !== undefined && geom._oc.XCAFDoc_ColorTool !== undefined)
+    {
+        expect(meshNodes.map(n => n.name).sort()).toEqual(['chair', 'table']);
+        expect(gltf.nodes.some(n => n.name === 'furniture')).toEqual(true);
+        const colors = gltf.materials.map(m => m.pbrMetallicRoughness.baseColorFactor.slice(0,3).map(c => Math.round(c)));
+        expect(colors).toContainEqual([1,0,0]);
+        expect(colors).toContainEqual([0,0,1]);
+    }
+});
+
+test("Text GLTF with embedded buffers and Archiyou data", () => 
+{
+    const builder = new GLTFBuilder();
+    const gltf = JSON.stringify({ asset: { version: '2.0' }, buffers: [{ uri: 'file.bin', byteLength: 0 }, { uri: 'data:application/octet-stream;base64,AA==' }] });
+
+    const embedded = JSON.parse(builder.embedBuffers(gltf, { 'file.bin': new Uint8Array([1,2,3]) }));
+    expect(embedded.buffers[0].uri).toEqual('data:application/octet-stream;base64,AQID');
+    expect(embedded.buffers[0].byteLength).toEqual(3);
+    expect(embedded.buffers[1].uri).toEqual('data:application/octet-stream;base64,AA=='); // already embedded
+    
+    const withData = JSON.parse(builder.addArchiyouData(JSON.stringify(embedded), { geom: geom, gizmos: [] } as any) as string);
+    expect(withData.asset.generator).toEqual('Archiyou');
+    expect(withData.asset.version).toEqual('2.0');
+    expect(withData.asset.extras.archiyou.scenegraph).toBeTruthy();
+
+    // exported text GLTF is self-contained
+    const exported = new Exporter({ geom: geom, ay: { geom: geom, gizmos: [] } }).exportToGLTF(null, false, true);
+    const exportedJson = JSON.parse(exported as string);
+    expect(exportedJson.buffers.every(b => b.uri.startsWith('data:'))).toEqual(true);
+    expect(exportedJson.asset.extras.archiyou).toBeTruthy();
+});
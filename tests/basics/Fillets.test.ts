@@ -0,0 +1,55 @@
+import { Geom } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Variable radius fillets", () =>
+{
+    const volume = 100 * 100 * 100;
+    const edge = () => geom.Box(100).edges().first();
+
+    const constant = geom.Box(100).fillet(10, edge());
+    expect(constant.volume()).toBeCloseTo(volume - (10**2 - Math.PI * 10**2 / 4) * 100, 0);
+
+    const linear = geom.Box(100).fillet([5,20], edge());
+    expect(linear.volume()).toBeLessThan(geom.Box(100).fillet(5, edge()).volume());
+    expect(linear.volume()).toBeGreaterThan(geom.Box(100).fillet(20, edge()).volume());
+
+    const stations = geom.Box(100).fillet([[0,5],[0.5,15],[1,5]], edge());
+    expect(stations.volume()).toBeLessThan(geom.Box(100).fillet(5, edge()).volume());
+    expect(stations.failedEdges().length).toEqual(0);
+});
+
+test("Asymmetric chamfers", () =>
+{
+    const volume = 100 * 100 * 100;
+    const edge = () => geom.Box(100).edges().first();
+
+    const twoDistances = geom.Box(100).chamfer([10,20], edge());
+    expect(twoDistances.volume()).toBeCloseTo(volume - 10 * 20 / 2 * 100, 0);
+
+    const distanceAngle = geom.Box(100).chamfer({ distance: 10, angle: 45 }, edge());
+    expect(distanceAngle.volume()).toBeCloseTo(volume - 10 * 10 / 2 * 100, 0);
+});
+
+test("Fillets with selection map and failing Edges", () =>
+{
+    const box = geom.Box(100, 100, 10);
+    const volume = box.volume();
+    box.fillet({ 'E|Z': 5, 'E||top': 12 }); // radius on top Edges is bigger than the thickness
+
+    expect(box.failedEdges().length).toEqual(4);
+    expect(box.volume()).toBeCloseTo(volume - 4 * (5**2 - Math.PI * 5**2 / 4) * 10, 0);
+
+    expect(() => geom.Box(100, 100, 10).fillet(12, 'E||top')).toThrow();
+});
@@ -0,0 +1,71 @@
+import { Geom } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Simple through and blind holes", () =>
+{
+    const panel = geom.Box(100, 100, 20); // top Face at z=10
+    const volume = panel.volume();
+
+    panel.hole([0,0,10], 10);
+    expect(panel.volume()).toBeCloseTo(volume - Math.PI * 5**2 * 20, 0);
+
+    panel.hole([[30,30,10],[-30,30,10]], { diameter: 6, depth: 8 });
+    expect(panel.volume()).toBeCloseTo(volume - Math.PI * 5**2 * 20 - 2 * Math.PI * 3**2 * 8, 0);
+
+    const holes = panel.holes();
+    expect(holes.length).toEqual(3);
+    expect(holes[0].type).toEqual('simple');
+    expect(holes[0].depth).toEqual('through');
+    expect(holes[1].depth).toEqual(8);
+    expect(holes[1].direction[2]).toBeCloseTo(-1); // into the Solid
+});
+
+test("Counterbored, countersunk and threaded holes", () =>
+{
+    const volume = 100 * 100 * 20;
+
+    const counterbored = geom.Box(100, 100, 20).hole([0,0,10], { type: 'counterbore', diameter: 6, counterboreDiameter: 10, counterboreDepth: 5 });
+    expect(counterbored.volume()).toBeCloseTo(volume - Math.PI * (5**2 * 5 + 3**2 * 15), 0);
+
+    const countersunk = geom.Box(100, 100, 20).hole([0,0,10], { type: 'countersink', diameter: 6, countersinkDiameter: 12 });
+    const sinkDepth = 3; // 90 degrees
+    const coneVolume = Math.PI * sinkDepth / 3 * (6**2 + 6*3 + 3**2);
+    expect(countersunk.volume()).toBeCloseTo(volume - coneVolume - Math.PI * 3**2 * (20 - sinkDepth), 0);
+    expect(countersunk.holes()[0].countersinkAngle).toEqual(90);
+
+    const threaded = geom.Box(100, 100, 20).hole([0,0,-10], { thread: 'M6', depth: 12 }); // from below
+    const hole = threaded.holes()[0];
+    expect(hole.type).toEqual('threaded');
+    expect(hole.diameter).toBeCloseTo(5); // tap drill
+    expect(hole.pitch).toEqual(1);
+    expect(hole.direction[2]).toBeCloseTo(1);
+});
+
+test("Holes at selected Vertices and on Faces", () =>
+{
+    const panel = geom.Box(100, 100, 20);
+    panel.hole('V||top', 8); // corners: biggest Face decides direction
+    expect(panel.holes().length).toEqual(4);
+    panel.holes().forEach(h => expect(h.direction[2]).toBeCloseTo(-1));
+
+    const plate = geom.Box(50, 50, 10);
+    const result = plate.select('F||front').hole([0,-25,0], 4); // drilled through the Solid the Face belongs to
+    expect(result).toBe(plate);
+    expect(plate.holes()[0].direction[1]).toBeCloseTo(1);
+
+    const face = geom.Plane(100, 100).hole([[10,10,0],[-10,-10,0]], 5);
+    expect(face.area()).toBeCloseTo(100 * 100 - 2 * Math.PI * 2.5**2, 0);
+    expect(face.attribute('holes').length).toEqual(2);
+});
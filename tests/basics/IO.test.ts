@@ -0,0 +1,454 @@
+import { Geom, IO, Exporter, ShapeCollection, Face } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import { AssetCache, MemoryCache, DiskCache } from '../../src/IOCaches'
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+const tmpDirs:Array<string> = []; // removed after all tests
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+afterAll(async () =>
+{
+    const fs = await import('fs');
+    tmpDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+test("BREP round trip", () =>
+{
+    const box = geom.Box(100,50,20);
+    const line = geom.Line([0,0,0],[0,0,100]);
+
+    const brep = new Exporter({ geom: geom }).exportToBREP({ target: new ShapeCollection(box, line) });
+    expect(brep).toContain('CASCADE Topology');
+
+    const imported = new IO(geom).importBREP(brep) as ShapeCollection;
+    expect(ShapeCollection.isShapeCollection(imported)).toEqual(true);
+    expect(imported.length).toEqual(2);
+    expect(imported.first().type()).toEqual('Solid');
+    expect(imported.last().type()).toEqual('Edge');
+    expect(imported.first().volume()).toBeCloseTo(box.volume());
+
+    // a single Shape is not wrapped in a collection
+    const importedBox = new IO(geom).importBREP(new Exporter({ geom: geom }).exportToBREP({ target: new ShapeCollection(box) }));
+    expect(importedBox.type()).toEqual('Solid');
+});
+
+test("STEP import with names, colors and assemblies", () =>
+{
+    if (!new IO(geom)._hasXCAFReaderBindings())
+    {
+        console.warn('Skipped STEP import test: OpenCascade build has no XCAF STEP reader');
+        return;
+    }
+
+    geom.layer('door');
+    geom.Box(100,10,200).name('panel').color('red');
+    geom.Sphere(20).name('knob');
+    geom.resetLayers();
+
+    const step = new Exporter({ geom: geom }).exportToStep({ target: 'door' });
+    const imported = new IO(geom).importSTEP(step);
+
+    expect(imported.length).toEqual(2);
+    expect(imported.filter(s => s.type() === 'Solid').length).toEqual(2);
+
+    // the Exporter places everything in a 'scene' assembly
+    expect(imported.groups()).toContain('scene');
+    expect(imported.groups()).toContain('scene/door');
+    expect(imported.getGroup('scene').length).toEqual(2);
+
+    const panel = imported.getGroup('scene/door').first();
+    expect(panel.type()).toEqual('Solid');
+    expect(panel.getName()).toEqual('panel');
+    expect(panel._obj.getColor()).toEqual(0xFF0000);
+});
+
+test("STL import into Solid", () =>
+{
+    const stl = new Exporter({ geom: geom }).exportToStl({ target: new ShapeCollection(geom.Box(100)) });
+    
+    const solid = new IO(geom).importSTL(stl);
+    expect(solid.type()).toEqual('Solid');
+    expect(solid.volume()).toBeCloseTo(100*100*100);
+    expect(solid.faces().length).toEqual(12); // 2 triangles per side
+
+    const unifiedSolid = new IO(geom).importSTL(stl, true);
+    expect(unifiedSolid.faces().length).toEqual(6);
+
+    // ASCII
+    const asciiStl = `solid triangle
+        facet normal 0 0 1
+            outer loop
+                vertex 0 0 0
+                vertex 10 0 0
+                vertex 0 10 0
+            endloop
+        endfacet
+    endsolid triangle`;
+    expect(new IO(geom).importSTL(asciiStl).type()).toEqual('Face');
+});
+
+test("DXF import with layers and blocks", () =>
+{
+    const dxf = [
+        0,'SECTION',2,'HEADER',9,'$INSUNITS',70,4,0,'ENDSEC',
+        0,'SECTION',2,'BLOCKS',
+            0,'BLOCK',8,'0',2,'door',10,0,20,0,30,0,
+                0,'LINE',8,'0',10,0,20,0,30,0,11,50,21,0,31,0,
+            0,'ENDBLK',
+        0,'ENDSEC',
+        0,'SECTION',2,'ENTITIES',
+            // closed square with one rounded corner (bulge)
+            0,'LWPOLYLINE',8,'walls',90,4,70,1,10,0,20,0,10,100,20,0,42,0.4142135623730951,10,100,20,100,10,0,20,100,
+            0,'CIRCLE',8,'columns',10,50,20,50,30,0,40,10,
+            0,'INSERT',8,'doors',2,'door',10,200,20,0,30,0,50,90,
+            0,'TEXT',8,'notes',10,0,20,0,40,10,1,'skipped',
+        0,'ENDSEC',
+        0,'EOF'].join('\n');
+
+    const shapes = new IO(geom).importDXF(dxf);
+
+    expect(shapes.groups()).toEqual(['walls', 'columns', 'doors']);
+
+    const walls = shapes.getGroup('walls');
+    expect(walls.length).toEqual(1);
+    expect(walls.first().type()).toEqual('Wire');
+    expect(walls.first().edges().length).toEqual(4);
+    expect(walls.first().edges().filter(e => e.edgeType() === 'Arc').length).toEqual(1);
+
+    expect(shapes.getGroup('columns').first().edgeType()).toEqual('Circle');
+
+    // door block rotated 90 degrees around insertion point
+    const door = shapes.getGroup('doors').first();
+    expect(door.start().x).toBeCloseTo(200);
+    expect(door.start().y).toBeCloseTo(0);
+    expect(door.end().x).toBeCloseTo(200);
+    expect(door.end().y).toBeCloseTo(50);
+});
+
+test("GeoJSON import with local projection", () =>
+{
+    const geoJSON = {
+        type: 'FeatureCollection',
+        features: [
+            { type: 'Feature', id: 'tree', properties: { kind: 'oak' }, geometry: { type: 'Point', coordinates: [4.9, 52.37] } },
+            { type: 'Feature', properties: { name: 'path' }, geometry: { type: 'LineString', coordinates: [[4.9, 52.37], [4.901, 52.37], [4.901, 52.371]] } },
+            { type: 'Feature', properties: { height: 12 }, geometry: { type: 'Polygon', coordinates: [
+                [[4.9, 52.37], [4.9005, 52.37], [4.9005, 52.3705], [4.9, 52.3705], [4.9, 52.37]],
+                [[4.9001, 52.3701], [4.9002, 52.3701], [4.9002, 52.3702], [4.9001, 52.3702], [4.9001, 52.3701]],
+            ]}},
+        ]
+    };
+
+    const io = new IO(geom).setGeoOrigin(4.9, 52.37);
+    const shapes = io.importGeoJSON(JSON.stringify(geoJSON));
+
+    expect(shapes.length).toEqual(3);
+
+    const [tree, path, building] = shapes.toArray();
+    expect(tree.type()).toEqual('Vertex');
+    expect(tree.attributes).toEqual({ kind: 'oak', id: 'tree' });
+    expect(tree.x).toBeCloseTo(0);
+
+    expect(path.type()).toEqual('Wire');
+    expect(path.edges().length).toEqual(2);
+    // 0.001 degree of longitude at 52.37 degrees latitude is about 68 meters (model units are mm)
+    expect(path.edges().first().length()).toBeCloseTo(67967, -2);
+
+    expect(building.type()).toEqual('Face');
+    expect(building.innerWires().length).toEqual(1);
+    expect(building.attributes.height).toEqual(12);
+});
+
+test("SVG import with primitives, transforms and units", () =>
+{
+    // 100 user units in the viewBox are 50mm
+    const svg = `<?xml version="1.0"?>
+        <svg xmlns="http://www.w3.org/2000/svg" width="50mm" height="50mm" viewBox="0 0 100 100">
+            <g transform="translate(10,10)">
+                <rect x="0" y="0" width="20" height="10" transform="rotate(90)"/>
+                <circle cx="40" cy="40" r="10"/>
+            </g>
+            <ellipse cx="50" cy="50" rx="10" ry="20" transform="scale(2,1)"/>
+            <polygon points="0,0 10,0 10,10"/>
+            <line x1="0" y1="0" x2="100" y2="0"/>
+        </svg>`;
+
+    const shapes = new IO(geom).importSVG(svg);
+    expect(shapes.length).toEqual(5);
+
+    const [rect, circle, ellipse, triangle, line] = shapes.toArray();
+    expect(rect.type()).toEqual('Wire');
+    // rotated rect spans x from -10 to 0 user units, translated by 10: 0-5mm. Y is flipped
+    expect(rect.bbox().min().x).toBeCloseTo(0, 0);
+    expect(rect.bbox().max().x).toBeCloseTo(5, 0);
+    expect(rect.bbox().max().y).toBeCloseTo(45, 0);
+
+    expect(circle.bbox().center().toArray().map(v => Math.round(v))).toEqual([25,25,0]);
+    expect(circle.bbox().width()).toBeCloseTo(10, 0);
+
+    expect(ellipse.bbox().width()).toBeCloseTo(20, 0);
+    expect(ellipse.bbox().depth()).toBeCloseTo(20, 0);
+
+    expect(triangle.closed()).toEqual(true);
+    // line along the top of the drawing
+    expect(line.length()).toBeCloseTo(50);
+    expect(line.start().y).toBeCloseTo(50);
+});
+
+test("Load assets from data URIs, files and custom fetch", async () =>
+{
+    const io = new IO(geom);
+
+    const polygon = '<svg xmlns="http://www.w3.org/2000/svg"><polygon points="0,0 10,0 10,10"/></svg>';
+    const fromText = await io.load(`data:image/svg+xml,${encodeURIComponent(polygon)}`);
+    expect(fromText.format).toEqual('svg');
+    expect(fromText.imported.length).toEqual(1);
+
+    const fromBase64 = await io.load(`data:image/svg+xml;base64,${Buffer.from(polygon).toString('base64')}`);
+    expect(fromBase64.imported.first().closed()).toEqual(true);
+
+    // binary STL from disk relative to asset root
+    const fs = await import('fs');
+    const os = await import('os');
+    const dir = fs.mkdtempSync(`${os.tmpdir()}/io-`);
+    tmpDirs.push(dir);
+    const stl = new Exporter({ geom: geom }).exportToStl({ target: new ShapeCollection(geom.Box(10)) }) as ArrayBuffer;
+    fs.writeFileSync(`${dir}/box.stl`, Buffer.from(stl));
+
+    io.setAssetRoot(dir);
+    const fromFile = await io.load('./box.stl');
+    expect(fromFile.locationType).toEqual('file');
+    expect(fromFile.imported.volume()).toBeCloseTo(1000);
+    expect(await io.load('missing.stl')).toEqual(null);
+
+    // cached by resolved path and by hash of data URIs
+    expect(io.loadFromCache('box.stl').volume()).toBeCloseTo(1000);
+    expect(new IO(geom).setAssetRoot(`${dir}/other`)._parse('./box.stl').key).not.toEqual(io._parse('./box.stl').key);
+    expect(io._parse(`data:image/svg+xml,${encodeURIComponent(polygon)}`).key).toMatch(/^data:image\/svg\+xml;md5,[0-9a-f]{32}$/);
+
+    // remote errors are reported instead of thrown
+    const requested = [];
+    io.setFetch(async (url) => { requested.push(url); return { ok: false, status: 404, statusText: 'Not Found' } });
+    const fetchedAsset = await io._fetch(io._parse('https://example.com/drawing.svg?v=2'));
+    expect(requested).toEqual(['https://example.com/drawing.svg?v=2']);
+    expect(fetchedAsset.format).toEqual('svg');
+    expect(fetchedAsset.fetchError).toEqual('Server responded with 404 Not Found');
+    expect(await io.load('https://example.com/drawing.svg')).toEqual(null);
+
+    expect(io._parse('drawing.xyz').valid).toEqual(false);
+});
+
+test("Asset cache with eviction, persistence on disk and revalidation", async () =>
+{
+    // least recently used entries are evicted
+    const memoryCache = new AssetCache(new MemoryCache(), 10);
+    await memoryCache.set('a', 'aaaa', 'json');
+    await memoryCache.set('b', 'bbbb', 'json');
+    await memoryCache.get('a');
+    await memoryCache.set('c', 'cccc', 'json');
+    expect(memoryCache.has('a')).toEqual(true);
+    expect(memoryCache.has('b')).toEqual(false);
+    expect(await memoryCache.size()).toEqual(8);
+    expect(await memoryCache.set('big', 'x'.repeat(20), 'json')).toEqual(null);
+
+    // disk cache is shared by new instances (for example in another run or worker)
+    const fs = await import('fs');
+    const os = await import('os');
+    const dir = fs.mkdtempSync(`${os.tmpdir()}/io-cache-`);
+    tmpDirs.push(dir);
+    const stl = new Exporter({ geom: geom }).exportToStl({ target: new ShapeCollection(geom.Box(10)) }) as ArrayBuffer;
+    await new AssetCache(new DiskCache(dir)).set('https://example.com/box.stl', stl, 'stl', '"v1"');
+
+    const diskEntry = await new AssetCache(new DiskCache(dir)).get('https://example.com/box.stl');
+    expect(diskEntry.etag).toEqual('"v1"');
+    expect(diskEntry.content.byteLength).toEqual(stl.byteLength);
+
+    // content that does not match its hash is removed
+    const dataFile = fs.readdirSync(dir).find(f => f.endsWith('.data'));
+    fs.writeFileSync(`${dir}/${dataFile}`, 'corrupted');
+    expect(await new AssetCache(new DiskCache(dir)).get('https://example.com/box.stl')).toEqual(null);
+
+    // loads with IO are cached and revalidated with ETag
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"><line x1="0" y1="0" x2="10" y2="0"/></svg>';
+    const requests = [];
+    const io = new IO(geom).setCache(new DiskCache(dir), true);
+    io.setFetch(async (url, init) => 
+    { 
+        requests.push(init?.headers?.['If-None-Match'] || null);
+        return (init?.headers?.['If-None-Match'] === '"v1"') ? 
+                    { ok: false, status: 304 } : 
+                    { ok: true, status: 200, text: async () => svg, headers: new Map([['ETag', '"v1"']]) };
+    });
+
+    const first = await io.load('https://example.com/line.svg');
+    expect(first.imported.length).toEqual(1);
+    const second = await new IO(geom).setCache(new DiskCache(dir), true).setFetch(io.fetchFn).load('https://example.com/line.svg');
+    expect(second.imported.first().length()).toBeCloseTo(10);
+    expect(requests).toEqual([null, '"v1"']);
+});
+
+test("Bitmap import as heightmap and contours", async () =>
+{
+    const io = new IO(geom);
+
+    // 8x8 PNG: white with a black square of 4x4 pixels in the middle
+    const png = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAAAAADhZOFXAAAAIklEQVR4AS3BwREAMAgDIMx1/5Xtw8CsE/UYrKioqFkn6gOJjgMPxHOrJAAAAABJRU5ErkJggg==';
+    const pngContent = (await io.load(png)).content;
+
+    const contours = await io.importBitmap(pngContent, { mode: 'contour', width: 80 }) as ShapeCollection;
+    expect(contours.length).toEqual(1);
+    const outline = contours.first();
+    expect(outline.type()).toEqual('Wire');
+    expect(outline.closed()).toEqual(true);
+    expect(outline.bbox().width()).toBeCloseTo(40, 0);
+    expect(outline.bbox().center().x).toBeCloseTo(40, 0);
+
+    // light regions instead: the border of the image with the square as hole
+    expect((await io.importBitmap(pngContent, { mode: 'contour', invert: true }) as ShapeCollection).length).toEqual(2);
+
+    // loading with other settings imports the cached content again
+    const loadedContours = (await io.load(png, false, false, { mode: 'contour', width: 80 })).imported as ShapeCollection;
+    expect(loadedContours.first().type()).toEqual('Wire');
+    expect(loadedContours.first().bbox().width()).toBeCloseTo(40, 0);
+
+    // gradient from black (left) to white (right)
+    const gradient = { width: 10, height: 5, data: new Uint8Array(10*5*4).map((v,i) => (i % 4 === 3) ? 255 : Math.round((Math.floor(i/4) % 10) / 9 * 255)) };
+
+    const heightmap = await io.importBitmap(gradient, { width: 100, maxHeight: 20 });
+    expect(heightmap.type()).toEqual('Face');
+    expect(heightmap.bbox().width()).toBeCloseTo(100, 0);
+    expect(heightmap.bbox().depth()).toBeCloseTo(50, 0);
+    expect(heightmap.bbox().max().z).toBeCloseTo(20, 0);
+
+    const relief = await io.importBitmap(gradient, { width: 100, maxHeight: 20, solid: true, base: 5 });
+    expect(relief.type()).toEqual('Solid');
+    expect(relief.bbox().min().z).toBeCloseTo(0);
+    // a wedge from 5 to 25 high
+    expect(relief.volume()).toBeCloseTo(100 * 50 * 15, -3);
+});
+
+/** Minimal TrueType font with 'o' (square with square counter) and 'i' (arched bar and dot) */
+function makeTestFont():ArrayBuffer
+{
+    const glyphs = [
+        { advance: 500, contours: [] }, // .notdef
+        { advance: 700, contours: [ [[0,0,1],[0,600,1],[600,600,1],[600,0,1]], [[200,200,1],[400,200,1],[400,400,1],[200,400,1]] ] }, // o
+        { advance: 300, contours: [ [[0,0,1],[0,500,1],[100,600,0],[200,500,1],[200,0,1]], [[0,700,1],[0,900,1],[200,900,1],[200,700,1]] ] }, // i
+    ];
+
+    const table = (size:number, write:(v:DataView) => void) => { const v = new DataView(new ArrayBuffer(size)); write(v); return v.buffer; };
+
+    const glyf = glyphs.map(g =>
+    {
+        if (g.contours.length === 0) { return new ArrayBuffer(0); }
+        const points = [].concat(...g.contours);
+        return table(10 + g.contours.length * 2 + 2 + points.length * 5 + 1, v =>
+        {
+            v.setInt16(0, g.contours.length);
+            let offset = 10;
+            let end = -1;
+            g.contours.forEach(c => { end += c.length; v.setUint16(offset, end); offset += 2; });
+            offset += 2; // no instructions
+            points.forEach(p => v.setUint8(offset++, p[2]));
+            [0, 1].forEach(axis => points.forEach((p, i) => { v.setInt16(offset, p[axis] - ((i > 0) ? points[i-1][axis] : 0)); offset += 2; }));
+        });
+    }).map(b => b.slice(0, Math.ceil(b.byteLength / 4) * 4) as ArrayBuffer);
+
+    // cmap format 4 with segments for 'i', 'o' and the final 0xFFFF
+    const segments = [[0x69, 2], [0x6F, 1], [0xFFFF, 1]];
+    const cmap = table(12 + 16 + segments.length * 8, v =>
+    {
+        v.setUint16(2, 1); v.setUint16(4, 3); v.setUint16(6, 1); v.setUint32(8, 12);
+        v.setUint16(12, 4); v.setUint16(14, 16 + segments.length * 8); v.setUint16(18, segments.length * 2);
+        segments.forEach(([code, glyph], s) =>
+        {
+            v.setUint16(26 + s * 2, code);
+            v.setUint16(28 + segments.length * 2 + s * 2, code);
+            v.setUint16(28 + segments.length * 4 + s * 2, (glyph - code) & 0xFFFF);
+        });
+    });
+
+    const tables = {
+        head: table(54, v => { v.setUint16(18, 1000); v.setInt16(50, 1); }),
+        hhea: table(36, v => { v.setInt16(4, 800); v.setInt16(6, -200); v.setUint16(34, glyphs.length); }),
+        maxp: table(6, v => { v.setUint32(0, 0x5000); v.setUint16(4, glyphs.length); }),
+        hmtx: table(glyphs.length * 4, v => glyphs.forEach((g, i) => v.setUint16(i * 4, g.advance))),
+        cmap: cmap,
+        loca: table((glyphs.length + 1) * 4, v => glyf.reduce((offset, b, i) => { v.setUint32((i + 1) * 4, offset + b.byteLength); return offset + b.byteLength; }, 0)),
+        glyf: glyf.reduce((all, b) => { const joined = new Uint8Array(all.byteLength + b.byteLength); joined.set(new Uint8Array(all)); joined.set(new Uint8Array(b), all.byteLength); return joined.buffer; }, new ArrayBuffer(0)),
+    };
+
+    const tags = Object.keys(tables);
+    const font = new Uint8Array(12 + tags.length * 16 + tags.reduce((size, tag) => size + Math.ceil(tables[tag].byteLength / 4) * 4, 0));
+    const view = new DataView(font.buffer);
+    view.setUint32(0, 0x00010000);
+    view.setUint16(4, tags.length);
+
+    let offset = 12 + tags.length * 16;
+    tags.forEach((tag, t) =>
+    {
+        [0,1,2,3].forEach(c => view.setUint8(12 + t * 16 + c, tag.charCodeAt(c)));
+        view.setUint32(12 + t * 16 + 8, offset);
+        view.setUint32(12 + t * 16 + 12, tables[tag].byteLength);
+        font.set(new Uint8Array(tables[tag]), offset);
+        offset += Math.ceil(tables[tag].byteLength / 4) * 4;
+    });
+
+    return font.buffer;
+}
+
+test("Text with glyph outlines of a TrueType font", async () =>
+{
+    const io = new IO(geom);
+    const fontUri = `data:font/ttf;base64,${Buffer.from(makeTestFont()).toString('base64')}`;
+    await io.load(fontUri);
+
+    // 'o' is one Face with a hole. 'i' are two Faces: bar and dot
+    const text = geom.Text('oi', { font: fontUri, size: 10 }) as ShapeCollection;
+    expect(text.length).toEqual(3);
+    expect(text.first().type()).toEqual('Face');
+    expect(text.first().wires().length).toEqual(2);
+    expect(text.first().area()).toBeCloseTo(36 - 4);
+    expect(text.bbox().width()).toBeCloseTo(9); // o advance 7 + i width 2
+    expect(text.bbox().max().y).toBeCloseTo(9);
+
+    // letter spacing, alignment and lines
+    const spaced = geom.Text('oi', { font: fontUri, size: 10, letterSpacing: 1, align: 'center' }) as ShapeCollection;
+    expect(spaced.bbox().width()).toBeCloseTo(10);
+    expect(spaced.bbox().min().x).toBeCloseTo(-5.5); // line width 7 + 1 + 3 = 11
+    const lines = geom.Text('o\no', { font: fontUri, size: 10, lineHeight: 1.5 }) as ShapeCollection;
+    expect(lines.bbox().min().y).toBeCloseTo(-15);
+
+    // extrude into Solids with holes
+    const solids = text.extruded(2) as ShapeCollection;
+    expect(solids.first().type()).toEqual('Solid');
+    expect(solids.first().volume()).toBeCloseTo((36 - 4) * 2);
+
+    expect(() => geom.Text('o', { font: 'not/loaded.ttf' })).toThrow();
+
+    // on the workplane of the active Sketch
+    const sketch = geom.sketch('xz');
+    const onSketch = geom.Text('o', { font: io.importFont(makeTestFont()), size: 10 }) as ShapeCollection;
+    expect(onSketch.bbox().height()).toBeCloseTo(6);
+    expect(onSketch.bbox().depth()).toBeCloseTo(0);
+    sketch.importSketch();
+
+    // an active Sketch in UV coordinates of a surface is ignored, but can't be given explicitly
+    const side = geom.Cylinder(50, 100).faces().toArray().find(f => (f as Face).faceType() === 'Curved') as Face;
+    const surfaceSketch = geom.sketch(side);
+    const besideSurface = geom.Text('o', { font: io.importFont(makeTestFont()), size: 10 }) as ShapeCollection;
+    expect(besideSurface.bbox().depth()).toBeCloseTo(6);
+    expect(besideSurface.bbox().height()).toBeCloseTo(0);
+    expect(() => geom.Text('o', { font: io.importFont(makeTestFont()), size: 10, sketch: surfaceSketch })).toThrow();
+    surfaceSketch.importSketch();
+    expect(geom.activeSketch).toBeNull();
+});
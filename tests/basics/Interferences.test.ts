@@ -0,0 +1,61 @@
+import { Geom, ShapeCollection } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Interference, contact and clearance between Solids", () =>
+{
+    const a = geom.Box(100);
+    const b = geom.Box(100, 100, 100, [50,0,0]); // overlaps half of a
+    const c = geom.Box(100, 100, 100, [-100,0,0]); // touches a
+    const d = geom.Box(100, 100, 100, [153,0,0]); // 3 units from b
+    const e = geom.Box(100, 100, 100, [1000,0,0]); // far away
+
+    const report = new ShapeCollection(a, b, c, d, e).interferences({ clearance: 5 });
+
+    expect(report.checked).toEqual(3); // only pairs with nearby bounding boxes
+    expect(report.interferences).toEqual(1);
+    expect(report.contacts).toEqual(1);
+    expect(report.clearances).toEqual(1);
+
+    const interference = report.pairs.find(p => p.type === 'interference');
+    expect(interference.shapes).toContain(a);
+    expect(interference.shapes).toContain(b);
+    expect(interference.volume).toBeCloseTo(50 * 100 * 100);
+    expect(interference.overlap.first().type()).toEqual('Solid');
+
+    // the contact is the outline of the shared side
+    const contact = report.pairs.find(p => p.type === 'contact');
+    expect(contact.volume).toEqual(0);
+    expect(contact.overlap.length).toBeGreaterThan(0);
+    expect(contact.overlap.bbox().width()).toBeCloseTo(0);
+    expect(contact.overlap.bbox().depth()).toBeCloseTo(100);
+    expect(contact.overlap.bbox().height()).toBeCloseTo(100);
+
+    const clearance = report.pairs.find(p => p.type === 'clearance');
+    expect(clearance.distance).toBeCloseTo(3);
+    expect(clearance.overlap.first().length()).toBeCloseTo(3); // shortest line
+
+    const withoutContacts = new ShapeCollection(a, c).interferences({ contacts: false });
+    expect(withoutContacts.pairs.length).toEqual(0);
+});
+
+test("Interferences in Scene are highlighted on a layer", () =>
+{
+    geom.Box(50, 50, 50, [0,0,500]);
+    geom.Box(50, 50, 50, [25,0,500]);
+    const report = geom.interferences({ highlight: true });
+
+    expect(report.interferences).toBeGreaterThan(0);
+    expect(geom.getLayer('interferences')).toBeTruthy();
+});
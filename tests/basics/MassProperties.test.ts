@@ -0,0 +1,72 @@
+import { Geom, ShapeCollection } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Mass properties of a Box with a Material", () =>
+{
+    const box = geom.Box(100, 200, 50).material('oak'); // in mm
+
+    const massProps = box.massProperties();
+    expect(massProps.material).toEqual('oak');
+    expect(massProps.mass).toBeCloseTo(0.001 * 700); // 1 liter of oak
+    expect(massProps.center.distance([0,0,0])).toBeCloseTo(0);
+    expect(massProps.inertia[0][0]).toBeCloseTo(massProps.mass / 12 * (200**2 + 50**2));
+    expect(massProps.inertia[0][1]).toBeCloseTo(0);
+    expect(Math.min(...massProps.principalMoments)).toBeCloseTo(massProps.mass / 12 * (100**2 + 50**2));
+    expect(massProps.radiiOfGyration.every(r => r > 0)).toEqual(true);
+    expect(box._obj.getColor()).toEqual(0xC8A165); // color of Material
+
+    // the color of a new Material replaces the previous one, but an explicit color wins
+    box.material('steel');
+    expect(box._obj.getColor()).toEqual(0x8A8D91);
+    box.color('red');
+    expect(box._obj.getColor()).toEqual(0xFF0000);
+
+    // without Material density is 1
+    const plain = geom.Box(100);
+    expect(plain.massProperties().mass).toBeCloseTo(plain.volume());
+    expect(plain.mass()).toBeNull();
+});
+
+test("Material registry and layers", () =>
+{
+    geom.material('walnut', { density: 650, cost: 12, color: '#5C4033' });
+    expect(geom.materials().some(m => m.name === 'walnut')).toEqual(true);
+    expect(() => geom.material('air', { cost: 1 })).toThrow();
+
+    geom.layer('legs').material('walnut');
+    const leg = geom.Box(50, 50, 400);
+    geom.layer('scene');
+
+    expect(leg.getMaterial().name).toEqual('walnut');
+    expect(leg.mass()).toBeCloseTo(50 * 50 * 400 * 1e-9 * 650);
+    expect(leg.cost()).toBeCloseTo(leg.mass() * 12);
+});
+
+test("Combined mass properties and tipping angle of an assembly", () =>
+{
+    geom.material('oak', { cost: 8 });
+    const top = geom.Box(100, 100, 20, [0,0,110]).material('oak');
+    const base = geom.Box(100, 100, 200).material('steel');
+    const assembly = new ShapeCollection(top, base);
+
+    const massProps = assembly.massProperties();
+    expect(massProps.material).toEqual('mixed');
+    expect(massProps.mass).toBeCloseTo(top.mass() + base.mass());
+    expect(massProps.center.z).toBeCloseTo((top.mass() * 110) / massProps.mass);
+    expect(massProps.cost).toBeNull(); // steel has no cost
+
+    // tall box standing on its bottom Face
+    expect(base.tippingAngle()).toBeCloseTo(Math.atan(50 / 100) * 180 / Math.PI);
+});
@@ -0,0 +1,77 @@
+import { Geom, Edge } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Sketch constraints make a rectangle", () =>
+{
+    // roughly drawn rectangle
+    const sketch = geom.sketch('xy')
+        .moveTo(0,0)
+        .lineTo(100,10).horizontal().distance(120)
+        .lineTo(110,60).vertical().distance(50)
+        .lineTo(-5,50).horizontal();
+
+    expect(sketch.constraintState.status).toEqual('underconstrained');
+    expect(sketch.constraintState.dof).toEqual(1); // x of end of last line
+
+    sketch.lineTo(0,0).vertical();
+    expect(sketch.constraintState.status).toEqual('wellconstrained');
+
+    const face = sketch.close().importSketch();
+    expect(face.type()).toEqual('Face');
+    expect(face.area()).toBeCloseTo(120 * 50);
+    expect(face.bbox().min().distance([0,0,0])).toBeCloseTo(0);
+});
+
+test("Sketch constraints with arcs and relations between Edges", () =>
+{
+    const sketch = geom.sketch('xy')
+        .moveTo(0,0)
+        .lineTo(100,0).horizontal()
+        .arcTo([130,20],[140,50]).tangent(-2).radius(40)
+        .lineTo(100,150).perpendicular(-3).equal(-3);
+
+    expect(sketch.constraintState.solved).toEqual(true);
+
+    const [line, arc, lastLine] = sketch.shapes.getShapesByType('Edge').toArray() as Array<Edge>;
+    expect(arc.start().toPoint().distance(line.end())).toBeCloseTo(0); // still connected
+    expect(arc.directionAtStart().normalize().y).toBeCloseTo(0);
+    expect(sketch._edgeToSolverEntity(arc).params[2]).toBeCloseTo(40);
+    expect(lastLine.start().toPoint().distance(arc.end())).toBeCloseTo(0);
+    expect(lastLine.direction().x).toBeCloseTo(0);
+    expect(lastLine.length()).toBeCloseTo(line.length());
+
+    sketch.importSketch();
+});
+
+test("Sketch constraints report over-constrained state", () =>
+{
+    const warn = jest.spyOn(console, 'warn');
+
+    // on workplane xz: horizontal is along x-axis
+    const sketch = geom.sketch('xz')
+        .moveTo(0,0)
+        .lineTo(100,20).horizontal().distance(100);
+
+    const line = sketch.shapes.first() as Edge;
+    expect(line.end().toPoint().distance([100,0,0])).toBeCloseTo(0);
+
+    sketch.angle(45);
+    expect(sketch.constraintState.status).toEqual('overconstrained');
+    expect(sketch.constraintState.solved).toEqual(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('over-constrained'));
+
+    warn.mockRestore();
+    sketch.importSketch();
+});
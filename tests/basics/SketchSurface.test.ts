@@ -0,0 +1,72 @@
+import { Geom, Edge, Face, ShapeCollection } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Sketch on cylinder surface with UV coordinates", () =>
+{
+    const cylinder = geom.Cylinder(50, 100);
+    const side = cylinder.faces().toArray().find(f => f.faceType() === 'Curved') as Face;
+    const [umin, umax, vmin, vmax] = side.uvBounds();
+
+    // U is the angle around the axis, V the height
+    const sketch = geom.sketch(side)
+        .moveTo(1, vmin + 20)
+        .lineTo(2, vmin + 20);
+
+    const line = sketch.shapes.first() as Edge;
+    expect(line.length()).toBeCloseTo(50); // 1 radian on radius 50
+    expect(line.start().toPoint().distance(side.pointAtUv(1, vmin + 20))).toBeCloseTo(0);
+    expect(line.edgeType()).toEqual('Circle');
+
+    sketch.moveTo(Math.PI, (vmin + vmax) / 2).rect(1, 40);
+    const rect = sketch.shapes.last() as Face;
+    expect(rect.type()).toEqual('Face');
+    expect(rect.area()).toBeCloseTo(50 * 1 * 40);
+
+    sketch.importSketch();
+});
+
+test("Sketch on surface splits Face", () =>
+{
+    const cylinder = geom.Cylinder(50, 100);
+    const side = cylinder.faces().toArray().find(f => f.faceType() === 'Curved') as Face;
+    const [umin, umax, vmin, vmax] = side.uvBounds();
+
+    const parts = geom.sketch(side)
+        .moveTo((umin + umax) / 2, (vmin + vmax) / 2)
+        .circle(0.5)
+        .splitSurface();
+
+    const faces = new ShapeCollection(parts).getShapesByType('Face');
+    expect(faces.length).toEqual(2); // circular region and rest of the side with a hole
+});
+
+test("Emboss Sketch on cylinder surface", () =>
+{
+    const cylinder = geom.Cylinder(50, 100);
+    const side = cylinder.faces().toArray().find(f => f.faceType() === 'Curved') as Face;
+    const [umin, umax, vmin, vmax] = side.uvBounds();
+
+    const solids = geom.sketch(side)
+        .moveTo(Math.PI, (vmin + vmax) / 2)
+        .rect(1, 40)
+        .emboss(5);
+
+    expect(solids.length).toEqual(1);
+    const solid = solids.first();
+    expect(solid.type()).toEqual('Solid');
+    // 1 radian of a tube from radius 50 to 55 with a height of 40, on the outside of the cylinder
+    expect(solid.volume()).toBeCloseTo(0.5 * 1 * (55**2 - 50**2) * 40, 0);
+    expect(solid.bbox().min().x).toBeCloseTo(-55, 0);
+});
@@ -0,0 +1,55 @@
+import { Geom, Face, Shell } from '../../src/internal' // import only from internal, otherwise we get circular import problems
+import OcLoader from '../../src/OcLoader'
+import Console from '../../src/Console'
+
+// see Jest docs: https://jestjs.io/docs/expect
+
+let geom;
+console.geom = console.log;
+
+beforeAll(async () =>
+{
+    let ocLoader = new OcLoader();
+    await ocLoader.loadAsync(); // Jest waits for the promise to be resolved
+    geom = new Geom(); // needed to set oc on all other Shapes
+});
+
+test("Validate a valid Shape", () =>
+{
+    const box = geom.Box(100);
+    expect(box.validate(false)).toEqual([]);
+});
+
+test("Validate reports open Shells and small Edges", () =>
+{
+    const faces = geom.Box(100).faces().toArray().slice(0, 5); // box without its last Face
+    const shell = new Shell().fromFaces(faces);
+    const diagnostics = shell.validate(false);
+
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics.some(d => d.kind === 'open')).toEqual(true);
+    expect(diagnostics[0].fixes.length).toBeGreaterThan(0);
+
+    const tinyEdge = geom.Line([0,0,0],[0.001,0,0]);
+    const smallDiagnostics = tinyEdge.validate(false);
+    expect(smallDiagnostics[0].kind).toEqual('small-edge');
+    expect(smallDiagnostics[0].shape.type()).toEqual('Edge');
+});
+
+test("Console messages are linked to the executing statement", () =>
+{
+    const ayConsole = new Console([]);
+    ayConsole.setStatement({ lineStart: 3, lineEnd: 4 });
+    ayConsole.error('Shape::validate: Shell of Shell: NotClosed (open)');
+    const message = ayConsole.getBufferedMessages().find(m => m.type === 'error');
+    expect(message.lineStart).toEqual(3);
+    expect(message.lineEnd).toEqual(4);
+});
+
+test("Validate reports self-intersecting Wires", () =>
+{
+    const bowtie = new Face().fromVertices([[0,0,0],[100,100,0],[100,0,0],[0,100,0]]);
+    const diagnostics = bowtie.validate(false);
+
+    expect(diagnostics.some(d => d.kind === 'self-intersection' && d.shape.type() === 'Wire')).toEqual(true);
+});